@@ -4,7 +4,7 @@ pragma solidity ^0.8.24;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
@@ -19,11 +19,13 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * - On-chain settlement with signature verification
  * - Challenge mechanism for dispute resolution
  * - Force close after challenge period
+ *
+ * States are signed as EIP-712 typed data (ChannelState) so wallets
+ * show the channel, balances and nonce before approving.
  */
-contract YellowSessionCustodian is ReentrancyGuard, Ownable {
+contract YellowSessionCustodian is ReentrancyGuard, Ownable, EIP712 {
     using SafeERC20 for IERC20;
     using ECDSA for bytes32;
-    using MessageHashUtils for bytes32;
 
     // ========================================================================
     // DATA STRUCTURES
@@ -74,6 +76,11 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
     /// @notice Default challenge period (24 hours)
     uint256 public constant DEFAULT_CHALLENGE_PERIOD = 24 hours;
 
+    /// @notice EIP-712 typehash of a signed channel state
+    bytes32 public constant CHANNEL_STATE_TYPEHASH = keccak256(
+        "ChannelState(bytes32 channelId,uint256 userBalance,uint256 counterpartyBalance,uint256 nonce,bool isFinal)"
+    );
+
     // ========================================================================
     // EVENTS
     // ========================================================================
@@ -164,7 +171,7 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
     // CONSTRUCTOR
     // ========================================================================
 
-    constructor() Ownable(msg.sender) {}
+    constructor() Ownable(msg.sender) EIP712("YellowSessionCustodian", "1") {}
 
     // ========================================================================
     // CHANNEL LIFECYCLE
@@ -265,8 +272,8 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
      * @param userFinal Final balance for user
      * @param counterpartyFinal Final balance for counterparty
      * @param nonce State nonce
-     * @param userSig User's signature over state hash
-     * @param counterpartySig Counterparty's signature over state hash
+     * @param userSig User's EIP-712 signature over the final state
+     * @param counterpartySig Counterparty's EIP-712 signature over the final state
      */
     function settle(
         bytes32 channelId,
@@ -290,14 +297,12 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
         }
 
         // Compute state hash
-        bytes32 stateHash = keccak256(
-            abi.encodePacked(
-                channelId,
-                userFinal,
-                counterpartyFinal,
-                nonce,
-                true // isFinal
-            )
+        bytes32 stateHash = _hashChannelState(
+            channelId,
+            userFinal,
+            counterpartyFinal,
+            nonce,
+            true
         );
 
         // Verify signatures
@@ -338,14 +343,12 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
         }
 
         // Compute state hash
-        bytes32 stateHash = keccak256(
-            abi.encodePacked(
-                channelId,
-                userBalance,
-                counterpartyBalance,
-                nonce,
-                false // not necessarily final
-            )
+        bytes32 stateHash = _hashChannelState(
+            channelId,
+            userBalance,
+            counterpartyBalance,
+            nonce,
+            false
         );
 
         // Verify signatures
@@ -399,14 +402,12 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
         }
 
         // Compute state hash
-        bytes32 stateHash = keccak256(
-            abi.encodePacked(
-                channelId,
-                userBalance,
-                counterpartyBalance,
-                nonce,
-                false
-            )
+        bytes32 stateHash = _hashChannelState(
+            channelId,
+            userBalance,
+            counterpartyBalance,
+            nonce,
+            false
         );
 
         // Verify signatures
@@ -489,15 +490,38 @@ contract YellowSessionCustodian is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @notice Verify a signature matches the expected signer
+     * @notice EIP-712 digest of a channel state, as signed by both parties
+     */
+    function _hashChannelState(
+        bytes32 channelId,
+        uint256 userBalance,
+        uint256 counterpartyBalance,
+        uint256 nonce,
+        bool isFinal
+    ) internal view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    CHANNEL_STATE_TYPEHASH,
+                    channelId,
+                    userBalance,
+                    counterpartyBalance,
+                    nonce,
+                    isFinal
+                )
+            )
+        );
+    }
+
+    /**
+     * @notice Verify a signature over an EIP-712 state digest
      */
     function _verifySignature(
         bytes32 stateHash,
         bytes memory signature,
         address expectedSigner
     ) internal pure {
-        bytes32 ethSignedHash = stateHash.toEthSignedMessageHash();
-        address recoveredSigner = ethSignedHash.recover(signature);
+        address recoveredSigner = stateHash.recover(signature);
         
         if (recoveredSigner != expectedSigner) {
             revert InvalidSignature();
@@ -3,8 +3,9 @@ pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
-import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
 
 /**
  * @title SessionFiHook
@@ -16,11 +17,13 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
  * - Session creation with locked capital
  * - Intent-based swap validation
  * - Fee rebates for high-volume sessions
- * - Cryptographic state verification
+ * - Cryptographic state verification (state hashes are SessionFi ABI state
+ *   commitments, recomputable off-chain with computeAbiStateHash)
+ * - EIP-712 typed-data swap intents
+ * - Session key delegation (scoped, expiring keys that sign intents)
  */
-contract SessionFiHook is ReentrancyGuard {
+contract SessionFiHook is ReentrancyGuard, EIP712 {
     using ECDSA for bytes32;
-    using MessageHashUtils for bytes32;
 
     // =========================================================================
     // STRUCTS
@@ -48,6 +51,44 @@ contract SessionFiHook is ReentrancyGuard {
         bytes signature;
     }
 
+    // Owner-signed authorization for an ephemeral session key
+    struct SessionKeyDelegation {
+        bytes32 sessionId;
+        address sessionKey;
+        address[] allowedTokens;
+        address[] capTokens;
+        uint256[] spendCaps; // Parallel to capTokens
+        uint256 expiresAt;
+        bytes ownerSignature;
+    }
+
+    // SessionFi ABI state commitment (src/crypto/encoding.ts), hashed as
+    // keccak256(abi.encode(ENCODING_VERSION, commitment))
+    struct BalanceEntry {
+        string account;
+        string asset;
+        uint256 amount;
+    }
+
+    struct AssetAmount {
+        string asset;
+        uint256 amount;
+    }
+
+    struct ConstraintCarry {
+        AssetAmount[] totalDeductions;
+        uint64[] recentActionTimestamps;
+    }
+
+    struct StateCommitment {
+        string sessionId;
+        uint64 nonce;
+        BalanceEntry[] balances;
+        bytes previousStateHash;
+        bytes32 actionLogRoot;
+        ConstraintCarry[] carry; // Zero or one element
+    }
+
     // =========================================================================
     // STATE VARIABLES
     // =========================================================================
@@ -58,6 +99,12 @@ contract SessionFiHook is ReentrancyGuard {
     
     // Token balances per session
     mapping(bytes32 => mapping(address => uint256)) public sessionBalances;
+
+    // Tokens a session has held, in ascending address order
+    mapping(bytes32 => address[]) internal sessionTokens;
+
+    // Running hash of the intents executed in a session (its action log root)
+    mapping(bytes32 => bytes32) public intentLogRoots;
     
     // Intent tracking
     mapping(bytes32 => bool) public executedIntents;
@@ -66,6 +113,26 @@ contract SessionFiHook is ReentrancyGuard {
     uint256 public constant BASE_FEE = 30; // 0.30%
     uint256 public constant HIGH_VOLUME_FEE = 25; // 0.25%
     uint256 public constant HIGH_VOLUME_THRESHOLD = 1000000 * 10**6; // $1M in USDC decimals
+
+    // State commitment encoding version and the account balances are held by
+    uint8 public constant ENCODING_VERSION = 1;
+    string public constant PRIMARY_ACCOUNT = "primary";
+
+    // Spend per delegation (by EIP-712 digest) per token
+    mapping(bytes32 => mapping(address => uint256)) public delegatedSpend;
+
+    // Delegations revoked by their session owner
+    mapping(bytes32 => bool) public revokedDelegations;
+
+    // EIP-712 typehash of a swap intent (signature excluded)
+    bytes32 public constant SWAP_INTENT_TYPEHASH = keccak256(
+        "SwapIntent(bytes32 sessionId,address tokenIn,address tokenOut,uint256 amountIn,uint256 minAmountOut,uint256 deadline)"
+    );
+
+    // EIP-712 typehash of a session key delegation (signature excluded)
+    bytes32 public constant SESSION_KEY_DELEGATION_TYPEHASH = keccak256(
+        "SessionKeyDelegation(bytes32 sessionId,address sessionKey,address[] allowedTokens,address[] capTokens,uint256[] spendCaps,uint256 expiresAt)"
+    );
     
     // =========================================================================
     // EVENTS
@@ -105,6 +172,17 @@ contract SessionFiHook is ReentrancyGuard {
         bool success
     );
 
+    event DelegationRevoked(
+        bytes32 indexed sessionId,
+        bytes32 indexed delegationHash
+    );
+
+    // =========================================================================
+    // CONSTRUCTOR
+    // =========================================================================
+
+    constructor() EIP712("SessionFiHook", "1") {}
+
     // =========================================================================
     // MODIFIERS
     // =========================================================================
@@ -176,6 +254,7 @@ contract SessionFiHook is ReentrancyGuard {
         sessionBalances[sessionId][token] += amount;
         sessions[sessionId].lockedAmount += amount;
         sessions[sessionId].availableAmount += amount;
+        _trackToken(sessionId, token);
         
         // Update state hash
         _updateStateHash(sessionId);
@@ -185,63 +264,58 @@ contract SessionFiHook is ReentrancyGuard {
 
     /**
      * @notice Execute a swap within a session (simulated - would integrate with v4 PoolManager)
-     * @param intent The swap intent to execute
+     * @param intent The swap intent to execute, signed by the session owner
      */
     function executeSwapIntent(
         SwapIntent calldata intent
     ) external sessionActive(intent.sessionId) nonReentrant {
-        Session storage session = sessions[intent.sessionId];
-        
-        // Verify intent hasn't been executed
-        bytes32 intentHash = _hashIntent(intent);
-        require(!executedIntents[intentHash], "Intent already executed");
-        
-        // Verify deadline
-        require(block.timestamp <= intent.deadline, "Intent expired");
-        
-        // Verify signature
+        _executeSwapIntent(intent, sessions[intent.sessionId].owner);
+    }
+
+    /**
+     * @notice Execute a swap intent signed by a delegated session key
+     * @param intent The swap intent, signed by delegation.sessionKey
+     * @param delegation Owner-signed delegation scoping the session key
+     */
+    function executeSwapIntentWithDelegation(
+        SwapIntent calldata intent,
+        SessionKeyDelegation calldata delegation
+    ) external sessionActive(intent.sessionId) nonReentrant {
+        bytes32 delegationHash = _hashDelegation(delegation);
+
+        require(delegation.sessionId == intent.sessionId, "Delegation session mismatch");
+        require(block.timestamp <= delegation.expiresAt, "Delegation expired");
+        require(!revokedDelegations[delegationHash], "Delegation revoked");
         require(
-            _verifyIntentSignature(intent, intentHash),
-            "Invalid signature"
+            delegationHash.recover(delegation.ownerSignature) == sessions[intent.sessionId].owner,
+            "Invalid delegation signature"
         );
-        
-        // Verify balance
+
+        // Scope: tokens and cumulative spend of tokenIn
         require(
-            sessionBalances[intent.sessionId][intent.tokenIn] >= intent.amountIn,
-            "Insufficient balance"
+            _contains(delegation.allowedTokens, intent.tokenIn) &&
+                _contains(delegation.allowedTokens, intent.tokenOut),
+            "Token not delegated"
         );
-        
-        // Calculate fee
-        uint256 fee = _calculateFee(session.totalVolume, intent.amountIn);
-        uint256 amountAfterFee = intent.amountIn - fee;
-        
-        // Simulate swap output (in production, this would call the PoolManager)
-        // For MVP, we use a 1:1 ratio minus fee
-        uint256 amountOut = amountAfterFee;
-        require(amountOut >= intent.minAmountOut, "Slippage too high");
-        
-        // Update balances
-        sessionBalances[intent.sessionId][intent.tokenIn] -= intent.amountIn;
-        sessionBalances[intent.sessionId][intent.tokenOut] += amountOut;
-        
-        // Update session state
-        session.totalVolume += intent.amountIn;
-        session.nonce++;
-        _updateStateHash(intent.sessionId);
-        
-        // Mark intent as executed
-        executedIntents[intentHash] = true;
-        
-        emit SwapExecutedInSession(
-            intent.sessionId,
-            intent.tokenIn,
-            intent.tokenOut,
-            intent.amountIn,
-            amountOut,
-            fee
-        );
-        
-        emit IntentExecuted(intent.sessionId, intentHash, true);
+
+        uint256 spent = delegatedSpend[delegationHash][intent.tokenIn] + intent.amountIn;
+        require(spent <= _spendCap(delegation, intent.tokenIn), "Delegated spend cap exceeded");
+        delegatedSpend[delegationHash][intent.tokenIn] = spent;
+
+        _executeSwapIntent(intent, delegation.sessionKey);
+    }
+
+    /**
+     * @notice Revoke a session key delegation before it expires
+     * @param delegation The delegation to revoke
+     */
+    function revokeDelegation(
+        SessionKeyDelegation calldata delegation
+    ) external onlySessionOwner(delegation.sessionId) {
+        bytes32 delegationHash = _hashDelegation(delegation);
+        revokedDelegations[delegationHash] = true;
+
+        emit DelegationRevoked(delegation.sessionId, delegationHash);
     }
 
     /**
@@ -339,6 +413,27 @@ contract SessionFiHook is ReentrancyGuard {
         return sessionBalances[sessionId][token];
     }
 
+    /**
+     * @notice Get the tokens a session has held, in ascending address order
+     */
+    function getSessionTokens(bytes32 sessionId) external view returns (address[] memory) {
+        return sessionTokens[sessionId];
+    }
+
+    /**
+     * @notice Get the state commitment a session's state hash is computed from
+     */
+    function getStateCommitment(bytes32 sessionId) external view returns (StateCommitment memory) {
+        return _stateCommitment(sessionId);
+    }
+
+    /**
+     * @notice Hash a SessionFi ABI state commitment (computeAbiStateHash off-chain)
+     */
+    function hashStateCommitment(StateCommitment memory commitment) public pure returns (bytes32) {
+        return keccak256(abi.encode(ENCODING_VERSION, commitment));
+    }
+
     /**
      * @notice Get all sessions for a user
      */
@@ -371,36 +466,172 @@ contract SessionFiHook is ReentrancyGuard {
     }
 
     function _updateStateHash(bytes32 sessionId) internal {
-        Session storage session = sessions[sessionId];
-        session.stateHash = keccak256(
-            abi.encodePacked(
-                sessionId,
-                session.nonce,
-                session.totalVolume,
-                session.availableAmount,
-                block.timestamp
-            )
+        sessions[sessionId].stateHash = hashStateCommitment(_stateCommitment(sessionId));
+    }
+
+    /**
+     * @dev Commitment to a session's balances, one primary account entry per
+     *      token, in the canonical (account, asset) order. Assets are lowercase
+     *      hex addresses, so their string order is their address order. The
+     *      intent log root commits to history, so no previous state is linked.
+     */
+    function _stateCommitment(
+        bytes32 sessionId
+    ) internal view returns (StateCommitment memory commitment) {
+        address[] storage tokens = sessionTokens[sessionId];
+
+        commitment.sessionId = Strings.toHexString(uint256(sessionId), 32);
+        commitment.nonce = uint64(sessions[sessionId].nonce);
+        commitment.balances = new BalanceEntry[](tokens.length);
+        for (uint256 i = 0; i < tokens.length; i++) {
+            commitment.balances[i] = BalanceEntry({
+                account: PRIMARY_ACCOUNT,
+                asset: Strings.toHexString(tokens[i]),
+                amount: sessionBalances[sessionId][tokens[i]]
+            });
+        }
+        commitment.actionLogRoot = intentLogRoots[sessionId];
+    }
+
+    /**
+     * @dev Insert a token into a session's sorted token list (once)
+     */
+    function _trackToken(bytes32 sessionId, address token) internal {
+        address[] storage tokens = sessionTokens[sessionId];
+
+        uint256 i = 0;
+        while (i < tokens.length && tokens[i] < token) {
+            i++;
+        }
+        if (i < tokens.length && tokens[i] == token) {
+            return;
+        }
+
+        tokens.push(token);
+        for (uint256 j = tokens.length - 1; j > i; j--) {
+            tokens[j] = tokens[j - 1];
+        }
+        tokens[i] = token;
+    }
+
+    function _executeSwapIntent(SwapIntent calldata intent, address signer) internal {
+        Session storage session = sessions[intent.sessionId];
+        
+        // Verify intent hasn't been executed
+        bytes32 intentHash = _hashIntent(intent);
+        require(!executedIntents[intentHash], "Intent already executed");
+        
+        // Verify deadline
+        require(block.timestamp <= intent.deadline, "Intent expired");
+        
+        // Verify signature
+        require(
+            _verifyIntentSignature(intent, intentHash, signer),
+            "Invalid signature"
+        );
+        
+        // Verify balance
+        require(
+            sessionBalances[intent.sessionId][intent.tokenIn] >= intent.amountIn,
+            "Insufficient balance"
         );
+        
+        // Calculate fee
+        uint256 fee = _calculateFee(session.totalVolume, intent.amountIn);
+        uint256 amountAfterFee = intent.amountIn - fee;
+        
+        // Simulate swap output (in production, this would call the PoolManager)
+        // For MVP, we use a 1:1 ratio minus fee
+        uint256 amountOut = amountAfterFee;
+        require(amountOut >= intent.minAmountOut, "Slippage too high");
+        
+        // Update balances
+        sessionBalances[intent.sessionId][intent.tokenIn] -= intent.amountIn;
+        sessionBalances[intent.sessionId][intent.tokenOut] += amountOut;
+        
+        _trackToken(intent.sessionId, intent.tokenOut);
+        
+        // Update session state
+        session.totalVolume += intent.amountIn;
+        session.nonce++;
+        intentLogRoots[intent.sessionId] = keccak256(
+            abi.encodePacked(intentLogRoots[intent.sessionId], intentHash)
+        );
+        _updateStateHash(intent.sessionId);
+        
+        // Mark intent as executed
+        executedIntents[intentHash] = true;
+        
+        emit SwapExecutedInSession(
+            intent.sessionId,
+            intent.tokenIn,
+            intent.tokenOut,
+            intent.amountIn,
+            amountOut,
+            fee
+        );
+        
+        emit IntentExecuted(intent.sessionId, intentHash, true);
     }
 
-    function _hashIntent(SwapIntent calldata intent) internal pure returns (bytes32) {
-        return keccak256(
-            abi.encodePacked(
-                intent.sessionId,
-                intent.tokenIn,
-                intent.tokenOut,
-                intent.amountIn,
-                intent.minAmountOut,
-                intent.deadline
+    function _hashIntent(SwapIntent calldata intent) internal view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SWAP_INTENT_TYPEHASH,
+                    intent.sessionId,
+                    intent.tokenIn,
+                    intent.tokenOut,
+                    intent.amountIn,
+                    intent.minAmountOut,
+                    intent.deadline
+                )
             )
         );
     }
 
     function _verifyIntentSignature(
         SwapIntent calldata intent,
-        bytes32 intentHash
-    ) internal view returns (bool) {
-        address signer = intentHash.toEthSignedMessageHash().recover(intent.signature);
-        return signer == sessions[intent.sessionId].owner;
+        bytes32 intentHash,
+        address expectedSigner
+    ) internal pure returns (bool) {
+        return intentHash.recover(intent.signature) == expectedSigner;
+    }
+
+    function _hashDelegation(SessionKeyDelegation calldata delegation) internal view returns (bytes32) {
+        return _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    SESSION_KEY_DELEGATION_TYPEHASH,
+                    delegation.sessionId,
+                    delegation.sessionKey,
+                    keccak256(abi.encodePacked(delegation.allowedTokens)),
+                    keccak256(abi.encodePacked(delegation.capTokens)),
+                    keccak256(abi.encodePacked(delegation.spendCaps)),
+                    delegation.expiresAt
+                )
+            )
+        );
+    }
+
+    function _spendCap(
+        SessionKeyDelegation calldata delegation,
+        address token
+    ) internal pure returns (uint256) {
+        for (uint256 i = 0; i < delegation.capTokens.length; i++) {
+            if (delegation.capTokens[i] == token) {
+                return delegation.spendCaps[i];
+            }
+        }
+        return 0; // Tokens without a cap cannot be spent
+    }
+
+    function _contains(address[] calldata list, address item) internal pure returns (bool) {
+        for (uint256 i = 0; i < list.length; i++) {
+            if (list[i] == item) {
+                return true;
+            }
+        }
+        return false;
     }
 }
@@ -38,7 +38,8 @@ import {
   AMMEventType,
   LiquidityPosition,
 } from "../types";
-import { hashStringSync } from "../../crypto/browser-primitives";
+import { hashString } from "../../crypto/primitives";
+import { computeSessionBalanceRoot } from "../settlement/balance-tree";
 import {
   SessionHookManager,
   sessionHookManager,
@@ -96,12 +97,14 @@ export class IntentEngine {
       lastActivityAt: now,
       expiresAt,
       stateHash: "",
+      balanceRoot: "",
       nonce: 0,
       userSignature: "",
       engineSignature: "",
     };
 
     // Compute initial state hash
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     // Register with hook manager
@@ -337,6 +340,7 @@ export class IntentEngine {
     session.activeIntents.push(intent);
     session.lastActivityAt = Date.now();
     session.nonce++;
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     // Update hook manager
@@ -645,6 +649,8 @@ export class IntentEngine {
 
     // Mark intent as filled
     intent.status = IntentStatus.FILLED;
+    intent.filledAmountIn = intent.amountIn;
+    intent.filledAmountOut = amountOut;
 
     // Move to completed
     session.activeIntents = session.activeIntents.filter(
@@ -655,6 +661,7 @@ export class IntentEngine {
     // Update session state
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.hookManager.updateSession(session);
@@ -712,6 +719,8 @@ export class IntentEngine {
     session.totalGasSaved += BigInt(150000);
 
     intent.status = IntentStatus.FILLED;
+    intent.filledAmountIn = amountIn;
+    intent.filledAmountOut = intent.amountOut;
     session.activeIntents = session.activeIntents.filter(
       (i) => i.intentId !== intent.intentId,
     );
@@ -719,6 +728,7 @@ export class IntentEngine {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.hookManager.updateSession(session);
@@ -787,6 +797,8 @@ export class IntentEngine {
     session.totalGasSaved += BigInt(150000);
 
     intent.status = IntentStatus.FILLED;
+    intent.filledAmountIn = intent.amountIn;
+    intent.filledAmountOut = amountOut;
     session.activeIntents = session.activeIntents.filter(
       (i) => i.intentId !== intent.intentId,
     );
@@ -794,6 +806,7 @@ export class IntentEngine {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.hookManager.updateSession(session);
@@ -874,6 +887,7 @@ export class IntentEngine {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.hookManager.updateSession(session);
@@ -964,6 +978,7 @@ export class IntentEngine {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.hookManager.updateSession(session);
@@ -1004,16 +1019,11 @@ export class IntentEngine {
       };
     }
 
-    let amountIn: bigint;
-    let amountOut: bigint;
-
-    if (request.isExactInput) {
-      amountIn = request.amount;
-      amountOut = this.simulateSwap(route, amountIn);
-    } else {
-      amountOut = request.amount;
-      amountIn = this.simulateExactOutputSwap(route, amountOut);
-    }
+    const { amountIn, amountOut } = this.computeSwap(
+      route,
+      request.amount,
+      request.isExactInput,
+    );
 
     const priceImpact = this.calculatePriceImpact(
       request.tokenIn.address,
@@ -1033,6 +1043,40 @@ export class IntentEngine {
     };
   }
 
+  /**
+   * Deterministic swap math for a token pair, as used by quotes and
+   * intent execution. Null if the pair has no route.
+   *
+   * @param amount - Input amount if isExactInput, else output amount
+   */
+  quoteSwap(
+    tokenIn: string,
+    tokenOut: string,
+    amount: bigint,
+    isExactInput: boolean,
+  ): { amountIn: bigint; amountOut: bigint; route: RouteSegment[] } | null {
+    const route = this.findBestRoute(tokenIn, tokenOut, amount);
+
+    if (route.length === 0) {
+      return null;
+    }
+
+    return { ...this.computeSwap(route, amount, isExactInput), route };
+  }
+
+  private computeSwap(
+    route: RouteSegment[],
+    amount: bigint,
+    isExactInput: boolean,
+  ): { amountIn: bigint; amountOut: bigint } {
+    return isExactInput
+      ? { amountIn: amount, amountOut: this.simulateSwap(route, amount) }
+      : {
+          amountIn: this.simulateExactOutputSwap(route, amount),
+          amountOut: amount,
+        };
+  }
+
   // ==========================================================================
   // HELPER METHODS
   // ==========================================================================
@@ -1044,11 +1088,11 @@ export class IntentEngine {
     const tokenData = Array.from(lockedTokens.entries())
       .map(([addr, amount]) => `${addr}:${amount}`)
       .join("|");
-    return hashStringSync(`session:${ownerAddress}:${Date.now()}:${tokenData}`);
+    return hashString(`session:${ownerAddress}:${Date.now()}:${tokenData}`);
   }
 
   private generateIntentId(sessionId: string, intentType: IntentType): string {
-    return hashStringSync(
+    return hashString(
       `intent:${sessionId}:${intentType}:${Date.now()}:${Math.random()}`,
     );
   }
@@ -1059,13 +1103,13 @@ export class IntentEngine {
     tickLower: number,
     tickUpper: number,
   ): string {
-    return hashStringSync(
+    return hashString(
       `pos:${sessionId}:${poolId}:${tickLower}:${tickUpper}:${Date.now()}`,
     );
   }
 
   private generateQuoteId(): string {
-    return hashStringSync(`quote:${Date.now()}:${Math.random()}`);
+    return hashString(`quote:${Date.now()}:${Math.random()}`);
   }
 
   private computeSessionStateHash(session: AMMSession): string {
@@ -1075,8 +1119,9 @@ export class IntentEngine {
       tokens: Array.from(session.availableTokens.entries()).map(([k, v]) => [k, v.toString()]),
       activeIntents: session.activeIntents.length,
       positions: session.liquidityPositions.length,
+      balanceRoot: session.balanceRoot,
     };
-    return hashStringSync(JSON.stringify(data));
+    return hashString(JSON.stringify(data));
   }
 
   private estimateExecutionTime(intent: AMMIntent): number {
@@ -1115,7 +1160,7 @@ export class IntentEngine {
     ];
 
     for (const poolKey of demoPoolKeys) {
-      const poolId = hashStringSync(
+      const poolId = hashString(
         `${poolKey.currency0}:${poolKey.currency1}:${poolKey.fee}`,
       );
       this.pools.set(poolId, {
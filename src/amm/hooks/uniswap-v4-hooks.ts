@@ -27,7 +27,8 @@ import {
   RemoveLiquidityIntent,
   Token,
 } from "../types";
-import { hashStringSync } from "../../crypto/browser-primitives";
+import { hashString } from "../../crypto/primitives";
+import { computeSessionBalanceRoot } from "../settlement/balance-tree";
 
 // ============================================================================
 // HOOK FLAGS CONFIGURATION
@@ -72,7 +73,7 @@ export function deriveHookAddress(flags: HookFlags): string {
   if (flags.afterDonate) flagBits |= 1 << 9;
 
   // Generate address with flag bits in the last byte
-  const baseHash = hashStringSync("sessionfi-hook-v1");
+  const baseHash = hashString("sessionfi-hook-v1");
   const addressHex =
     baseHash.substring(0, 38) + flagBits.toString(16).padStart(4, "0");
 
@@ -203,6 +204,8 @@ export class SessionHookManager {
 
     if (intent && this.isSwapIntent(intent)) {
       intent.status = IntentStatus.FILLED;
+      intent.filledAmountIn = amountIn > 0n ? amountIn : -amountIn;
+      intent.filledAmountOut = amountOut > 0n ? amountOut : -amountOut;
       // Move to completed
       session.activeIntents = session.activeIntents.filter(
         (i) => i.intentId !== intent.intentId,
@@ -215,6 +218,7 @@ export class SessionHookManager {
     session.totalGasSaved += estimatedOnChainGas;
 
     // Update session state hash
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.updateSession(session);
@@ -347,6 +351,7 @@ export class SessionHookManager {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.updateSession(session);
@@ -490,6 +495,7 @@ export class SessionHookManager {
 
     session.nonce++;
     session.lastActivityAt = Date.now();
+    session.balanceRoot = computeSessionBalanceRoot(session);
     session.stateHash = this.computeSessionStateHash(session);
 
     this.updateSession(session);
@@ -608,7 +614,7 @@ export class SessionHookManager {
   }
 
   private getPoolId(poolKey: PoolKey): string {
-    return hashStringSync(
+    return hashString(
       `${poolKey.currency0}:${poolKey.currency1}:${poolKey.fee}:${poolKey.tickSpacing}:${poolKey.hooks}`,
     );
   }
@@ -619,7 +625,7 @@ export class SessionHookManager {
     tickLower: number,
     tickUpper: number,
   ): string {
-    return hashStringSync(
+    return hashString(
       `pos:${sessionId}:${this.getPoolId(poolKey)}:${tickLower}:${tickUpper}`,
     );
   }
@@ -632,9 +638,10 @@ export class SessionHookManager {
       activeIntents: session.activeIntents.map((i) => i.intentId),
       positions: session.liquidityPositions.map((p) => p.positionId),
       volume: session.totalSwapVolume.toString(),
+      balanceRoot: session.balanceRoot,
     };
 
-    return hashStringSync(JSON.stringify(stateData));
+    return hashString(JSON.stringify(stateData));
   }
 
   private encodeSwapData(zeroForOne: boolean, amount: bigint): string {
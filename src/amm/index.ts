@@ -48,7 +48,11 @@ export {
   advancedVerifier,
   FraudType,
   FraudProofStatus,
+  BondOutcome,
   ZKCircuitType,
+  SETTLEMENT_ZK_CIRCUITS,
+  settlementZkStatements,
+  proveSettlement,
 } from "./settlement/advanced-verifier";
 export type {
   VerificationResult,
@@ -57,13 +61,95 @@ export type {
   MerkleNode,
   FraudProof,
   FraudEvidence,
+  FraudResolution,
+  FraudSessionContext,
+  DoubleSpendEvidence,
+  InvalidStateTransitionEvidence,
+  BalanceOverflowEvidence,
+  UnauthorizedTransferEvidence,
+  IntentReplayEvidence,
   ZKProof,
-  ThresholdSignature,
-  PartialSignature,
+  ZkBackend,
+  ZkVerificationKey,
   VerificationOptions,
   VerificationStats,
 } from "./settlement/advanced-verifier";
 
+// Session Balance Tree
+export {
+  SparseBalanceTree,
+  BalanceLeafKind,
+  BALANCE_TREE_DEPTH,
+  EMPTY_BALANCE_ROOT,
+  tokenBalanceKey,
+  positionBalanceKey,
+  balanceLeafKey,
+  hashBalanceLeaf,
+  sessionBalanceLeaves,
+  settlementBalanceLeaves,
+  computeSessionBalanceRoot,
+  verifyBalanceProof,
+} from "./settlement/balance-tree";
+export type {
+  BalanceLeaf,
+  TokenBalanceLeaf,
+  PositionBalanceLeaf,
+  BalanceProof,
+} from "./settlement/balance-tree";
+
+// Verifier Committee
+export {
+  VerifierCommittee,
+  CommitteeScheme,
+  BLS_SIGNATURE_DST,
+  BLS_POP_DST,
+  generateBlsKeyPair,
+  blsSign,
+  blsProofOfPossession,
+  settlementCommitteeMessage,
+} from "./settlement/verifier-committee";
+export type {
+  CommitteeMember,
+  ThresholdSignature,
+  PartialSignature,
+} from "./settlement/verifier-committee";
+
+// Groth16 ZK Backend
+export {
+  Groth16Backend,
+  GROTH16_INSECURE_TEST_SEED,
+  balanceSolvencyCircuit,
+  groth16Setup,
+  groth16Prove,
+  groth16Verify,
+} from "./settlement/groth16-backend";
+export type {
+  Groth16Circuit,
+  Groth16Proof,
+  Groth16ProvingKey,
+  Groth16VerificationKey,
+  LinearCombination,
+  R1CSConstraint,
+} from "./settlement/groth16-backend";
+
+// Bisection Challenges
+export {
+  BisectionRole,
+  BisectionStatus,
+  LocalBisectionReferee,
+  SwapStepExecutor,
+  commitTokenBalances,
+  computeTraceCommitments,
+} from "./settlement/bisection";
+export type {
+  BisectionGame,
+  BisectionRound,
+  BisectionReferee,
+  OpenBisectionParams,
+  StepExecutor,
+  StepExecutionResult,
+} from "./settlement/bisection";
+
 // LI.FI Routing
 export {
   LiFiRouter,
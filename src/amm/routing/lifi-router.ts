@@ -19,7 +19,7 @@ import {
   IntentStatus,
   AMMSession,
 } from "../types";
-import { hashStringSync } from "../../crypto/browser-primitives";
+import { hashString } from "../../crypto/primitives";
 
 // ============================================================================
 // LIFI TYPES
@@ -258,7 +258,7 @@ export class LiFiRouter {
 
       // For cross-chain, output goes to destination chain
       // In session, we track it as a pending cross-chain transfer
-      const crossChainTransferId = hashStringSync(
+      const crossChainTransferId = hashString(
         `xchain:${session.sessionId}:${intent.intentId}:${Date.now()}`,
       );
 
@@ -406,7 +406,7 @@ export class LiFiRouter {
     ];
 
     return {
-      routeId: hashStringSync(
+      routeId: hashString(
         `route:same:${request.fromToken}:${request.toToken}:${Date.now()}`,
       ),
       fromChainId: request.fromChainId,
@@ -520,7 +520,7 @@ export class LiFiRouter {
       tags.push("SAFEST");
 
     return {
-      routeId: hashStringSync(
+      routeId: hashString(
         `route:${bridge}:${request.fromToken}:${request.toToken}:${Date.now()}`,
       ),
       fromChainId: request.fromChainId,
@@ -637,7 +637,7 @@ export class LiFiRouter {
 
   private generateTxHash(step: LiFiStep): string {
     return (
-      "0x" + hashStringSync(`tx:${step.stepId}:${step.type}:${Date.now()}`)
+      "0x" + hashString(`tx:${step.stepId}:${step.type}:${Date.now()}`)
     );
   }
 
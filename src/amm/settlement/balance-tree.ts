@@ -0,0 +1,431 @@
+/**
+ * AMM Session Balance Tree
+ *
+ * Sparse Merkle tree committing to an AMM session's balances: one leaf per
+ * available token (keyed by token address) and per liquidity position
+ * (keyed by position id). The root is committed as
+ * AMMSession.balanceRoot and AMMSettlementProof.balanceRoot, so a user
+ * can prove a single balance to the Sui settlement contract without
+ * revealing the rest of the portfolio.
+ *
+ * Construction (depth 256, key bits from most significant at the root):
+ * - Key:   SHA-256(BCS BalanceKey), an enum of token address / position id
+ * - Leaf:  SHA-256(0x00 || key || BCS BalanceLeaf)
+ * - Node:  SHA-256(0x01 || left || right)
+ * - Empty: 32 zero bytes at leaf level; an empty subtree hashes its two
+ *          empty children
+ *
+ * Every key has a fixed path, so the same proof format shows inclusion
+ * (leaf present) or non-inclusion (empty leaf at the key). Zero token
+ * balances are left out of the tree: proving a token absent proves a zero
+ * balance. Proofs carry only non-empty siblings plus a bitmap of which
+ * levels they fill.
+ *
+ * BCS encodings match bcs::to_bytes in Move; ticks are encoded as
+ * two's-complement u32.
+ */
+
+import { bcs } from "@mysten/bcs";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, concatBytes, hexToBytes } from "@noble/hashes/utils";
+import { AMMSession, AMMSettlementProof } from "../types";
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+/**
+ * Number of levels between the root and the leaves.
+ */
+export const BALANCE_TREE_DEPTH = 256;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export enum BalanceLeafKind {
+  TOKEN = "TOKEN",
+  POSITION = "POSITION",
+}
+
+export interface TokenBalanceLeaf {
+  kind: BalanceLeafKind.TOKEN;
+  tokenAddress: string;
+  amount: bigint;
+}
+
+export interface PositionBalanceLeaf {
+  kind: BalanceLeafKind.POSITION;
+  positionId: string;
+  poolId: string;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  feesEarned0: bigint;
+  feesEarned1: bigint;
+}
+
+export type BalanceLeaf = TokenBalanceLeaf | PositionBalanceLeaf;
+
+/**
+ * Inclusion (leaf set) or non-inclusion (leaf null) proof for one key
+ */
+export interface BalanceProof {
+  key: string;
+  leaf: BalanceLeaf | null;
+
+  // Bit i set: the sibling at height i is non-empty and next in siblings
+  siblingBitmap: string;
+  siblings: string[]; // Leaf to root
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+const BcsBalanceKey = bcs.enum("BalanceKey", {
+  TOKEN: bcs.string(),
+  POSITION: bcs.string(),
+});
+
+const BcsBalanceLeaf = bcs.enum("BalanceLeaf", {
+  TOKEN: bcs.struct("TokenBalance", {
+    tokenAddress: bcs.string(),
+    amount: bcs.u256(),
+  }),
+  POSITION: bcs.struct("PositionBalance", {
+    positionId: bcs.string(),
+    poolId: bcs.string(),
+    tickLower: bcs.u32(),
+    tickUpper: bcs.u32(),
+    liquidity: bcs.u256(),
+    feesEarned0: bcs.u256(),
+    feesEarned1: bcs.u256(),
+  }),
+});
+
+/**
+ * Tree key of a token balance.
+ */
+export function tokenBalanceKey(tokenAddress: string): string {
+  return bytesToHex(
+    sha256(BcsBalanceKey.serialize({ TOKEN: tokenAddress }).toBytes()),
+  );
+}
+
+/**
+ * Tree key of a liquidity position.
+ */
+export function positionBalanceKey(positionId: string): string {
+  return bytesToHex(
+    sha256(BcsBalanceKey.serialize({ POSITION: positionId }).toBytes()),
+  );
+}
+
+/**
+ * Tree key of a leaf.
+ */
+export function balanceLeafKey(leaf: BalanceLeaf): string {
+  return leaf.kind === BalanceLeafKind.TOKEN
+    ? tokenBalanceKey(leaf.tokenAddress)
+    : positionBalanceKey(leaf.positionId);
+}
+
+function encodeBalanceLeaf(leaf: BalanceLeaf): Uint8Array {
+  const encoded =
+    leaf.kind === BalanceLeafKind.TOKEN
+      ? {
+          TOKEN: { tokenAddress: leaf.tokenAddress, amount: leaf.amount },
+        }
+      : {
+          POSITION: {
+            positionId: leaf.positionId,
+            poolId: leaf.poolId,
+            tickLower: leaf.tickLower >>> 0,
+            tickUpper: leaf.tickUpper >>> 0,
+            liquidity: leaf.liquidity,
+            feesEarned0: leaf.feesEarned0,
+            feesEarned1: leaf.feesEarned1,
+          },
+        };
+
+  return BcsBalanceLeaf.serialize(encoded).toBytes();
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Compute the leaf hash of a balance.
+ */
+export function hashBalanceLeaf(leaf: BalanceLeaf): string {
+  return bytesToHex(
+    sha256(
+      concatBytes(
+        LEAF_PREFIX,
+        hexToBytes(balanceLeafKey(leaf)),
+        encodeBalanceLeaf(leaf),
+      ),
+    ),
+  );
+}
+
+/**
+ * Compute the parent hash of two nodes.
+ */
+function hashNode(left: string, right: string): string {
+  return bytesToHex(
+    sha256(concatBytes(NODE_PREFIX, hexToBytes(left), hexToBytes(right))),
+  );
+}
+
+/**
+ * Hash of an empty subtree at each height (0 = empty leaf).
+ */
+const EMPTY_SUBTREES: string[] = [bytesToHex(new Uint8Array(32))];
+for (let height = 1; height <= BALANCE_TREE_DEPTH; height++) {
+  const empty = EMPTY_SUBTREES[height - 1];
+  EMPTY_SUBTREES.push(hashNode(empty, empty));
+}
+
+/**
+ * Root of a tree with no balances.
+ */
+export const EMPTY_BALANCE_ROOT = EMPTY_SUBTREES[BALANCE_TREE_DEPTH];
+
+// ============================================================================
+// TREE
+// ============================================================================
+
+/**
+ * SparseBalanceTree holds the non-empty nodes of every level for proof
+ * generation. Build once per state; proofs are O(depth).
+ */
+export class SparseBalanceTree {
+  private leaves: Map<string, BalanceLeaf> = new Map();
+
+  // levels[h]: non-empty nodes at height h, by key prefix (key >> h)
+  private levels: Map<bigint, string>[];
+
+  constructor(leaves: BalanceLeaf[]) {
+    const level = new Map<bigint, string>();
+
+    for (const leaf of leaves) {
+      const key = balanceLeafKey(leaf);
+      if (this.leaves.has(key)) {
+        throw new Error(`Duplicate ${leaf.kind} leaf in balance tree`);
+      }
+
+      this.leaves.set(key, leaf);
+      level.set(BigInt("0x" + key), hashBalanceLeaf(leaf));
+    }
+
+    this.levels = [level];
+
+    for (let height = 0; height < BALANCE_TREE_DEPTH; height++) {
+      const children = this.levels[height];
+      const parents = new Map<bigint, string>();
+
+      for (const prefix of children.keys()) {
+        const parent = prefix >> BigInt(1);
+        if (parents.has(parent)) {
+          continue;
+        }
+
+        const left = parent << BigInt(1);
+        parents.set(
+          parent,
+          hashNode(
+            children.get(left) ?? EMPTY_SUBTREES[height],
+            children.get(left + BigInt(1)) ?? EMPTY_SUBTREES[height],
+          ),
+        );
+      }
+
+      this.levels.push(parents);
+    }
+  }
+
+  /**
+   * Build the tree over a session's available tokens and positions.
+   */
+  static fromSession(
+    session: Pick<AMMSession, "availableTokens" | "liquidityPositions">,
+  ): SparseBalanceTree {
+    return new SparseBalanceTree(sessionBalanceLeaves(session));
+  }
+
+  /**
+   * Build the tree over a settlement proof's final balances.
+   */
+  static fromSettlementProof(
+    proof: Pick<AMMSettlementProof, "tokenSettlements" | "positionSettlements">,
+  ): SparseBalanceTree {
+    return new SparseBalanceTree(settlementBalanceLeaves(proof));
+  }
+
+  /**
+   * Get the Merkle root of the balances.
+   */
+  getRoot(): string {
+    return this.levels[BALANCE_TREE_DEPTH].get(BigInt(0)) ?? EMPTY_BALANCE_ROOT;
+  }
+
+  /**
+   * Get an inclusion or non-inclusion proof for a key.
+   */
+  getProof(key: string): BalanceProof {
+    const path = BigInt("0x" + key);
+    const siblings: string[] = [];
+    let bitmap = BigInt(0);
+
+    for (let height = 0; height < BALANCE_TREE_DEPTH; height++) {
+      const sibling = this.levels[height].get(
+        (path >> BigInt(height)) ^ BigInt(1),
+      );
+
+      if (sibling !== undefined) {
+        siblings.push(sibling);
+        bitmap |= BigInt(1) << BigInt(height);
+      }
+    }
+
+    return {
+      key,
+      leaf: this.leaves.get(key) ?? null,
+      siblingBitmap: bitmap.toString(16).padStart(BALANCE_TREE_DEPTH / 4, "0"),
+      siblings,
+    };
+  }
+
+  getTokenProof(tokenAddress: string): BalanceProof {
+    return this.getProof(tokenBalanceKey(tokenAddress));
+  }
+
+  getPositionProof(positionId: string): BalanceProof {
+    return this.getProof(positionBalanceKey(positionId));
+  }
+}
+
+/**
+ * Leaves of a session's balances: non-zero available tokens and every
+ * liquidity position.
+ */
+export function sessionBalanceLeaves(
+  session: Pick<AMMSession, "availableTokens" | "liquidityPositions">,
+): BalanceLeaf[] {
+  const leaves: BalanceLeaf[] = [];
+
+  session.availableTokens.forEach((amount, tokenAddress) => {
+    if (amount !== BigInt(0)) {
+      leaves.push({ kind: BalanceLeafKind.TOKEN, tokenAddress, amount });
+    }
+  });
+
+  for (const position of session.liquidityPositions) {
+    leaves.push({
+      kind: BalanceLeafKind.POSITION,
+      positionId: position.positionId,
+      poolId: position.poolId,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      liquidity: position.liquidity,
+      feesEarned0: position.tokensOwed0,
+      feesEarned1: position.tokensOwed1,
+    });
+  }
+
+  return leaves;
+}
+
+/**
+ * Leaves of a settlement proof's final balances (the same leaves as the
+ * settled session's).
+ */
+export function settlementBalanceLeaves(
+  proof: Pick<AMMSettlementProof, "tokenSettlements" | "positionSettlements">,
+): BalanceLeaf[] {
+  const leaves: BalanceLeaf[] = [];
+
+  for (const token of proof.tokenSettlements) {
+    if (token.finalAmount !== BigInt(0)) {
+      leaves.push({
+        kind: BalanceLeafKind.TOKEN,
+        tokenAddress: token.tokenAddress,
+        amount: token.finalAmount,
+      });
+    }
+  }
+
+  for (const position of proof.positionSettlements) {
+    leaves.push({ kind: BalanceLeafKind.POSITION, ...position });
+  }
+
+  return leaves;
+}
+
+/**
+ * Compute the balance root of a session.
+ */
+export function computeSessionBalanceRoot(
+  session: Pick<AMMSession, "availableTokens" | "liquidityPositions">,
+): string {
+  return SparseBalanceTree.fromSession(session).getRoot();
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a balance proof against root: that proof.leaf is the leaf at
+ * proof.key, or that the key is empty if proof.leaf is null.
+ *
+ * Callers check proof.key is the key they asked about (tokenBalanceKey /
+ * positionBalanceKey); a valid non-inclusion proof for another key
+ * proves nothing about theirs.
+ */
+export function verifyBalanceProof(root: string, proof: BalanceProof): boolean {
+  let hash: string;
+  let used = 0;
+
+  try {
+    if (proof.leaf && balanceLeafKey(proof.leaf) !== proof.key) {
+      return false;
+    }
+
+    const path = BigInt("0x" + proof.key);
+    const bitmap = BigInt("0x" + proof.siblingBitmap);
+    if (
+      proof.key.length !== 64 ||
+      path >> BigInt(BALANCE_TREE_DEPTH) !== BigInt(0) ||
+      bitmap >> BigInt(BALANCE_TREE_DEPTH) !== BigInt(0)
+    ) {
+      return false;
+    }
+
+    hash = proof.leaf ? hashBalanceLeaf(proof.leaf) : EMPTY_SUBTREES[0];
+
+    for (let height = 0; height < BALANCE_TREE_DEPTH; height++) {
+      let sibling = EMPTY_SUBTREES[height];
+
+      if ((bitmap >> BigInt(height)) & BigInt(1)) {
+        const next = proof.siblings[used++];
+        if (next === undefined) {
+          return false;
+        }
+        sibling = next;
+      }
+
+      hash =
+        (path >> BigInt(height)) & BigInt(1)
+          ? hashNode(sibling, hash)
+          : hashNode(hash, sibling);
+    }
+  } catch {
+    // Malformed key, bitmap, leaf or sibling hash
+    return false;
+  }
+
+  return used === proof.siblings.length && hash === root;
+}
@@ -0,0 +1,538 @@
+/**
+ * Interactive Bisection for Disputed AMM Sessions
+ *
+ * Optimistic-rollup-style dispute game over a session's intent execution
+ * steps. Instead of re-executing every IntentExecutionProof, the engine
+ * (defender) and a challenger narrow their disagreement to a single step,
+ * which the referee re-executes with the engine's deterministic swap math.
+ *
+ * Game:
+ * - Both sides agree on the commitment before step `lo` (initially the
+ *   locked tokens) and disagree on the defender's commitment at `hi`
+ *   (initially its final balances)
+ * - Defender posts its commitment at the midpoint; the challenger agrees
+ *   (lo moves up) or disagrees (hi moves down)
+ * - Once hi = lo + 1, the pre-state balances are revealed and the step is
+ *   re-executed: a match wins for the defender, anything else for the
+ *   challenger
+ * - Every move has a deadline; the side whose turn it is loses on timeout
+ *
+ * Commitments are over token balances only (see commitTokenBalances), so
+ * the game takes O(log n) rounds for n steps.
+ */
+
+import { IntentExecutionProof, IntentStatus, IntentType } from "../types";
+import { IntentEngine, intentEngine } from "../engine/intent-engine";
+import { hashString } from "../../crypto/primitives";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export enum BisectionRole {
+  DEFENDER = "DEFENDER",
+  CHALLENGER = "CHALLENGER",
+}
+
+export enum BisectionStatus {
+  AWAITING_BISECTION = "AWAITING_BISECTION", // Defender posts a midpoint
+  AWAITING_RESPONSE = "AWAITING_RESPONSE", // Challenger agrees or not
+  AWAITING_ONE_STEP = "AWAITING_ONE_STEP", // Pre-state reveal
+  DEFENDER_WON = "DEFENDER_WON",
+  CHALLENGER_WON = "CHALLENGER_WON",
+}
+
+/**
+ * One bisection round: the defender's midpoint and the challenger's answer.
+ */
+export interface BisectionRound {
+  index: number;
+  commitment: string;
+  agreed?: boolean;
+}
+
+export interface BisectionGame {
+  gameId: string;
+  sessionId: string;
+  defender: string;
+  challenger: string;
+  steps: IntentExecutionProof[];
+
+  // Agreed commitment at lo, disputed (defender's) commitment at hi
+  lo: number;
+  loCommitment: string;
+  hi: number;
+  hiCommitment: string;
+
+  rounds: BisectionRound[];
+  status: BisectionStatus;
+
+  // Current move must be made by turnDeadline
+  roundTimeoutMs: number;
+  turnDeadline: number;
+
+  // Set once the game is decided
+  winner?: BisectionRole;
+  reason?: string;
+}
+
+export interface OpenBisectionParams {
+  sessionId: string;
+  defender: string;
+  challenger: string;
+  steps: IntentExecutionProof[];
+
+  // Agreed starting balances, and the defender's final balances
+  initialBalances: Map<string, bigint>;
+  claimedFinalBalances: Map<string, bigint>;
+}
+
+/**
+ * Result of re-executing one step.
+ */
+export interface StepExecutionResult {
+  success: boolean;
+  balances?: Map<string, bigint>;
+  error?: string;
+}
+
+/**
+ * StepExecutor re-executes one intent step over token balances.
+ */
+export interface StepExecutor {
+  execute(
+    balances: Map<string, bigint>,
+    step: IntentExecutionProof,
+  ): StepExecutionResult;
+}
+
+/**
+ * BisectionReferee enforces the game's rules. LocalBisectionReferee runs
+ * in memory; an on-chain referee would implement the same moves.
+ */
+export interface BisectionReferee {
+  openGame(params: OpenBisectionParams, now?: number): BisectionGame;
+
+  // Defender posts its commitment at the midpoint of [lo, hi]
+  bisect(
+    gameId: string,
+    caller: string,
+    commitment: string,
+    now?: number,
+  ): BisectionGame;
+
+  // Challenger agrees or disagrees with the midpoint commitment
+  respond(
+    gameId: string,
+    caller: string,
+    agree: boolean,
+    now?: number,
+  ): BisectionGame;
+
+  // Either party reveals the balances at lo for one-step re-execution
+  proveStep(
+    gameId: string,
+    caller: string,
+    preBalances: Map<string, bigint>,
+    now?: number,
+  ): BisectionGame;
+
+  // Decide the game against the party that missed its deadline
+  claimTimeout(gameId: string, caller: string, now?: number): BisectionGame;
+
+  getGame(gameId: string): BisectionGame | undefined;
+}
+
+// ============================================================================
+// COMMITMENTS
+// ============================================================================
+
+/**
+ * Commitment to token balances after `index` steps.
+ * Zero balances are omitted, so untouched and emptied tokens agree.
+ */
+export function commitTokenBalances(
+  index: number,
+  balances: Map<string, bigint>,
+): string {
+  const entries = Array.from(balances.entries())
+    .filter(([, amount]) => amount !== BigInt(0))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([token, amount]) => `${token}:${amount}`);
+
+  return hashString(`bisection:${index}:${entries.join("|")}`);
+}
+
+/**
+ * Commitments after 0..n steps of an honest execution.
+ * Throws if a step fails to re-execute.
+ */
+export function computeTraceCommitments(
+  initialBalances: Map<string, bigint>,
+  steps: IntentExecutionProof[],
+  executor: StepExecutor = new SwapStepExecutor(),
+): string[] {
+  const commitments = [commitTokenBalances(0, initialBalances)];
+  let balances = initialBalances;
+
+  for (let i = 0; i < steps.length; i++) {
+    const result = executor.execute(balances, steps[i]);
+    if (!result.success) {
+      throw new Error(`Step ${i} fails re-execution: ${result.error}`);
+    }
+    balances = result.balances!;
+    commitments.push(commitTokenBalances(i + 1, balances));
+  }
+
+  return commitments;
+}
+
+// ============================================================================
+// STEP EXECUTION
+// ============================================================================
+
+/**
+ * Re-executes swap steps with the intent engine's swap math.
+ *
+ * Only FILLED and PARTIALLY_FILLED steps move balances. Limit orders are
+ * replayed as exact-input swaps: their price condition depends on the
+ * oracle at execution time, not on the step.
+ */
+export class SwapStepExecutor implements StepExecutor {
+  private engine: IntentEngine;
+
+  constructor(engine: IntentEngine = intentEngine) {
+    this.engine = engine;
+  }
+
+  execute(
+    balances: Map<string, bigint>,
+    step: IntentExecutionProof,
+  ): StepExecutionResult {
+    if (
+      step.status !== IntentStatus.FILLED &&
+      step.status !== IntentStatus.PARTIALLY_FILLED
+    ) {
+      return { success: true, balances: new Map(balances) };
+    }
+
+    if (!step.tokenIn || !step.tokenOut) {
+      return { success: false, error: "Step has no swap pair" };
+    }
+
+    let isExactInput: boolean;
+    switch (step.intentType) {
+      case IntentType.EXACT_INPUT_SWAP:
+      case IntentType.LIMIT_ORDER:
+        isExactInput = true;
+        break;
+      case IntentType.EXACT_OUTPUT_SWAP:
+        isExactInput = false;
+        break;
+      default:
+        return {
+          success: false,
+          error: `Cannot re-execute ${step.intentType} steps`,
+        };
+    }
+
+    const swap = this.engine.quoteSwap(
+      step.tokenIn,
+      step.tokenOut,
+      isExactInput ? step.inputAmount : step.outputAmount,
+      isExactInput,
+    );
+
+    if (!swap) {
+      return {
+        success: false,
+        error: `No route from ${step.tokenIn} to ${step.tokenOut}`,
+      };
+    }
+
+    const available = balances.get(step.tokenIn) || BigInt(0);
+    if (swap.amountIn > available) {
+      return {
+        success: false,
+        error: `Insufficient ${step.tokenIn}: ${available} < ${swap.amountIn}`,
+      };
+    }
+
+    const next = new Map(balances);
+    next.set(step.tokenIn, available - swap.amountIn);
+    next.set(
+      step.tokenOut,
+      (next.get(step.tokenOut) || BigInt(0)) + swap.amountOut,
+    );
+
+    return { success: true, balances: next };
+  }
+}
+
+// ============================================================================
+// LOCAL REFEREE
+// ============================================================================
+
+/**
+ * In-memory referee, for tests and off-chain arbitration.
+ */
+export class LocalBisectionReferee implements BisectionReferee {
+  private games: Map<string, BisectionGame> = new Map();
+  private executor: StepExecutor;
+
+  // Configuration
+  private readonly roundTimeoutMs: number;
+
+  constructor(
+    executor: StepExecutor = new SwapStepExecutor(),
+    roundTimeoutMs: number = 3600000, // 1 hour per move
+  ) {
+    this.executor = executor;
+    this.roundTimeoutMs = roundTimeoutMs;
+  }
+
+  openGame(
+    params: OpenBisectionParams,
+    now: number = Date.now(),
+  ): BisectionGame {
+    if (params.defender === params.challenger) {
+      throw new Error("Defender cannot challenge itself");
+    }
+
+    const n = params.steps.length;
+    const game: BisectionGame = {
+      gameId: hashString(
+        `bisection:${params.sessionId}:${params.challenger}:${now}`,
+      ),
+      sessionId: params.sessionId,
+      defender: params.defender,
+      challenger: params.challenger,
+      steps: params.steps,
+      lo: 0,
+      loCommitment: commitTokenBalances(0, params.initialBalances),
+      hi: n,
+      hiCommitment: commitTokenBalances(n, params.claimedFinalBalances),
+      rounds: [],
+      status: BisectionStatus.AWAITING_BISECTION,
+      roundTimeoutMs: this.roundTimeoutMs,
+      turnDeadline: now + this.roundTimeoutMs,
+    };
+
+    // Without steps the claim is checked against the agreed start directly
+    if (n === 0) {
+      this.decide(
+        game,
+        game.loCommitment === game.hiCommitment
+          ? BisectionRole.DEFENDER
+          : BisectionRole.CHALLENGER,
+        "No steps: final balances checked against initial balances",
+      );
+    } else {
+      this.advance(game, now);
+    }
+
+    this.games.set(game.gameId, game);
+
+    return game;
+  }
+
+  bisect(
+    gameId: string,
+    caller: string,
+    commitment: string,
+    now: number = Date.now(),
+  ): BisectionGame {
+    const game = this.getMovableGame(gameId, now);
+    this.assertTurn(game, BisectionStatus.AWAITING_BISECTION, caller);
+
+    game.rounds.push({
+      index: Math.floor((game.lo + game.hi) / 2),
+      commitment,
+    });
+    game.status = BisectionStatus.AWAITING_RESPONSE;
+    game.turnDeadline = now + game.roundTimeoutMs;
+
+    return game;
+  }
+
+  respond(
+    gameId: string,
+    caller: string,
+    agree: boolean,
+    now: number = Date.now(),
+  ): BisectionGame {
+    const game = this.getMovableGame(gameId, now);
+    this.assertTurn(game, BisectionStatus.AWAITING_RESPONSE, caller);
+
+    const round = game.rounds[game.rounds.length - 1];
+    round.agreed = agree;
+
+    if (agree) {
+      game.lo = round.index;
+      game.loCommitment = round.commitment;
+    } else {
+      game.hi = round.index;
+      game.hiCommitment = round.commitment;
+    }
+
+    this.advance(game, now);
+
+    return game;
+  }
+
+  proveStep(
+    gameId: string,
+    caller: string,
+    preBalances: Map<string, bigint>,
+    now: number = Date.now(),
+  ): BisectionGame {
+    const game = this.getMovableGame(gameId, now);
+
+    if (caller !== game.defender && caller !== game.challenger) {
+      throw new Error(`${caller} is not a party to game ${gameId}`);
+    }
+    if (game.status !== BisectionStatus.AWAITING_ONE_STEP) {
+      throw new Error(`Game ${gameId} is not at a single step`);
+    }
+
+    if (commitTokenBalances(game.lo, preBalances) !== game.loCommitment) {
+      throw new Error(
+        `Balances do not match the agreed commitment at ${game.lo}`,
+      );
+    }
+
+    const result = this.executor.execute(preBalances, game.steps[game.lo]);
+
+    if (!result.success) {
+      this.decide(
+        game,
+        BisectionRole.CHALLENGER,
+        `Step ${game.lo} fails re-execution: ${result.error}`,
+      );
+    } else if (
+      commitTokenBalances(game.hi, result.balances!) === game.hiCommitment
+    ) {
+      this.decide(
+        game,
+        BisectionRole.DEFENDER,
+        `Step ${game.lo} re-executes to the defender's commitment`,
+      );
+    } else {
+      this.decide(
+        game,
+        BisectionRole.CHALLENGER,
+        `Step ${game.lo} re-executes to a different commitment`,
+      );
+    }
+
+    return game;
+  }
+
+  claimTimeout(
+    gameId: string,
+    caller: string,
+    now: number = Date.now(),
+  ): BisectionGame {
+    const game = this.getGame(gameId);
+    if (!game) {
+      throw new Error(`Bisection game not found: ${gameId}`);
+    }
+    if (this.isDecided(game)) {
+      throw new Error(`Game ${gameId} is already decided`);
+    }
+    if (now <= game.turnDeadline) {
+      throw new Error(`Round deadline of game ${gameId} has not passed`);
+    }
+
+    // The one-step reveal is the defender's burden
+    const late =
+      game.status === BisectionStatus.AWAITING_RESPONSE
+        ? BisectionRole.CHALLENGER
+        : BisectionRole.DEFENDER;
+    const winner =
+      late === BisectionRole.DEFENDER
+        ? BisectionRole.CHALLENGER
+        : BisectionRole.DEFENDER;
+    const claimant =
+      winner === BisectionRole.DEFENDER ? game.defender : game.challenger;
+
+    if (caller !== claimant) {
+      throw new Error(`Only the ${winner} can claim this timeout`);
+    }
+
+    this.decide(game, winner, `${late} missed the round deadline`);
+
+    return game;
+  }
+
+  getGame(gameId: string): BisectionGame | undefined {
+    return this.games.get(gameId);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private getMovableGame(gameId: string, now: number): BisectionGame {
+    const game = this.getGame(gameId);
+    if (!game) {
+      throw new Error(`Bisection game not found: ${gameId}`);
+    }
+    if (this.isDecided(game)) {
+      throw new Error(`Game ${gameId} is already decided`);
+    }
+    if (now > game.turnDeadline) {
+      throw new Error(`Round deadline of game ${gameId} has passed`);
+    }
+    return game;
+  }
+
+  private assertTurn(
+    game: BisectionGame,
+    status: BisectionStatus,
+    caller: string,
+  ): void {
+    if (game.status !== status) {
+      throw new Error(`Game ${game.gameId} is ${game.status}`);
+    }
+
+    const expected =
+      status === BisectionStatus.AWAITING_RESPONSE
+        ? game.challenger
+        : game.defender;
+    if (caller !== expected) {
+      throw new Error(`Not ${caller}'s turn in game ${game.gameId}`);
+    }
+  }
+
+  /**
+   * Next move after [lo, hi] changes: bisect again or go to one step.
+   */
+  private advance(game: BisectionGame, now: number): void {
+    game.status =
+      game.hi - game.lo > 1
+        ? BisectionStatus.AWAITING_BISECTION
+        : BisectionStatus.AWAITING_ONE_STEP;
+    game.turnDeadline = now + game.roundTimeoutMs;
+  }
+
+  private decide(
+    game: BisectionGame,
+    winner: BisectionRole,
+    reason: string,
+  ): void {
+    game.winner = winner;
+    game.reason = reason;
+    game.status =
+      winner === BisectionRole.DEFENDER
+        ? BisectionStatus.DEFENDER_WON
+        : BisectionStatus.CHALLENGER_WON;
+  }
+
+  private isDecided(game: BisectionGame): boolean {
+    return (
+      game.status === BisectionStatus.DEFENDER_WON ||
+      game.status === BisectionStatus.CHALLENGER_WON
+    );
+  }
+}
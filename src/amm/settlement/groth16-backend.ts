@@ -0,0 +1,735 @@
+/**
+ * Groth16 ZK Backend (BN254)
+ *
+ * Offline ZkBackend for AdvancedSettlementVerifier: Groth16 setup,
+ * proving and verification over BN254 with @noble/curves, no external
+ * services or circuit compilers.
+ *
+ * Circuits:
+ * - BALANCE_SOLVENCY: public (totalInitial, totalFinal); proves
+ *   totalInitial - totalFinal is in [0, 2^bits) by bit decomposition
+ *
+ * Verification keys and proofs use the snarkjs JSON layout, so keys from
+ * a setup ceremony can be loaded with setVerificationKey.
+ *
+ * WARNING: keys are generated by a single-party setup from `seed`.
+ * Anyone who knows the seed can forge proofs; production deployments
+ * load a ceremony verification key and verify externally produced proofs.
+ * The default seed (GROTH16_INSECURE_TEST_SEED) is public: tests only.
+ */
+
+import { bn254 } from "@noble/curves/bn254";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, randomBytes, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  ZKCircuitType,
+  ZkBackend,
+  ZkVerificationKey,
+} from "./advanced-verifier";
+
+const { G1, G2, fields } = bn254;
+const Fr = fields.Fr;
+
+type G1Point = typeof G1.Point.BASE;
+type G2Point = typeof G2.Point.BASE;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Sparse linear combination over the witness: [variable index, coefficient].
+ */
+export type LinearCombination = Array<[number, bigint]>;
+
+/**
+ * Rank-1 constraint: <a, z> * <b, z> = <c, z>
+ */
+export interface R1CSConstraint {
+  a: LinearCombination;
+  b: LinearCombination;
+  c: LinearCombination;
+}
+
+/**
+ * Circuit in R1CS form. Witness layout: z = [1, public..., private...].
+ */
+export interface Groth16Circuit {
+  nPublic: number;
+  nVars: number;
+  constraints: R1CSConstraint[];
+
+  // Full witness from the inputs; throws if the statement does not hold
+  witness(publicInputs: bigint[], privateInputs: bigint[]): bigint[];
+}
+
+/**
+ * Verification key (snarkjs layout, decimal coordinates).
+ */
+export interface Groth16VerificationKey {
+  protocol: "groth16";
+  curve: "bn128";
+  nPublic: number;
+  vk_alpha_1: string[];
+  vk_beta_2: string[][];
+  vk_gamma_2: string[][];
+  vk_delta_2: string[][];
+  IC: string[][];
+}
+
+/**
+ * Proof (snarkjs layout, decimal coordinates).
+ */
+export interface Groth16Proof {
+  protocol: "groth16";
+  curve: "bn128";
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+}
+
+/**
+ * Proving key: setup outputs evaluated at the (discarded) toxic waste.
+ */
+export interface Groth16ProvingKey {
+  alpha1: G1Point;
+  beta1: G1Point;
+  beta2: G2Point;
+  delta1: G1Point;
+  delta2: G2Point;
+
+  // Per witness variable
+  a1: G1Point[];
+  b1: G1Point[];
+  b2: G2Point[];
+
+  // Per private variable: (beta*u + alpha*v + w) / delta
+  k1: G1Point[];
+
+  // tau^j * Z(tau) / delta, for the quotient's coefficients
+  h1: G1Point[];
+}
+
+// ============================================================================
+// SETUP, PROVING, VERIFICATION
+// ============================================================================
+
+/**
+ * Single-party Groth16 setup, deterministic in `seed`.
+ */
+export function groth16Setup(
+  circuit: Groth16Circuit,
+  seed: string,
+): { provingKey: Groth16ProvingKey; verificationKey: Groth16VerificationKey } {
+  const [tau, alpha, beta, gamma, delta] = [
+    "tau",
+    "alpha",
+    "beta",
+    "gamma",
+    "delta",
+  ].map((label) => scalarFromSeed(seed, label));
+
+  const n = circuit.constraints.length;
+  const lagrange = lagrangeAt(n, tau);
+
+  // QAP polynomials of every variable, evaluated at tau
+  const u = new Array<bigint>(circuit.nVars).fill(BigInt(0));
+  const v = new Array<bigint>(circuit.nVars).fill(BigInt(0));
+  const w = new Array<bigint>(circuit.nVars).fill(BigInt(0));
+
+  circuit.constraints.forEach((constraint, q) => {
+    for (const [i, coeff] of constraint.a) {
+      u[i] = Fr.add(u[i], Fr.mul(Fr.create(coeff), lagrange[q]));
+    }
+    for (const [i, coeff] of constraint.b) {
+      v[i] = Fr.add(v[i], Fr.mul(Fr.create(coeff), lagrange[q]));
+    }
+    for (const [i, coeff] of constraint.c) {
+      w[i] = Fr.add(w[i], Fr.mul(Fr.create(coeff), lagrange[q]));
+    }
+  });
+
+  const combined = (i: number) =>
+    Fr.add(Fr.add(Fr.mul(beta, u[i]), Fr.mul(alpha, v[i])), w[i]);
+  const gammaInv = Fr.inv(gamma);
+  const deltaInv = Fr.inv(delta);
+
+  const zTau = vanishingAt(n, tau);
+  const h1: G1Point[] = [];
+  let tauPower = Fr.ONE;
+  for (let j = 0; j < n - 1; j++) {
+    h1.push(g1Mul(Fr.mul(Fr.mul(tauPower, zTau), deltaInv)));
+    tauPower = Fr.mul(tauPower, tau);
+  }
+
+  const provingKey: Groth16ProvingKey = {
+    alpha1: g1Mul(alpha),
+    beta1: g1Mul(beta),
+    beta2: g2Mul(beta),
+    delta1: g1Mul(delta),
+    delta2: g2Mul(delta),
+    a1: u.map(g1Mul),
+    b1: v.map(g1Mul),
+    b2: v.map(g2Mul),
+    k1: range(circuit.nPublic + 1, circuit.nVars).map((i) =>
+      g1Mul(Fr.mul(combined(i), deltaInv)),
+    ),
+    h1,
+  };
+
+  const verificationKey: Groth16VerificationKey = {
+    protocol: "groth16",
+    curve: "bn128",
+    nPublic: circuit.nPublic,
+    vk_alpha_1: serializeG1(provingKey.alpha1),
+    vk_beta_2: serializeG2(provingKey.beta2),
+    vk_gamma_2: serializeG2(g2Mul(gamma)),
+    vk_delta_2: serializeG2(provingKey.delta2),
+    IC: range(0, circuit.nPublic + 1).map((i) =>
+      serializeG1(g1Mul(Fr.mul(combined(i), gammaInv))),
+    ),
+  };
+
+  return { provingKey, verificationKey };
+}
+
+/**
+ * Prove a statement. Throws if the inputs do not satisfy the circuit.
+ */
+export function groth16Prove(
+  circuit: Groth16Circuit,
+  provingKey: Groth16ProvingKey,
+  publicInputs: bigint[],
+  privateInputs: bigint[] = [],
+): Groth16Proof {
+  const z = circuit
+    .witness(publicInputs, privateInputs)
+    .map((x) => Fr.create(x));
+  const n = circuit.constraints.length;
+
+  // Constraint evaluations, interpolated over the domain 1..n
+  const aVals: bigint[] = [];
+  const bVals: bigint[] = [];
+  const cVals: bigint[] = [];
+  circuit.constraints.forEach((constraint, q) => {
+    const a = evaluateLinear(constraint.a, z);
+    const b = evaluateLinear(constraint.b, z);
+    const c = evaluateLinear(constraint.c, z);
+    if (!Fr.eql(Fr.mul(a, b), c)) {
+      throw new Error(`Witness does not satisfy constraint ${q}`);
+    }
+    aVals.push(a);
+    bVals.push(b);
+    cVals.push(c);
+  });
+
+  const weights = barycentricWeights(n);
+  const product = polySub(
+    polyMul(interpolate(aVals, weights), interpolate(bVals, weights)),
+    interpolate(cVals, weights),
+  );
+  const h = divideByVanishing(product, n);
+
+  const r = randomScalar();
+  const s = randomScalar();
+
+  const piA = provingKey.alpha1
+    .add(G1.Point.msm(provingKey.a1, z))
+    .add(g1MulPoint(provingKey.delta1, r));
+  const piB2 = provingKey.beta2
+    .add(G2.Point.msm(provingKey.b2, z))
+    .add(g2MulPoint(provingKey.delta2, s));
+  const piB1 = provingKey.beta1
+    .add(G1.Point.msm(provingKey.b1, z))
+    .add(g1MulPoint(provingKey.delta1, s));
+
+  const piC = G1.Point.msm(provingKey.k1, z.slice(circuit.nPublic + 1))
+    .add(G1.Point.msm(provingKey.h1, h))
+    .add(g1MulPoint(piA, s))
+    .add(g1MulPoint(piB1, r))
+    .subtract(g1MulPoint(provingKey.delta1, Fr.mul(r, s)));
+
+  return {
+    protocol: "groth16",
+    curve: "bn128",
+    pi_a: serializeG1(piA),
+    pi_b: serializeG2(piB2),
+    pi_c: serializeG1(piC),
+  };
+}
+
+/**
+ * Check e(A, B) = e(alpha, beta) * e(sum IC_i * x_i, gamma) * e(C, delta).
+ * Malformed keys, proofs or inputs verify as false.
+ */
+export function groth16Verify(
+  verificationKey: Groth16VerificationKey,
+  publicInputs: bigint[],
+  proof: Groth16Proof,
+): boolean {
+  try {
+    if (
+      publicInputs.length !== verificationKey.nPublic ||
+      verificationKey.IC.length !== verificationKey.nPublic + 1 ||
+      publicInputs.some((x) => x < BigInt(0) || x >= Fr.ORDER)
+    ) {
+      return false;
+    }
+
+    const ic = verificationKey.IC.map(parseG1);
+    let inputs = ic[0];
+    publicInputs.forEach((x, i) => {
+      inputs = inputs.add(g1MulPoint(ic[i + 1], x));
+    });
+
+    const check = bn254.pairingBatch([
+      { g1: parseG1(proof.pi_a).negate(), g2: parseG2(proof.pi_b) },
+      {
+        g1: parseG1(verificationKey.vk_alpha_1),
+        g2: parseG2(verificationKey.vk_beta_2),
+      },
+      { g1: inputs, g2: parseG2(verificationKey.vk_gamma_2) },
+      {
+        g1: parseG1(proof.pi_c),
+        g2: parseG2(verificationKey.vk_delta_2),
+      },
+    ]);
+
+    return fields.Fp12.eql(check, fields.Fp12.ONE);
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// CIRCUITS
+// ============================================================================
+
+/**
+ * Balance solvency: public (totalInitial, totalFinal), proves
+ * 0 <= totalInitial - totalFinal < 2^bits.
+ *
+ * Witness: [1, totalInitial, totalFinal, bit_0 .. bit_{bits-1}]
+ */
+export function balanceSolvencyCircuit(bits: number = 128): Groth16Circuit {
+  const ONE = 0;
+  const INITIAL = 1;
+  const FINAL = 2;
+  const bit = (i: number) => 3 + i;
+
+  const constraints: R1CSConstraint[] = [];
+
+  // Each bit is boolean: b * (b - 1) = 0
+  for (let i = 0; i < bits; i++) {
+    constraints.push({
+      a: [[bit(i), BigInt(1)]],
+      b: [
+        [bit(i), BigInt(1)],
+        [ONE, BigInt(-1)],
+      ],
+      c: [],
+    });
+  }
+
+  // Bits recompose the difference: (sum b_i 2^i) * 1 = initial - final
+  constraints.push({
+    a: range(0, bits).map((i) => [bit(i), BigInt(1) << BigInt(i)]),
+    b: [[ONE, BigInt(1)]],
+    c: [
+      [INITIAL, BigInt(1)],
+      [FINAL, BigInt(-1)],
+    ],
+  });
+
+  return {
+    nPublic: 2,
+    nVars: 3 + bits,
+    constraints,
+    witness(publicInputs: bigint[]): bigint[] {
+      if (publicInputs.length !== 2) {
+        throw new Error("Solvency circuit takes (totalInitial, totalFinal)");
+      }
+
+      const [initial, final] = publicInputs;
+      const difference = initial - final;
+      if (difference < BigInt(0)) {
+        throw new Error(
+          `Final total ${final} exceeds initial total ${initial}`,
+        );
+      }
+      if (difference >= BigInt(1) << BigInt(bits)) {
+        throw new Error(`Difference exceeds the circuit's ${bits}-bit range`);
+      }
+
+      return [
+        BigInt(1),
+        initial,
+        final,
+        ...range(0, bits).map((i) => (difference >> BigInt(i)) & BigInt(1)),
+      ];
+    },
+  };
+}
+
+// ============================================================================
+// BACKEND
+// ============================================================================
+
+/**
+ * Public setup seed, for tests only: anyone can forge proofs under it.
+ */
+export const GROTH16_INSECURE_TEST_SEED =
+  "sessionfi-groth16-insecure-test-setup";
+
+/**
+ * Offline Groth16 backend. Keys are set up lazily per circuit (about a
+ * second for BALANCE_SOLVENCY) and cached.
+ */
+export class Groth16Backend implements ZkBackend {
+  readonly name = "groth16-bn254";
+
+  private seed: string;
+  private circuits: Map<ZKCircuitType, Groth16Circuit> = new Map();
+  private provingKeys: Map<ZKCircuitType, Groth16ProvingKey> = new Map();
+  private verificationKeys: Map<ZKCircuitType, Groth16VerificationKey> =
+    new Map();
+
+  /**
+   * @param seed - Setup randomness (see the warning at the top of the
+   *   file). The default is public, for tests only.
+   */
+  constructor(seed: string = GROTH16_INSECURE_TEST_SEED) {
+    this.seed = seed;
+    this.circuits.set(ZKCircuitType.BALANCE_SOLVENCY, balanceSolvencyCircuit());
+  }
+
+  supports(circuitType: ZKCircuitType): boolean {
+    return this.circuits.has(circuitType);
+  }
+
+  async prove(
+    circuitType: ZKCircuitType,
+    publicInputs: bigint[],
+    privateInputs: bigint[] = [],
+  ): Promise<string> {
+    const circuit = this.getCircuit(circuitType);
+    const proof = groth16Prove(
+      circuit,
+      this.getProvingKey(circuitType),
+      publicInputs,
+      privateInputs,
+    );
+    return JSON.stringify(proof);
+  }
+
+  async verify(
+    circuitType: ZKCircuitType,
+    proof: string,
+    publicInputs: bigint[],
+  ): Promise<boolean> {
+    let parsed: Groth16Proof;
+    try {
+      parsed = JSON.parse(proof);
+    } catch {
+      return false;
+    }
+
+    return groth16Verify(
+      this.getGroth16VerificationKey(circuitType),
+      publicInputs,
+      parsed,
+    );
+  }
+
+  async getVerificationKey(
+    circuitType: ZKCircuitType,
+  ): Promise<ZkVerificationKey> {
+    const data = JSON.stringify(this.getGroth16VerificationKey(circuitType));
+    return {
+      circuitType,
+      keyId: bytesToHex(sha256(utf8ToBytes(data))),
+      data,
+    };
+  }
+
+  /**
+   * Replace a circuit's verification key (e.g. from a ceremony).
+   * Proofs from this backend's own proving key stop verifying.
+   */
+  setVerificationKey(key: ZkVerificationKey): void {
+    this.getCircuit(key.circuitType);
+
+    if (bytesToHex(sha256(utf8ToBytes(key.data))) !== key.keyId) {
+      throw new Error("Verification key id does not match its data");
+    }
+
+    const parsed = JSON.parse(key.data) as Groth16VerificationKey;
+    if (parsed.protocol !== "groth16" || parsed.curve !== "bn128") {
+      throw new Error("Not a Groth16 BN254 verification key");
+    }
+
+    this.verificationKeys.set(key.circuitType, parsed);
+  }
+
+  private getCircuit(circuitType: ZKCircuitType): Groth16Circuit {
+    const circuit = this.circuits.get(circuitType);
+    if (!circuit) {
+      throw new Error(`${this.name} has no circuit for ${circuitType}`);
+    }
+    return circuit;
+  }
+
+  private getProvingKey(circuitType: ZKCircuitType): Groth16ProvingKey {
+    if (!this.provingKeys.has(circuitType)) {
+      this.runSetup(circuitType);
+    }
+    return this.provingKeys.get(circuitType)!;
+  }
+
+  private getGroth16VerificationKey(
+    circuitType: ZKCircuitType,
+  ): Groth16VerificationKey {
+    if (!this.verificationKeys.has(circuitType)) {
+      this.runSetup(circuitType);
+    }
+    return this.verificationKeys.get(circuitType)!;
+  }
+
+  private runSetup(circuitType: ZKCircuitType): void {
+    const { provingKey, verificationKey } = groth16Setup(
+      this.getCircuit(circuitType),
+      `${this.seed}:${circuitType}`,
+    );
+
+    this.provingKeys.set(circuitType, provingKey);
+    if (!this.verificationKeys.has(circuitType)) {
+      this.verificationKeys.set(circuitType, verificationKey);
+    }
+  }
+}
+
+// ============================================================================
+// FIELD & POLYNOMIAL HELPERS
+// ============================================================================
+
+function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from }, (_, i) => from + i);
+}
+
+function scalarFromSeed(seed: string, label: string): bigint {
+  const scalar = Fr.create(
+    BigInt("0x" + bytesToHex(sha256(utf8ToBytes(`${seed}:${label}`)))),
+  );
+  if (scalar === BigInt(0)) {
+    throw new Error(`Degenerate setup scalar for ${label}`);
+  }
+  return scalar;
+}
+
+function randomScalar(): bigint {
+  // 48 bytes reduced mod r: negligible bias
+  return Fr.create(BigInt("0x" + bytesToHex(randomBytes(48))));
+}
+
+function evaluateLinear(lc: LinearCombination, z: bigint[]): bigint {
+  return lc.reduce(
+    (acc, [i, coeff]) => Fr.add(acc, Fr.mul(Fr.create(coeff), z[i])),
+    Fr.ZERO,
+  );
+}
+
+/**
+ * Z(x) = (x - 1)(x - 2)...(x - n) at a point.
+ */
+function vanishingAt(n: number, x: bigint): bigint {
+  let result = Fr.ONE;
+  for (let k = 1; k <= n; k++) {
+    result = Fr.mul(result, Fr.sub(x, BigInt(k)));
+  }
+  return result;
+}
+
+/**
+ * 1 / prod_{k != q} (x_q - x_k) over the domain 1..n.
+ */
+function barycentricWeights(n: number): bigint[] {
+  return range(1, n + 1).map((xq) => {
+    let denominator = Fr.ONE;
+    for (let xk = 1; xk <= n; xk++) {
+      if (xk !== xq) {
+        denominator = Fr.mul(denominator, Fr.create(BigInt(xq - xk)));
+      }
+    }
+    return Fr.inv(denominator);
+  });
+}
+
+/**
+ * Lagrange basis polynomials of the domain 1..n, evaluated at x
+ * (x outside the domain).
+ */
+function lagrangeAt(n: number, x: bigint): bigint[] {
+  const z = vanishingAt(n, x);
+  if (z === BigInt(0)) {
+    throw new Error("Setup point lies in the evaluation domain");
+  }
+  return barycentricWeights(n).map((weight, q) =>
+    Fr.mul(Fr.mul(z, weight), Fr.inv(Fr.sub(x, BigInt(q + 1)))),
+  );
+}
+
+/**
+ * Coefficients (lowest first) of the polynomial through
+ * (1, values[0]) .. (n, values[n - 1]).
+ */
+function interpolate(values: bigint[], weights: bigint[]): bigint[] {
+  const n = values.length;
+
+  // Z(x) coefficients
+  let z = [Fr.ONE];
+  for (let k = 1; k <= n; k++) {
+    z = polyMul(z, [Fr.neg(Fr.create(BigInt(k))), Fr.ONE]);
+  }
+
+  const result = new Array<bigint>(n).fill(Fr.ZERO);
+  for (let q = 0; q < n; q++) {
+    if (values[q] === Fr.ZERO) {
+      continue;
+    }
+
+    // Z(x) / (x - x_q) by synthetic division
+    const xq = Fr.create(BigInt(q + 1));
+    const scale = Fr.mul(values[q], weights[q]);
+    let carry = Fr.ZERO;
+    for (let i = n; i >= 1; i--) {
+      carry = Fr.add(z[i], Fr.mul(carry, xq));
+      result[i - 1] = Fr.add(result[i - 1], Fr.mul(carry, scale));
+    }
+  }
+
+  return result;
+}
+
+function polyMul(a: bigint[], b: bigint[]): bigint[] {
+  const result = new Array<bigint>(a.length + b.length - 1).fill(Fr.ZERO);
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === Fr.ZERO) {
+      continue;
+    }
+    for (let j = 0; j < b.length; j++) {
+      result[i + j] = Fr.add(result[i + j], Fr.mul(a[i], b[j]));
+    }
+  }
+  return result;
+}
+
+function polySub(a: bigint[], b: bigint[]): bigint[] {
+  return range(0, Math.max(a.length, b.length)).map((i) =>
+    Fr.sub(a[i] ?? Fr.ZERO, b[i] ?? Fr.ZERO),
+  );
+}
+
+/**
+ * Quotient of p by Z(x) over the domain 1..n (n - 1 coefficients).
+ * Throws if Z does not divide p.
+ */
+function divideByVanishing(p: bigint[], n: number): bigint[] {
+  let z = [Fr.ONE];
+  for (let k = 1; k <= n; k++) {
+    z = polyMul(z, [Fr.neg(Fr.create(BigInt(k))), Fr.ONE]);
+  }
+
+  // Long division by the monic Z
+  const remainder = [...p];
+  const quotient = new Array<bigint>(Math.max(n - 1, 0)).fill(Fr.ZERO);
+  for (let i = remainder.length - 1; i >= n; i--) {
+    const coeff = remainder[i];
+    if (coeff === Fr.ZERO) {
+      continue;
+    }
+    quotient[i - n] = coeff;
+    for (let j = 0; j <= n; j++) {
+      remainder[i - n + j] = Fr.sub(remainder[i - n + j], Fr.mul(coeff, z[j]));
+    }
+  }
+
+  if (remainder.some((coeff) => coeff !== Fr.ZERO)) {
+    throw new Error("Constraint polynomial is not divisible by Z(x)");
+  }
+
+  return quotient;
+}
+
+// ============================================================================
+// POINT HELPERS
+// ============================================================================
+
+function g1Mul(scalar: bigint): G1Point {
+  return g1MulPoint(G1.Point.BASE, scalar);
+}
+
+function g2Mul(scalar: bigint): G2Point {
+  return g2MulPoint(G2.Point.BASE, scalar);
+}
+
+function g1MulPoint(point: G1Point, scalar: bigint): G1Point {
+  return point.multiplyUnsafe(Fr.create(scalar));
+}
+
+function g2MulPoint(point: G2Point, scalar: bigint): G2Point {
+  return point.multiplyUnsafe(Fr.create(scalar));
+}
+
+function serializeG1(point: G1Point): string[] {
+  if (point.equals(G1.Point.ZERO)) {
+    return ["0", "1", "0"];
+  }
+  const { x, y } = point.toAffine();
+  return [x.toString(), y.toString(), "1"];
+}
+
+function serializeG2(point: G2Point): string[][] {
+  if (point.equals(G2.Point.ZERO)) {
+    return [
+      ["0", "0"],
+      ["1", "0"],
+      ["0", "0"],
+    ];
+  }
+  const { x, y } = point.toAffine();
+  return [
+    [x.c0.toString(), x.c1.toString()],
+    [y.c0.toString(), y.c1.toString()],
+    ["1", "0"],
+  ];
+}
+
+function parseG1(coords: string[]): G1Point {
+  if (coords[2] === "0") {
+    return G1.Point.ZERO;
+  }
+  const point = G1.Point.fromAffine({
+    x: BigInt(coords[0]),
+    y: BigInt(coords[1]),
+  });
+  point.assertValidity();
+  return point;
+}
+
+function parseG2(coords: string[][]): G2Point {
+  if (coords[2][0] === "0" && coords[2][1] === "0") {
+    return G2.Point.ZERO;
+  }
+  const point = G2.Point.fromAffine({
+    x: fields.Fp2.create({
+      c0: BigInt(coords[0][0]),
+      c1: BigInt(coords[0][1]),
+    }),
+    y: fields.Fp2.create({
+      c0: BigInt(coords[1][0]),
+      c1: BigInt(coords[1][1]),
+    }),
+  });
+  point.assertValidity();
+  return point;
+}
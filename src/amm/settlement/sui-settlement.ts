@@ -7,6 +7,7 @@
  * Key Features:
  * - Atomic settlement of all session operations
  * - Merkle proof verification for efficient on-chain validation
+ * - Single-balance proofs against a settled session's balance root
  * - Position NFT minting for LP positions
  * - Cross-session liquidity aggregation
  */
@@ -21,7 +22,12 @@ import {
   IntentStatus,
   LiquidityPosition,
 } from "../types";
-import { hashStringSync } from "../../crypto/browser-primitives";
+import { hashString } from "../../crypto/primitives";
+import {
+  BalanceProof,
+  SparseBalanceTree,
+  verifyBalanceProof,
+} from "./balance-tree";
 
 // ============================================================================
 // SUI SETTLEMENT TYPES
@@ -72,6 +78,7 @@ export interface SuiSessionObject {
   createdAt: number;
   settledAt?: number;
   finalStateHash?: string;
+  balanceRoot?: string;
 }
 
 /**
@@ -102,6 +109,7 @@ export class SuiSettlementEngine {
   private networkUrl: string;
   private adminAddress: string;
   private moduleAddress: string;
+  private sessionObjects: Map<string, SuiSessionObject> = new Map();
 
   constructor(
     networkUrl: string = "https://fullnode.testnet.sui.io",
@@ -274,6 +282,13 @@ export class SuiSettlementEngine {
       return { valid: false, error: "Position root mismatch" };
     }
 
+    // Verify balance root
+    const computedBalanceRoot =
+      SparseBalanceTree.fromSettlementProof(proof).getRoot();
+    if (computedBalanceRoot !== proof.balanceRoot) {
+      return { valid: false, error: "Balance root mismatch" };
+    }
+
     // Verify token settlements are valid
     // Note: In AMM sessions, tokens can be swapped, so:
     // - Individual token balances may exceed original locked amounts (e.g., swapped into)
@@ -477,7 +492,9 @@ export class SuiSettlementEngine {
       createdAt: session.createdAt,
       settledAt: Date.now(),
       finalStateHash: proof.finalStateHash,
+      balanceRoot: proof.balanceRoot,
     };
+    this.sessionObjects.set(session.sessionId, suiSession);
 
     return {
       success: true,
@@ -486,6 +503,34 @@ export class SuiSettlementEngine {
     };
   }
 
+  // ==========================================================================
+  // BALANCE PROOFS
+  // ==========================================================================
+
+  /**
+   * Verify a single balance (or its absence) against a settled session's
+   * balance root, without the rest of the session's balances
+   */
+  verifyBalanceProof(
+    sessionId: string,
+    proof: BalanceProof,
+  ): { valid: boolean; error?: string } {
+    const balanceRoot = this.sessionObjects.get(sessionId)?.balanceRoot;
+    if (!balanceRoot) {
+      return { valid: false, error: "Session not settled" };
+    }
+
+    if (!verifyBalanceProof(balanceRoot, proof)) {
+      return { valid: false, error: "Balance proof does not match root" };
+    }
+
+    return { valid: true };
+  }
+
+  getSessionObject(sessionId: string): SuiSessionObject | undefined {
+    return this.sessionObjects.get(sessionId);
+  }
+
   // ==========================================================================
   // HELPER METHODS
   // ==========================================================================
@@ -502,12 +547,12 @@ export class SuiSettlementEngine {
       totalFees: proof.totalFees.toString(),
     };
 
-    return hashStringSync(JSON.stringify(stateData));
+    return hashString(JSON.stringify(stateData));
   }
 
   private computeIntentRoot(intentProofs: IntentExecutionProof[]): string {
     if (intentProofs.length === 0) {
-      return hashStringSync("empty_intents");
+      return hashString("empty_intents");
     }
 
     const intentData = intentProofs.map((i) => ({
@@ -518,12 +563,12 @@ export class SuiSettlementEngine {
       output: i.outputAmount.toString(),
     }));
 
-    return hashStringSync(JSON.stringify(intentData));
+    return hashString(JSON.stringify(intentData));
   }
 
   private computePositionRoot(positions: PositionSettlement[]): string {
     if (positions.length === 0) {
-      return hashStringSync("empty_positions");
+      return hashString("empty_positions");
     }
 
     const positionData = positions.map((p) => ({
@@ -534,7 +579,7 @@ export class SuiSettlementEngine {
       liquidity: p.liquidity.toString(),
     }));
 
-    return hashStringSync(JSON.stringify(positionData));
+    return hashString(JSON.stringify(positionData));
   }
 
   private createEvent(
@@ -557,7 +602,7 @@ export class SuiSettlementEngine {
     return {
       objectId: this.generateObjectId(settlement.positionId),
       version: 1,
-      digest: hashStringSync(`nft:${settlement.positionId}:${Date.now()}`),
+      digest: hashString(`nft:${settlement.positionId}:${Date.now()}`),
       positionId: settlement.positionId,
       poolId: settlement.poolId,
       owner: session.ownerAddress,
@@ -571,7 +616,7 @@ export class SuiSettlementEngine {
 
   private generateObjectId(seed: string): string {
     return (
-      "0x" + hashStringSync(`sui_obj:${seed}:${Date.now()}`).substring(0, 64)
+      "0x" + hashString(`sui_obj:${seed}:${Date.now()}`).substring(0, 64)
     );
   }
 
@@ -579,7 +624,7 @@ export class SuiSettlementEngine {
     sessionId: string,
     proof: AMMSettlementProof,
   ): string {
-    return hashStringSync(
+    return hashString(
       `tx:${sessionId}:${proof.finalStateHash}:${Date.now()}`,
     );
   }
@@ -644,10 +689,17 @@ export class SuiSettlementEngine {
         intentId: intent.intentId,
         intentType: intent.type,
         status: intent.status,
-        inputAmount: BigInt(0), // Would be populated from intent
-        outputAmount: BigInt(0), // Would be populated from intent
-        executionPrice: BigInt(0), // Would be populated from intent
+        inputAmount: intent.filledAmountIn ?? BigInt(0),
+        outputAmount: intent.filledAmountOut ?? BigInt(0),
+        executionPrice: executionPrice(
+          intent.filledAmountIn,
+          intent.filledAmountOut,
+        ),
         timestamp: intent.createdAt,
+        ...("tokenIn" in intent && {
+          tokenIn: intent.tokenIn.address,
+          tokenOut: intent.tokenOut.address,
+        }),
       }),
     );
 
@@ -661,21 +713,23 @@ export class SuiSettlementEngine {
       totalVolume: session.totalSwapVolume,
       totalFees: session.totalFeesGenerated,
       totalIntentsExecuted: session.completedIntents.length,
-      userSignature: hashStringSync(
+      userSignature: hashString(
         `user_sign:${session.stateHash}:${userPrivateKey}`,
       ),
-      engineSignature: hashStringSync(
+      engineSignature: hashString(
         `engine_sign:${session.stateHash}:${enginePrivateKey}`,
       ),
       stateRoot: "",
       intentRoot: "",
       positionRoot: "",
+      balanceRoot: "",
     };
 
     // Compute merkle roots
     proof.stateRoot = this.computeStateRoot(proof);
     proof.intentRoot = this.computeIntentRoot(proof.intentProofs);
     proof.positionRoot = this.computePositionRoot(proof.positionSettlements);
+    proof.balanceRoot = SparseBalanceTree.fromSettlementProof(proof).getRoot();
 
     return proof;
   }
@@ -694,6 +748,20 @@ export interface SuiSettlementResult {
   error?: string;
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Output per unit of input of a fill, scaled by 1e18 (0 if unfilled).
+ */
+function executionPrice(amountIn?: bigint, amountOut?: bigint): bigint {
+  if (!amountIn || !amountOut) {
+    return BigInt(0);
+  }
+  return (amountOut * BigInt("1000000000000000000")) / amountIn;
+}
+
 // ============================================================================
 // SINGLETON EXPORT
 // ============================================================================
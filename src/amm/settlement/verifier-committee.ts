@@ -0,0 +1,472 @@
+/**
+ * Verifier Committee
+ *
+ * Settlement finality co-signed by a committee of independent verifiers
+ * with registered public keys. A ThresholdSignature is final once enough
+ * distinct members have signed its message, and every partial signature
+ * is checked against the signer's registered key.
+ *
+ * Schemes:
+ * - BLS: BLS12-381 (public keys in G1, signatures in G2). Partials are
+ *   aggregated into one signature, verified against the signers'
+ *   aggregate public key. Members register with a proof of possession,
+ *   which rules out rogue-key attacks on aggregation.
+ * - MULTISIG: Ed25519 / secp256k1 signatures (crypto/signatures),
+ *   each verified individually. Fallback where BLS is unavailable.
+ *
+ * Thresholds default per committee and can be raised or lowered per
+ * session.
+ */
+
+import { bls12_381 } from "@noble/curves/bls12-381";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { hashString } from "../../crypto/primitives";
+import { getKeyScheme, verifyMessage } from "../../crypto/signatures";
+
+const bls = bls12_381.longSignatures;
+
+// Domain separation tags (IETF BLS signature draft, proof-of-possession scheme)
+export const BLS_SIGNATURE_DST = "BLS_SIG_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_";
+export const BLS_POP_DST = "BLS_POP_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export enum CommitteeScheme {
+  BLS = "BLS",
+  MULTISIG = "MULTISIG",
+}
+
+export interface CommitteeMember {
+  index: number;
+  address: string;
+
+  // Hex: compressed G1 point (BLS) or flagged Ed25519 / secp256k1 key
+  publicKey: string;
+}
+
+/**
+ * Multi-party signature over a message, collected from committee members
+ */
+export interface ThresholdSignature {
+  sigId: string;
+  sessionId: string;
+  scheme: CommitteeScheme;
+  message: string;
+  threshold: number; // Session threshold when the request was created
+  totalSigners: number;
+  collectedSignatures: PartialSignature[];
+
+  // Set once the threshold is reached
+  aggregatedSignature?: string;
+  signerIndexes?: number[];
+  verified: boolean;
+}
+
+export interface PartialSignature {
+  signerAddress: string;
+  signerIndex: number;
+  partialSig: string;
+  timestamp: number;
+}
+
+// ============================================================================
+// BLS KEYS
+// ============================================================================
+
+/**
+ * Generate a BLS12-381 key pair (hex).
+ */
+export function generateBlsKeyPair(): {
+  privateKey: string;
+  publicKey: string;
+} {
+  const privateKey = bls12_381.utils.randomSecretKey();
+  return {
+    privateKey: bytesToHex(privateKey),
+    publicKey: bytesToHex(bls.getPublicKey(privateKey).toBytes(true)),
+  };
+}
+
+/**
+ * BLS signature over a UTF-8 message (hex, compressed G2 point).
+ */
+export function blsSign(message: string, privateKey: string): string {
+  const point = bls.hash(utf8ToBytes(message), BLS_SIGNATURE_DST);
+  return bls.Signature.toHex(bls.sign(point, hexToBytes(privateKey)));
+}
+
+/**
+ * Proof of possession: the member's signature over its own public key,
+ * under a separate domain tag.
+ */
+export function blsProofOfPossession(privateKey: string): string {
+  const publicKey = bls.getPublicKey(hexToBytes(privateKey)).toBytes(true);
+  const point = bls.hash(publicKey, BLS_POP_DST);
+  return bls.Signature.toHex(bls.sign(point, hexToBytes(privateKey)));
+}
+
+/**
+ * Message the committee signs to finalize a settlement.
+ */
+export function settlementCommitteeMessage(
+  sessionId: string,
+  finalStateHash: string,
+): string {
+  return `committee:settle:${sessionId}:${finalStateHash}`;
+}
+
+// ============================================================================
+// COMMITTEE
+// ============================================================================
+
+export class VerifierCommittee {
+  readonly scheme: CommitteeScheme;
+
+  private members: Map<number, CommitteeMember> = new Map();
+  private sessionThresholds: Map<string, number> = new Map();
+  private defaultThreshold: number;
+
+  /**
+   * @param scheme - Signature scheme of every member
+   * @param defaultThreshold - Signatures required unless a session
+   *   sets its own
+   */
+  constructor(
+    scheme: CommitteeScheme = CommitteeScheme.BLS,
+    defaultThreshold: number = 3,
+  ) {
+    if (!Number.isInteger(defaultThreshold) || defaultThreshold < 1) {
+      throw new Error(`Invalid committee threshold: ${defaultThreshold}`);
+    }
+
+    this.scheme = scheme;
+    this.defaultThreshold = defaultThreshold;
+  }
+
+  // ==========================================================================
+  // MEMBERSHIP
+  // ==========================================================================
+
+  /**
+   * Register a member. BLS members must prove possession of their key.
+   */
+  registerMember(member: CommitteeMember, proofOfPossession?: string): void {
+    if (!Number.isInteger(member.index) || member.index < 0) {
+      throw new Error(`Invalid signer index: ${member.index}`);
+    }
+    if (this.members.has(member.index)) {
+      throw new Error(`Signer index ${member.index} is already registered`);
+    }
+
+    for (const existing of this.members.values()) {
+      if (existing.address === member.address) {
+        throw new Error(`${member.address} is already a committee member`);
+      }
+      if (existing.publicKey === member.publicKey) {
+        throw new Error("Public key is already registered");
+      }
+    }
+
+    if (this.scheme === CommitteeScheme.BLS) {
+      this.checkBlsRegistration(member.publicKey, proofOfPossession);
+    } else {
+      // Throws on unknown flags or malformed keys
+      getKeyScheme(member.publicKey);
+    }
+
+    this.members.set(member.index, { ...member });
+  }
+
+  getMember(index: number): CommitteeMember | undefined {
+    return this.members.get(index);
+  }
+
+  getMembers(): CommitteeMember[] {
+    return [...this.members.values()].sort((a, b) => a.index - b.index);
+  }
+
+  // ==========================================================================
+  // THRESHOLDS
+  // ==========================================================================
+
+  /**
+   * Set the number of signatures a session's settlement needs.
+   */
+  setSessionThreshold(sessionId: string, threshold: number): void {
+    if (
+      !Number.isInteger(threshold) ||
+      threshold < 1 ||
+      threshold > this.members.size
+    ) {
+      throw new Error(
+        `Threshold ${threshold} is not within 1..${this.members.size}`,
+      );
+    }
+
+    this.sessionThresholds.set(sessionId, threshold);
+  }
+
+  getThreshold(sessionId: string): number {
+    return this.sessionThresholds.get(sessionId) ?? this.defaultThreshold;
+  }
+
+  /**
+   * Whether a session's settlement needs committee finality: once the
+   * committee has members, or the session has its own threshold.
+   */
+  requiresSignature(sessionId: string): boolean {
+    return this.members.size > 0 || this.sessionThresholds.has(sessionId);
+  }
+
+  // ==========================================================================
+  // SIGNING
+  // ==========================================================================
+
+  /**
+   * Open a signature request over a message for a session.
+   */
+  createSigningRequest(sessionId: string, message: string): ThresholdSignature {
+    return {
+      sigId: hashString(`threshold:${sessionId}:${message}:${Date.now()}`),
+      sessionId,
+      scheme: this.scheme,
+      message,
+      threshold: this.getThreshold(sessionId),
+      totalSigners: this.members.size,
+      collectedSignatures: [],
+      verified: false,
+    };
+  }
+
+  /**
+   * Add a member's partial signature after checking it against the
+   * member's key. Aggregates and verifies once the threshold is reached.
+   */
+  addPartialSignature(
+    thresholdSig: ThresholdSignature,
+    signerIndex: number,
+    partialSig: string,
+    now: number = Date.now(),
+  ): { valid: boolean; error?: string } {
+    if (thresholdSig.scheme !== this.scheme) {
+      return {
+        valid: false,
+        error: `Request uses ${thresholdSig.scheme}, committee uses ${this.scheme}`,
+      };
+    }
+
+    const member = this.members.get(signerIndex);
+    if (!member) {
+      return { valid: false, error: `Unknown signer index ${signerIndex}` };
+    }
+
+    if (
+      thresholdSig.collectedSignatures.some(
+        (s) => s.signerIndex === signerIndex,
+      )
+    ) {
+      return {
+        valid: false,
+        error: `Signer index ${signerIndex} has already signed`,
+      };
+    }
+
+    if (!this.verifyPartial(thresholdSig.message, partialSig, member)) {
+      return {
+        valid: false,
+        error: `Invalid signature from signer index ${signerIndex}`,
+      };
+    }
+
+    thresholdSig.collectedSignatures.push({
+      signerAddress: member.address,
+      signerIndex,
+      partialSig,
+      timestamp: now,
+    });
+
+    // Check if threshold reached
+    if (
+      thresholdSig.collectedSignatures.length >=
+      this.getThreshold(thresholdSig.sessionId)
+    ) {
+      const signatures = [...thresholdSig.collectedSignatures].sort(
+        (a, b) => a.signerIndex - b.signerIndex,
+      );
+      thresholdSig.signerIndexes = signatures.map((s) => s.signerIndex);
+      thresholdSig.aggregatedSignature = this.aggregate(signatures);
+      thresholdSig.verified = this.verifyThresholdSignature(thresholdSig).valid;
+    }
+
+    return { valid: true };
+  }
+
+  // ==========================================================================
+  // VERIFICATION
+  // ==========================================================================
+
+  /**
+   * Verify an aggregated signature from its signer indexes alone, against
+   * the session's current threshold and the registered keys.
+   */
+  verifyThresholdSignature(thresholdSig: ThresholdSignature): {
+    valid: boolean;
+    error?: string;
+  } {
+    const indexes = thresholdSig.signerIndexes ?? [];
+    const threshold = this.getThreshold(thresholdSig.sessionId);
+
+    if (!thresholdSig.aggregatedSignature) {
+      return { valid: false, error: "Signature is not aggregated" };
+    }
+    if (new Set(indexes).size !== indexes.length) {
+      return { valid: false, error: "Duplicate signer index" };
+    }
+
+    const signers: CommitteeMember[] = [];
+    for (const index of indexes) {
+      const member = this.members.get(index);
+      if (!member) {
+        return { valid: false, error: `Unknown signer index ${index}` };
+      }
+      signers.push(member);
+    }
+
+    if (signers.length < threshold) {
+      return {
+        valid: false,
+        error: `${signers.length} of ${threshold} required signatures`,
+      };
+    }
+
+    const valid =
+      this.scheme === CommitteeScheme.BLS
+        ? this.verifyBlsAggregate(
+            thresholdSig.message,
+            thresholdSig.aggregatedSignature,
+            signers,
+          )
+        : this.verifyMultisig(
+            thresholdSig.message,
+            thresholdSig.aggregatedSignature,
+            signers,
+          );
+
+    return valid
+      ? { valid: true }
+      : { valid: false, error: "Aggregated signature does not verify" };
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private checkBlsRegistration(
+    publicKey: string,
+    proofOfPossession: string | undefined,
+  ): void {
+    if (!proofOfPossession) {
+      throw new Error("BLS members must register with a proof of possession");
+    }
+
+    let valid: boolean;
+    try {
+      const point = bls12_381.G1.Point.fromHex(publicKey);
+      if (point.equals(bls12_381.G1.Point.ZERO)) {
+        throw new Error("Identity public key");
+      }
+      valid = bls.verify(
+        bls.Signature.fromHex(proofOfPossession),
+        bls.hash(hexToBytes(publicKey), BLS_POP_DST),
+        point,
+      );
+    } catch {
+      valid = false;
+    }
+
+    if (!valid) {
+      throw new Error("Invalid BLS public key or proof of possession");
+    }
+  }
+
+  private verifyPartial(
+    message: string,
+    signature: string,
+    member: CommitteeMember,
+  ): boolean {
+    try {
+      if (this.scheme === CommitteeScheme.BLS) {
+        return bls.verify(
+          bls.Signature.fromHex(signature),
+          bls.hash(utf8ToBytes(message), BLS_SIGNATURE_DST),
+          bls12_381.G1.Point.fromHex(member.publicKey),
+        );
+      }
+      return verifyMessage(message, signature, member.publicKey);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * BLS: one aggregate G2 point. Multi-sig: the partials, by signer index.
+   */
+  private aggregate(signatures: PartialSignature[]): string {
+    if (this.scheme === CommitteeScheme.BLS) {
+      return bls.Signature.toHex(
+        bls.aggregateSignatures(
+          signatures.map((s) => bls.Signature.fromHex(s.partialSig)),
+        ),
+      );
+    }
+
+    return JSON.stringify(signatures.map((s) => [s.signerIndex, s.partialSig]));
+  }
+
+  private verifyBlsAggregate(
+    message: string,
+    aggregated: string,
+    signers: CommitteeMember[],
+  ): boolean {
+    try {
+      const publicKey = bls.aggregatePublicKeys(
+        signers.map((member) => bls12_381.G1.Point.fromHex(member.publicKey)),
+      );
+      return bls.verify(
+        bls.Signature.fromHex(aggregated),
+        bls.hash(utf8ToBytes(message), BLS_SIGNATURE_DST),
+        publicKey,
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private verifyMultisig(
+    message: string,
+    aggregated: string,
+    signers: CommitteeMember[],
+  ): boolean {
+    let entries: Array<[number, string]>;
+    try {
+      entries = JSON.parse(aggregated);
+    } catch {
+      return false;
+    }
+
+    if (!Array.isArray(entries) || entries.length !== signers.length) {
+      return false;
+    }
+
+    const signatures = new Map(entries);
+    return signers.every((member) => {
+      const signature = signatures.get(member.index);
+      return (
+        typeof signature === "string" &&
+        this.verifyPartial(message, signature, member)
+      );
+    });
+  }
+}
@@ -0,0 +1,591 @@
+/**
+ * AMM Settlement Test
+ *
+ * Tests the settlement building blocks offline: the bisection referee over
+ * real swap intents, Groth16 setup / proving / verification, settlement ZK
+ * proofs, BLS verifier committee aggregation and the sparse Merkle balance
+ * tree.
+ * Run with: npx tsx src/amm/test-settlement.ts
+ */
+
+import { intentEngine } from "./engine/intent-engine";
+import { SuiSettlementEngine } from "./settlement/sui-settlement";
+import {
+  BisectionStatus,
+  BisectionRole,
+  LocalBisectionReferee,
+  SwapStepExecutor,
+  computeTraceCommitments,
+  commitTokenBalances,
+} from "./settlement/bisection";
+import {
+  Groth16Backend,
+  balanceSolvencyCircuit,
+  groth16Prove,
+  groth16Setup,
+  groth16Verify,
+} from "./settlement/groth16-backend";
+import {
+  AdvancedSettlementVerifier,
+  VerificationResult,
+  ZKCircuitType,
+  proveSettlement,
+} from "./settlement/advanced-verifier";
+import {
+  CommitteeScheme,
+  VerifierCommittee,
+  blsProofOfPossession,
+  blsSign,
+  generateBlsKeyPair,
+  settlementCommitteeMessage,
+} from "./settlement/verifier-committee";
+import {
+  BalanceLeafKind,
+  SparseBalanceTree,
+  computeSessionBalanceRoot,
+  verifyBalanceProof,
+} from "./settlement/balance-tree";
+import {
+  AMMSession,
+  AMMSettlementProof,
+  IntentExecutionProof,
+  Token,
+} from "./types";
+
+const USDC: Token = {
+  address: "0xUSDC",
+  symbol: "USDC",
+  name: "USD Coin",
+  decimals: 6,
+  chainId: 1,
+};
+
+const WETH: Token = {
+  address: "0xWETH",
+  symbol: "WETH",
+  name: "Wrapped Ether",
+  decimals: 18,
+  chainId: 1,
+};
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`✅ ${label}`);
+  } else {
+    failures++;
+    console.error(`❌ ${label}`);
+  }
+}
+
+function expectThrow(fn: () => unknown, label: string): void {
+  try {
+    fn();
+    check(false, label);
+  } catch {
+    check(true, label);
+  }
+}
+
+/**
+ * A session with two filled swaps, its settlement proof and the proof's
+ * steps.
+ */
+async function createSwapSession(): Promise<{
+  session: AMMSession;
+  proof: AMMSettlementProof;
+  steps: IntentExecutionProof[];
+}> {
+  const session = intentEngine.createSession(
+    "0xuser",
+    undefined,
+    new Map([
+      [USDC.address, BigInt(10_000_000_000)],
+      [WETH.address, BigInt("2000000000000000000")],
+    ]),
+    Date.now() + 3600000,
+  );
+
+  const intents = [
+    intentEngine.createExactInputSwapIntent(
+      session,
+      USDC,
+      WETH,
+      BigInt(1_000_000_000),
+      BigInt(0),
+      {},
+    ),
+    intentEngine.createExactOutputSwapIntent(
+      session,
+      WETH,
+      USDC,
+      BigInt(500_000_000),
+      BigInt("1000000000000000000"),
+      {},
+    ),
+  ];
+
+  for (const intent of intents) {
+    const submitted = intentEngine.submitIntent(session, intent, "sig");
+    if (!submitted.success) {
+      throw new Error(`Intent not submitted: ${submitted.error}`);
+    }
+    const executed = await intentEngine.executeIntent(session, intent);
+    if (!executed.success) {
+      throw new Error(`Intent not executed: ${executed.error}`);
+    }
+  }
+
+  const proof = new SuiSettlementEngine().generateSettlementProof(
+    session,
+    "user-key",
+    "engine-key",
+  );
+
+  return { session, proof, steps: proof.intentProofs };
+}
+
+// ============================================================================
+// BISECTION REFEREE
+// ============================================================================
+
+async function testBisectionReferee() {
+  console.log("\n" + "=".repeat(60));
+  console.log("TEST: Bisection Referee");
+  console.log("=".repeat(60));
+
+  const { session, steps } = await createSwapSession();
+
+  check(
+    steps.every(
+      (step) => step.inputAmount > BigInt(0) && step.outputAmount > BigInt(0),
+    ),
+    "Settlement proof carries filled swap amounts",
+  );
+
+  const executor = new SwapStepExecutor();
+  const trace = computeTraceCommitments(session.lockedTokens, steps, executor);
+  check(
+    trace[steps.length] ===
+      commitTokenBalances(steps.length, session.availableTokens),
+    "Re-executing the steps reproduces the session's balances",
+  );
+
+  // Defender answers every midpoint from its trace; the challenger
+  // disagrees whenever the midpoint differs from the honest trace
+  const play = (
+    claimedFinal: Map<string, bigint>,
+    defenderTrace: string[],
+    revealAt: (index: number) => Map<string, bigint>,
+  ) => {
+    const referee = new LocalBisectionReferee(executor);
+    let now = 1000;
+    let game = referee.openGame(
+      {
+        sessionId: session.sessionId,
+        defender: "engine",
+        challenger: "watcher",
+        steps,
+        initialBalances: session.lockedTokens,
+        claimedFinalBalances: claimedFinal,
+      },
+      now,
+    );
+
+    while (
+      game.status === BisectionStatus.AWAITING_BISECTION ||
+      game.status === BisectionStatus.AWAITING_RESPONSE
+    ) {
+      now += 10;
+      if (game.status === BisectionStatus.AWAITING_BISECTION) {
+        const mid = Math.floor((game.lo + game.hi) / 2);
+        game = referee.bisect(game.gameId, "engine", defenderTrace[mid], now);
+      } else {
+        const round = game.rounds[game.rounds.length - 1];
+        game = referee.respond(
+          game.gameId,
+          "watcher",
+          round.commitment === trace[round.index],
+          now,
+        );
+      }
+    }
+
+    if (game.status === BisectionStatus.AWAITING_ONE_STEP) {
+      game = referee.proveStep(game.gameId, "engine", revealAt(game.lo), now);
+    }
+    return game;
+  };
+
+  // Balances after each step of the honest execution
+  const balancesAt = (index: number) => {
+    let balances = session.lockedTokens;
+    for (const step of steps.slice(0, index)) {
+      balances = executor.execute(balances, step).balances!;
+    }
+    return balances;
+  };
+
+  const honest = play(session.availableTokens, trace, balancesAt);
+  check(
+    honest.winner === BisectionRole.DEFENDER,
+    "Honest defender wins the bisection game",
+  );
+
+  const inflated = new Map(session.availableTokens);
+  inflated.set(USDC.address, inflated.get(USDC.address)! + BigInt(1));
+  const liarTrace = [...trace];
+  liarTrace[steps.length] = commitTokenBalances(steps.length, inflated);
+  const dishonest = play(inflated, liarTrace, balancesAt);
+  check(
+    dishonest.winner === BisectionRole.CHALLENGER,
+    "Defender claiming inflated balances loses",
+  );
+
+  const referee = new LocalBisectionReferee(executor);
+  const stalled = referee.openGame(
+    {
+      sessionId: session.sessionId,
+      defender: "engine",
+      challenger: "watcher",
+      steps,
+      initialBalances: session.lockedTokens,
+      claimedFinalBalances: session.availableTokens,
+    },
+    0,
+  );
+  expectThrow(
+    () => referee.claimTimeout(stalled.gameId, "watcher", 1),
+    "Timeout cannot be claimed before the deadline",
+  );
+  check(
+    referee.claimTimeout(stalled.gameId, "watcher", stalled.turnDeadline + 1)
+      .winner === BisectionRole.CHALLENGER,
+    "Challenger wins when the defender misses its deadline",
+  );
+}
+
+// ============================================================================
+// GROTH16
+// ============================================================================
+
+async function testGroth16() {
+  console.log("\n" + "=".repeat(60));
+  console.log("TEST: Groth16 Setup, Prove, Verify");
+  console.log("=".repeat(60));
+
+  const circuit = balanceSolvencyCircuit(16);
+  const { provingKey, verificationKey } = groth16Setup(circuit, "test-seed");
+
+  const inputs = [BigInt(1000), BigInt(900)];
+  const proof = groth16Prove(circuit, provingKey, inputs);
+  check(groth16Verify(verificationKey, inputs, proof), "Valid proof verifies");
+  check(
+    !groth16Verify(verificationKey, [BigInt(1000), BigInt(901)], proof),
+    "Proof does not verify for other public inputs",
+  );
+  check(
+    !groth16Verify(verificationKey, inputs, { ...proof, pi_a: proof.pi_c }),
+    "Tampered proof does not verify",
+  );
+
+  const otherSetup = groth16Setup(circuit, "other-seed");
+  check(
+    !groth16Verify(otherSetup.verificationKey, inputs, proof),
+    "Proof does not verify under another setup's key",
+  );
+
+  expectThrow(
+    () => groth16Prove(circuit, provingKey, [BigInt(900), BigInt(1000)]),
+    "Insolvent statement cannot be proven",
+  );
+  expectThrow(
+    () =>
+      groth16Prove(circuit, provingKey, [BigInt(1) << BigInt(17), BigInt(0)]),
+    "Difference outside the circuit's range cannot be proven",
+  );
+
+  const backend = new Groth16Backend("test-seed");
+  const solvency = ZKCircuitType.BALANCE_SOLVENCY;
+  const serialized = await backend.prove(solvency, inputs);
+  check(
+    await backend.verify(solvency, serialized, inputs),
+    "Backend proof verifies",
+  );
+  check(
+    !(await backend.verify(solvency, "not a proof", inputs)),
+    "Malformed backend proof does not verify",
+  );
+  check(
+    !backend.supports(ZKCircuitType.STATE_TRANSITION),
+    "Backend reports unsupported circuits",
+  );
+}
+
+// ============================================================================
+// SETTLEMENT ZK PROOFS
+// ============================================================================
+
+function checkPassed(result: VerificationResult, name: string): boolean {
+  return result.checks.find((c) => c.name === name)?.passed === true;
+}
+
+function zkCheckPassed(result: VerificationResult): boolean {
+  return checkPassed(result, "Zero-Knowledge Proof Verification");
+}
+
+async function testSettlementZkProofs() {
+  console.log("\n" + "=".repeat(60));
+  console.log("TEST: Settlement ZK Proofs");
+  console.log("=".repeat(60));
+
+  const { session, proof } = await createSwapSession();
+  const backend = new Groth16Backend();
+  const verifier = new AdvancedSettlementVerifier();
+  verifier.registerZkBackend(backend);
+
+  const zkProofs = await proveSettlement(proof, backend);
+  check(
+    zkProofs.length === proof.tokenSettlements.length,
+    "Solvency is proven per token",
+  );
+
+  const options = { requireZKProof: true };
+  check(
+    zkCheckPassed(
+      await verifier.verifySettlement(session, { ...proof, zkProofs }, options),
+    ),
+    "Supplied proofs of a USDC -> WETH session verify",
+  );
+  check(
+    !zkCheckPassed(await verifier.verifySettlement(session, proof, options)),
+    "Settlement without proofs fails",
+  );
+
+  const inflated = {
+    ...proof,
+    tokenSettlements: proof.tokenSettlements.map((t) =>
+      t.tokenAddress === WETH.address
+        ? { ...t, finalAmount: t.finalAmount + BigInt(1) }
+        : t,
+    ),
+    zkProofs,
+  };
+  check(
+    !zkCheckPassed(await verifier.verifySettlement(session, inflated, options)),
+    "Proofs do not cover an inflated final balance",
+  );
+
+  const otherProof = await backend.prove(ZKCircuitType.BALANCE_SOLVENCY, [
+    BigInt(1000),
+    BigInt(900),
+  ]);
+  const forged = zkProofs.map((zk) => ({ ...zk, proof: otherProof }));
+  check(
+    !zkCheckPassed(
+      await verifier.verifySettlement(
+        session,
+        { ...proof, zkProofs: forged },
+        options,
+      ),
+    ),
+    "Proof of another statement does not verify",
+  );
+
+  check(
+    !zkCheckPassed(
+      await new AdvancedSettlementVerifier().verifySettlement(
+        session,
+        { ...proof, zkProofs },
+        options,
+      ),
+    ),
+    "Required ZK check fails without a backend",
+  );
+}
+
+// ============================================================================
+// VERIFIER COMMITTEE
+// ============================================================================
+
+async function testVerifierCommittee() {
+  console.log("\n" + "=".repeat(60));
+  console.log("TEST: BLS Verifier Committee");
+  console.log("=".repeat(60));
+
+  const committee = new VerifierCommittee(CommitteeScheme.BLS, 3);
+  const keys = [0, 1, 2, 3].map(() => generateBlsKeyPair());
+  keys.forEach((key, index) =>
+    committee.registerMember(
+      { index, address: `0xmember${index}`, publicKey: key.publicKey },
+      blsProofOfPossession(key.privateKey),
+    ),
+  );
+
+  const rogue = generateBlsKeyPair();
+  expectThrow(
+    () =>
+      committee.registerMember(
+        { index: 9, address: "0xrogue", publicKey: rogue.publicKey },
+        blsProofOfPossession(keys[0].privateKey),
+      ),
+    "Member without proof of possession is rejected",
+  );
+
+  const message = settlementCommitteeMessage("session-1", "0xroot");
+  const request = committee.createSigningRequest("session-1", message);
+
+  check(
+    !committee.addPartialSignature(
+      request,
+      1,
+      blsSign(message, keys[0].privateKey),
+    ).valid,
+    "Partial signature from another member's key is rejected",
+  );
+
+  for (const index of [0, 2]) {
+    committee.addPartialSignature(
+      request,
+      index,
+      blsSign(message, keys[index].privateKey),
+    );
+  }
+  check(!request.verified, "Below threshold the signature is not verified");
+
+  committee.addPartialSignature(
+    request,
+    3,
+    blsSign(message, keys[3].privateKey),
+  );
+  check(request.verified, "Threshold aggregate verifies");
+  check(
+    committee.verifyThresholdSignature(request).valid,
+    "Aggregate verifies from its signer indexes",
+  );
+  check(
+    !committee.verifyThresholdSignature({
+      ...request,
+      signerIndexes: [0, 1, 2],
+    }).valid,
+    "Aggregate does not verify for other signers",
+  );
+
+  committee.setSessionThreshold("session-1", 4);
+  check(
+    !committee.verifyThresholdSignature(request).valid,
+    "Aggregate does not meet a raised session threshold",
+  );
+
+  const { session, proof } = await createSwapSession();
+  const verifier = new AdvancedSettlementVerifier(
+    undefined,
+    undefined,
+    undefined,
+    committee,
+  );
+  check(
+    !checkPassed(
+      await verifier.verifySettlement(session, proof),
+      "Committee Signature",
+    ),
+    "Settlement without a committee signature fails",
+  );
+
+  const finality = committee.createSigningRequest(
+    session.sessionId,
+    settlementCommitteeMessage(session.sessionId, proof.finalStateHash),
+  );
+  for (const index of [0, 1, 2]) {
+    committee.addPartialSignature(
+      finality,
+      index,
+      blsSign(finality.message, keys[index].privateKey),
+    );
+  }
+  check(
+    checkPassed(
+      await verifier.verifySettlement(session, proof, {
+        committeeSignature: finality,
+      }),
+      "Committee Signature",
+    ),
+    "Settlement with a committee signature passes",
+  );
+}
+
+// ============================================================================
+// BALANCE TREE
+// ============================================================================
+
+async function testBalanceTree() {
+  console.log("\n" + "=".repeat(60));
+  console.log("TEST: Sparse Merkle Balance Tree");
+  console.log("=".repeat(60));
+
+  const { session } = await createSwapSession();
+  const tree = SparseBalanceTree.fromSession(session);
+  const root = tree.getRoot();
+
+  check(
+    root === computeSessionBalanceRoot(session),
+    "Tree root matches the session's balance root",
+  );
+
+  const inclusion = tree.getTokenProof(USDC.address);
+  check(
+    inclusion.leaf !== null && verifyBalanceProof(root, inclusion),
+    "Inclusion proof verifies",
+  );
+  check(
+    !verifyBalanceProof(root, {
+      ...inclusion,
+      leaf: {
+        kind: BalanceLeafKind.TOKEN,
+        tokenAddress: USDC.address,
+        amount: BigInt(1),
+      },
+    }),
+    "Inclusion proof with a forged amount does not verify",
+  );
+
+  const nonInclusion = tree.getTokenProof("0xWBTC");
+  check(
+    nonInclusion.leaf === null && verifyBalanceProof(root, nonInclusion),
+    "Non-inclusion proof verifies",
+  );
+  check(
+    !verifyBalanceProof(root, { ...inclusion, leaf: null }),
+    "Non-inclusion cannot be claimed for a present token",
+  );
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  console.log("AMM Settlement Test Suite");
+
+  try {
+    await testBisectionReferee();
+    await testGroth16();
+    await testSettlementZkProofs();
+    await testVerifierCommittee();
+    await testBalanceTree();
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    process.exit(1);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("All tests passed!");
+  console.log("=".repeat(60));
+}
+
+main();
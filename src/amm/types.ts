@@ -119,6 +119,10 @@ export interface BaseIntent {
   expiresAt: number;
   userSignature: string;
   constraints: IntentConstraints;
+
+  // Amounts swapped, set when a swap intent fills
+  filledAmountIn?: bigint;
+  filledAmountOut?: bigint;
 }
 
 /**
@@ -395,6 +399,7 @@ export interface AMMSession {
 
   // Cryptographic state
   stateHash: string;
+  balanceRoot: string; // Sparse Merkle root of balances (balance-tree.ts)
   nonce: number;
   userSignature: string;
   engineSignature: string;
@@ -443,6 +448,20 @@ export interface AMMSettlementProof {
   stateRoot: string;
   intentRoot: string;
   positionRoot: string;
+  balanceRoot: string; // Sparse Merkle root of final balances
+
+  // Zero-knowledge proofs attached by the prover (see proveSettlement)
+  zkProofs?: SettlementZkProof[];
+}
+
+/**
+ * Zero-knowledge proof of one settlement statement, serialized by the
+ * prover's ZkBackend
+ */
+export interface SettlementZkProof {
+  circuitType: string; // ZKCircuitType
+  publicInputs: string[]; // Field elements (decimal)
+  proof: string;
 }
 
 export interface TokenSettlement {
@@ -471,6 +490,10 @@ export interface IntentExecutionProof {
   executionPrice: bigint;
   timestamp: number;
   txHash?: string; // If executed on-chain
+
+  // Swap pair (token addresses), for re-executing swap steps
+  tokenIn?: string;
+  tokenOut?: string;
 }
 
 // ============================================================================
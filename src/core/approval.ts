@@ -0,0 +1,200 @@
+/**
+ * SessionFi Multi-Party Approval
+ *
+ * Pure checks of a state's approvals against a session's ParticipantSet:
+ * who signed (structurally) and whether that meets the approval policy.
+ *
+ * Like delegation.ts, nothing here verifies signatures:
+ * verifyStateChainSignatures (crypto/primitives) checks each signature
+ * before counting its signer with checkApprovalQuorum.
+ */
+
+import {
+  ApprovalPolicyType,
+  ParticipantSet,
+  RejectionReason,
+  SessionStateHeader,
+} from "./types";
+import { ConstraintCheck } from "./constraints";
+
+/**
+ * Check a participant set is well-formed: at least one participant,
+ * no duplicates and a reachable threshold.
+ */
+export function validateParticipantSet(set: ParticipantSet): ConstraintCheck {
+  const { participants, policy } = set;
+
+  if (participants.length === 0) {
+    return {
+      valid: false,
+      error: "Participant set is empty",
+      reason: RejectionReason.INVALID_SIGNATURE,
+    };
+  }
+
+  if (new Set(participants).size !== participants.length) {
+    return {
+      valid: false,
+      error: "Participant set has duplicate signers",
+      reason: RejectionReason.INVALID_SIGNATURE,
+    };
+  }
+
+  if (policy.type === ApprovalPolicyType.THRESHOLD) {
+    const threshold = policy.threshold ?? 0;
+    if (
+      !Number.isInteger(threshold) ||
+      threshold < 1 ||
+      threshold > participants.length
+    ) {
+      return {
+        valid: false,
+        error: `Threshold ${policy.threshold} is not within 1..${participants.length}`,
+        reason: RejectionReason.INVALID_SIGNATURE,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check a set of approving participants meets the policy.
+ *
+ * @param approvers - Distinct participants whose signatures are valid
+ */
+export function checkApprovalQuorum(
+  set: ParticipantSet,
+  approvers: string[],
+): ConstraintCheck {
+  const setCheck = validateParticipantSet(set);
+  if (!setCheck.valid) {
+    return setCheck;
+  }
+
+  const approved = new Set(
+    approvers.filter((signer) => set.participants.includes(signer)),
+  );
+
+  switch (set.policy.type) {
+    case ApprovalPolicyType.ALL:
+      if (approved.size === set.participants.length) {
+        return { valid: true };
+      }
+      return quorumNotMet(`all ${set.participants.length}`, approved.size);
+
+    case ApprovalPolicyType.THRESHOLD:
+      if (approved.size >= set.policy.threshold!) {
+        return { valid: true };
+      }
+      return quorumNotMet(`${set.policy.threshold}`, approved.size);
+
+    case ApprovalPolicyType.OWNER_AND_ENGINE:
+      if (approved.has(set.participants[0])) {
+        return { valid: true };
+      }
+      return {
+        valid: false,
+        error: "Owner approval missing",
+        reason: RejectionReason.INVALID_SIGNATURE,
+      };
+
+    default:
+      return {
+        valid: false,
+        error: `Unknown approval policy: ${set.policy.type}`,
+        reason: RejectionReason.INVALID_SIGNATURE,
+      };
+  }
+}
+
+function quorumNotMet(required: string, approvals: number): ConstraintCheck {
+  return {
+    valid: false,
+    error: `Approval quorum not met: ${approvals} of ${required} required participants signed`,
+    reason: RejectionReason.INVALID_SIGNATURE,
+  };
+}
+
+/**
+ * Whether the owner must sign every state: without a participant set
+ * (owner and engine), or under the ALL and OWNER_AND_ENGINE policies.
+ */
+export function requiresOwnerApproval(set: ParticipantSet | null): boolean {
+  return (
+    !set ||
+    set.policy.type === ApprovalPolicyType.ALL ||
+    set.policy.type === ApprovalPolicyType.OWNER_AND_ENGINE
+  );
+}
+
+/**
+ * Participants that signed a state, without verifying the signatures:
+ * the owner if `user` is set, plus every participant signature.
+ */
+export function stateApprovers(
+  state: SessionStateHeader,
+  set: ParticipantSet,
+): string[] {
+  const approvers = (state.signatures.participants || []).map(
+    (participant) => participant.signer,
+  );
+
+  if (state.signatures.user) {
+    approvers.unshift(set.participants[0]);
+  }
+
+  return [...new Set(approvers)];
+}
+
+/**
+ * Structural approval check of a state (signatures present, not verified).
+ * Used before assembling or persisting states; the verifier re-checks
+ * with real signature verification.
+ */
+export function checkStateApprovals(
+  state: SessionStateHeader,
+  set: ParticipantSet | null,
+): ConstraintCheck {
+  if (!state.signatures.engine) {
+    return {
+      valid: false,
+      error: "Missing engine signature",
+      reason: RejectionReason.INVALID_SIGNATURE,
+    };
+  }
+
+  if (!set) {
+    return state.signatures.user
+      ? { valid: true }
+      : {
+          valid: false,
+          error: "Missing user signature",
+          reason: RejectionReason.INVALID_SIGNATURE,
+        };
+  }
+
+  return checkApprovalQuorum(set, stateApprovers(state, set));
+}
+
+/**
+ * Add (or replace) a participant's signature on a state.
+ * Returns a new state; the owner signs into `user` instead.
+ */
+export function withParticipantSignature<T extends SessionStateHeader>(
+  state: T,
+  signer: string,
+  signature: string,
+): T {
+  const others = (state.signatures.participants || []).filter(
+    (participant) => participant.signer !== signer,
+  );
+
+  return {
+    ...state,
+    signatures: {
+      ...state.signatures,
+      participants: [...others, { signer, signature }],
+    },
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * SessionFi Account Balance Helpers
+ *
+ * Pure helpers over AccountBalances (account -> asset -> amount),
+ * shared by the session engines, hashing and settlement verification.
+ */
+
+import { AccountBalances, PRIMARY_ACCOUNT } from "./types";
+
+// ============================================================================
+// ACCOUNT BALANCES
+// ============================================================================
+
+/**
+ * Create the initial balances of a session: locked capital is held by
+ * the primary account, except the operator's trading liquidity, which
+ * the counterparty account holds.
+ */
+export function createInitialBalances(
+  lockedAssets: Record<string, bigint>,
+  counterpartyLiquidity: Record<string, bigint> = {},
+): AccountBalances {
+  const primary = { ...lockedAssets };
+  const liquidity: Record<string, bigint> = {};
+
+  for (const [asset, amount] of Object.entries(counterpartyLiquidity)) {
+    const locked = lockedAssets[asset] || BigInt(0);
+    if (amount < BigInt(0) || amount > locked) {
+      throw new Error(
+        `Counterparty liquidity of ${amount} ${asset} is not within locked ${locked}`,
+      );
+    }
+    if (amount > BigInt(0)) {
+      primary[asset] = locked - amount;
+      liquidity[asset] = amount;
+    }
+  }
+
+  return Object.keys(liquidity).length > 0
+    ? { [PRIMARY_ACCOUNT]: primary, [COUNTERPARTY_ACCOUNT]: liquidity }
+    : { [PRIMARY_ACCOUNT]: primary };
+}
+
+/**
+ * Get an account's balance of an asset (0 if absent).
+ */
+export function getAccountBalance(
+  balances: AccountBalances,
+  account: string,
+  asset: string,
+): bigint {
+  return balances[account]?.[asset] || BigInt(0);
+}
+
+/**
+ * Deep-copy balances so a transition never mutates the previous state.
+ */
+export function cloneAccountBalances(
+  balances: AccountBalances,
+): AccountBalances {
+  const copy: AccountBalances = {};
+  for (const account in balances) {
+    copy[account] = { ...balances[account] };
+  }
+  return copy;
+}
+
+/**
+ * Add an amount to an account's balance in place.
+ */
+export function creditAccount(
+  balances: AccountBalances,
+  account: string,
+  asset: string,
+  amount: bigint,
+): void {
+  balances[account] = {
+    ...balances[account],
+    [asset]: getAccountBalance(balances, account, asset) + amount,
+  };
+}
+
+/**
+ * Subtract an amount from an account's balance in place.
+ * Returns false (leaving balances untouched) if the balance is insufficient.
+ */
+export function debitAccount(
+  balances: AccountBalances,
+  account: string,
+  asset: string,
+  amount: bigint,
+): boolean {
+  const current = getAccountBalance(balances, account, asset);
+  if (current < amount) {
+    return false;
+  }
+
+  balances[account] = { ...balances[account], [asset]: current - amount };
+  return true;
+}
+
+/**
+ * Move an amount between two accounts in place.
+ * Returns false (leaving balances untouched) if the source is insufficient.
+ */
+export function moveBalance(
+  balances: AccountBalances,
+  from: string,
+  to: string,
+  asset: string,
+  amount: bigint,
+): boolean {
+  if (!debitAccount(balances, from, asset, amount)) {
+    return false;
+  }
+
+  creditAccount(balances, to, asset, amount);
+  return true;
+}
+
+// ============================================================================
+// POSITION ACCOUNTS
+// ============================================================================
+
+const LEND_POSITION_PREFIX = "lend:";
+const STAKE_POSITION_PREFIX = "stake:";
+
+/**
+ * Account holding the amount supplied to a lending market.
+ */
+export function lendPositionAccount(marketId: string): string {
+  return `${LEND_POSITION_PREFIX}${marketId}`;
+}
+
+/**
+ * Account holding the amount staked with a validator.
+ */
+export function stakePositionAccount(validatorId: string): string {
+  return `${STAKE_POSITION_PREFIX}${validatorId}`;
+}
+
+/**
+ * Position accounts can only be moved in and out of by LEND and STAKE.
+ */
+export function isPositionAccount(account: string): boolean {
+  return (
+    account.startsWith(LEND_POSITION_PREFIX) ||
+    account.startsWith(STAKE_POSITION_PREFIX)
+  );
+}
+
+/**
+ * Sum balances per asset across all accounts.
+ * This is what the capital-conservation invariant is checked against.
+ */
+export function sumAccountBalances(
+  balances: AccountBalances,
+): Record<string, bigint> {
+  const totals: Record<string, bigint> = {};
+
+  for (const account in balances) {
+    for (const asset in balances[account]) {
+      totals[asset] = (totals[asset] || BigInt(0)) + balances[account][asset];
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Canonical (account, asset, amount) entries sorted by account then asset.
+ * Used for deterministic hashing.
+ */
+export function sortedBalanceEntries(
+  balances: AccountBalances,
+): Array<[string, string, bigint]> {
+  const entries: Array<[string, string, bigint]> = [];
+
+  for (const account of Object.keys(balances).sort()) {
+    for (const asset of Object.keys(balances[account]).sort()) {
+      entries.push([account, asset, balances[account][asset]]);
+    }
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// PAYEE ACCOUNTS
+// ============================================================================
+
+const PAYEE_PREFIX = "payee:";
+
+/**
+ * Account whose balance is paid out to a recipient at settlement.
+ */
+export function payeeAccount(recipient: string): string {
+  return `${PAYEE_PREFIX}${recipient}`;
+}
+
+/**
+ * Payee accounts can only be credited, by TRANSFER.
+ */
+export function isPayeeAccount(account: string): boolean {
+  return account.startsWith(PAYEE_PREFIX);
+}
+
+/**
+ * Recipient of a payee account (null for any other account).
+ */
+export function payeeRecipient(account: string): string | null {
+  return isPayeeAccount(account) ? account.slice(PAYEE_PREFIX.length) : null;
+}
+
+// ============================================================================
+// COUNTERPARTY ACCOUNT
+// ============================================================================
+
+/**
+ * Account of the operator filling TRADEs. It holds the operator's
+ * trading liquidity and every asset traded to it, and is paid out to the
+ * operator at settlement. Only TRADE moves value in or out of it, so
+ * trades never change a session's per-asset totals.
+ */
+export const COUNTERPARTY_ACCOUNT = "counterparty";
+
+export function isCounterpartyAccount(account: string): boolean {
+  return account === COUNTERPARTY_ACCOUNT;
+}
@@ -0,0 +1,276 @@
+/**
+ * SessionFi Action Constraints
+ *
+ * Pure checks of SessionMetadata limits (maxDuration and ActionConstraints)
+ * against an action and the action log it is appended to.
+ *
+ * Every check reads only action timestamps and the action log, never the
+ * wall clock, so the verifier can replay them over a settled state chain
+ * and reach the same verdict as the engine. A checkpoint genesis starts a
+ * new action log, so the constraint state before it travels in the
+ * state's ConstraintCarry.
+ */
+
+import {
+  Action,
+  ActionType,
+  ConstraintCarry,
+  DeductParams,
+  RejectionReason,
+  SessionMetadata,
+  SessionState,
+} from "./types";
+
+/**
+ * Result of a constraint check.
+ */
+export interface ConstraintCheck {
+  valid: boolean;
+  error?: string;
+  reason?: RejectionReason;
+}
+
+// Rate limit window for maxActionsPerSecond
+const RATE_LIMIT_WINDOW_MS = 1000;
+
+// How far an action timestamp may be ahead of the executing clock (client
+// clock skew) or behind it (signing and network latency). Stamping ahead
+// can borrow at most one rate limit window's allowance.
+export const MAX_ACTION_CLOCK_SKEW_MS = RATE_LIMIT_WINDOW_MS;
+export const MAX_ACTION_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Sum DEDUCT amounts per asset over an action log (and the deductions
+ * carried over checkpoints).
+ */
+export function computeTotalDeductions(
+  actionLog: Action[],
+  carry?: ConstraintCarry,
+): Record<string, bigint> {
+  const totals: Record<string, bigint> = { ...carry?.totalDeductions };
+
+  for (const action of actionLog) {
+    if (action.type === ActionType.DEDUCT) {
+      const params = action.params as DeductParams;
+      totals[params.asset] =
+        (totals[params.asset] || BigInt(0)) + params.amount;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Check an action timestamp against the clock it is executed at.
+ *
+ * Engine-side only, since it reads the caller's clock: every other check
+ * trusts action timestamps, so an action stamped ahead of time could
+ * otherwise place itself in a rate limit window that has not started.
+ */
+export function checkActionTimestamp(
+  action: Action,
+  now: number,
+): ConstraintCheck {
+  if (action.timestamp > now + MAX_ACTION_CLOCK_SKEW_MS) {
+    return {
+      valid: false,
+      error: `Action timestamp ${action.timestamp} is ahead of engine clock ${now}`,
+      reason: RejectionReason.CONSTRAINT_VIOLATION,
+    };
+  }
+
+  if (action.timestamp < now - MAX_ACTION_AGE_MS) {
+    return {
+      valid: false,
+      error: `Action timestamp ${action.timestamp} is too far behind engine clock ${now}`,
+      reason: RejectionReason.CONSTRAINT_VIOLATION,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check an action against session metadata, given the actions applied
+ * before it (and the constraint state carried over checkpoints).
+ *
+ * Checks:
+ * - Action is timestamped within [startTime, startTime + maxDuration]
+ * - Timestamps never go backwards (keeps the rate limit window honest)
+ * - maxDeductionPerAction
+ * - maxTotalDeduction (cumulative over the action log)
+ * - maxActionsPerSecond (sliding one-second window over action timestamps)
+ */
+export function checkActionConstraints(
+  actionLog: Action[],
+  action: Action,
+  metadata: SessionMetadata,
+  carry?: ConstraintCarry,
+): ConstraintCheck {
+  // Session duration
+  const expiresAt = metadata.startTime + metadata.maxDuration * 1000;
+
+  if (action.timestamp > expiresAt) {
+    return {
+      valid: false,
+      error: `Session expired: action at ${action.timestamp} is after ${expiresAt} (maxDuration ${metadata.maxDuration}s)`,
+      reason: RejectionReason.SESSION_NOT_ACTIVE,
+    };
+  }
+
+  if (action.timestamp < metadata.startTime) {
+    return {
+      valid: false,
+      error: `Action at ${action.timestamp} is before session start ${metadata.startTime}`,
+      reason: RejectionReason.CONSTRAINT_VIOLATION,
+    };
+  }
+
+  // Timestamps of earlier actions, oldest first
+  const timestamps = [
+    ...(carry?.recentActionTimestamps ?? []),
+    ...actionLog.map((previous) => previous.timestamp),
+  ];
+
+  const lastTimestamp = timestamps[timestamps.length - 1];
+  if (lastTimestamp !== undefined && action.timestamp < lastTimestamp) {
+    return {
+      valid: false,
+      error: `Action timestamp ${action.timestamp} is before previous action ${lastTimestamp}`,
+      reason: RejectionReason.CONSTRAINT_VIOLATION,
+    };
+  }
+
+  const constraints = metadata.actionConstraints;
+  if (!constraints) {
+    return { valid: true };
+  }
+
+  // Deduction limits
+  if (action.type === ActionType.DEDUCT) {
+    const params = action.params as DeductParams;
+
+    const maxPerAction = constraints.maxDeductionPerAction?.[params.asset];
+    if (maxPerAction !== undefined && params.amount > maxPerAction) {
+      return {
+        valid: false,
+        error: `Deduction of ${params.amount} ${params.asset} exceeds per-action limit ${maxPerAction}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    const maxTotal = constraints.maxTotalDeduction?.[params.asset];
+    if (maxTotal !== undefined) {
+      const deducted =
+        computeTotalDeductions(actionLog, carry)[params.asset] || BigInt(0);
+
+      if (deducted + params.amount > maxTotal) {
+        return {
+          valid: false,
+          error: `Total deduction of ${deducted + params.amount} ${params.asset} exceeds session limit ${maxTotal} (already deducted ${deducted})`,
+          reason: RejectionReason.CONSTRAINT_VIOLATION,
+        };
+      }
+    }
+  }
+
+  // Rate limit
+  if (constraints.maxActionsPerSecond !== undefined) {
+    const windowStart = action.timestamp - RATE_LIMIT_WINDOW_MS;
+    let inWindow = 1; // This action
+
+    for (let i = timestamps.length - 1; i >= 0; i--) {
+      if (timestamps[i] <= windowStart) {
+        break; // Timestamps are non-decreasing
+      }
+      inWindow++;
+    }
+
+    if (inWindow > constraints.maxActionsPerSecond) {
+      return {
+        valid: false,
+        error: `Rate limit exceeded: ${inWindow} actions within 1s, max ${constraints.maxActionsPerSecond}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Replay constraint checks over a complete action log.
+ * Used by the verifier to re-check a settled session.
+ */
+export function verifyActionLogConstraints(
+  actionLog: Action[],
+  metadata: SessionMetadata,
+  carry?: ConstraintCarry,
+): ConstraintCheck {
+  for (let i = 0; i < actionLog.length; i++) {
+    const check = checkActionConstraints(
+      actionLog.slice(0, i),
+      actionLog[i],
+      metadata,
+      carry,
+    );
+
+    if (!check.valid) {
+      return {
+        ...check,
+        error: `Action ${actionLog[i].nonce}: ${check.error}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Constraint state a checkpoint genesis carries over from the state it
+ * checkpoints: its deduction totals and the action timestamps that can
+ * still fall in a later action's rate limit window.
+ */
+export function computeConstraintCarry(state: SessionState): ConstraintCarry {
+  const timestamps = [
+    ...(state.carry?.recentActionTimestamps ?? []),
+    ...state.actionLog.map((action) => action.timestamp),
+  ];
+  const last = timestamps[timestamps.length - 1];
+
+  return {
+    totalDeductions: computeTotalDeductions(state.actionLog, state.carry),
+    recentActionTimestamps: timestamps.filter(
+      (timestamp) => timestamp > last - RATE_LIMIT_WINDOW_MS,
+    ),
+  };
+}
+
+/**
+ * Whether two states carry the same constraint state.
+ */
+export function sameConstraintCarry(
+  a: ConstraintCarry | undefined,
+  b: ConstraintCarry | undefined,
+): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+
+  const assets = new Set([
+    ...Object.keys(a.totalDeductions),
+    ...Object.keys(b.totalDeductions),
+  ]);
+  for (const asset of assets) {
+    if (a.totalDeductions[asset] !== b.totalDeductions[asset]) {
+      return false;
+    }
+  }
+
+  return (
+    a.recentActionTimestamps.length === b.recentActionTimestamps.length &&
+    a.recentActionTimestamps.every(
+      (timestamp, i) => timestamp === b.recentActionTimestamps[i],
+    )
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * SessionFi Session Key Delegation
+ *
+ * Pure scope checks for SessionKeyDelegation: whether an action or intent
+ * signed by a session key is within what the owner delegated.
+ *
+ * Like constraints.ts, checks read only timestamps and the actions signed
+ * under a delegation, so the verifier can replay them over a state chain.
+ * Expiry is checked against the executing engine's clock (a state's
+ * timestamp on replay), never a client-supplied action timestamp.
+ * Owner and session key signatures are checked separately (crypto/typed-data).
+ */
+
+import {
+  Action,
+  ActionType,
+  DeductParams,
+  DepositParams,
+  LendParams,
+  RejectionReason,
+  SessionKeyDelegation,
+  StakeParams,
+  StateSignatures,
+  TradeParams,
+  TransferParams,
+} from "./types";
+import { ConstraintCheck } from "./constraints";
+import { isPayeeAccount } from "./balances";
+import { hashDelegation } from "../crypto/typed-data";
+
+/**
+ * An intent as seen by delegation scope checks.
+ */
+export interface DelegatedIntent {
+  // IntentType value
+  intentType: string;
+
+  // Tokens the intent touches
+  tokens: string[];
+
+  // Value the intent gives up, per token
+  spend: Record<string, bigint>;
+
+  // Signing time (ms, the client's clock), compared against the
+  // delegation expiry
+  timestamp: number;
+}
+
+// ============================================================================
+// ACTION FOOTPRINT
+// ============================================================================
+
+/**
+ * Assets an action touches.
+ */
+export function actionAssets(action: Action): string[] {
+  switch (action.type) {
+    case ActionType.TRANSFER:
+      return [(action.params as TransferParams).asset];
+    case ActionType.DEDUCT:
+      return [(action.params as DeductParams).asset];
+    case ActionType.DEPOSIT:
+      return [(action.params as DepositParams).asset];
+    case ActionType.TRADE: {
+      const params = action.params as TradeParams;
+      return [params.assetIn, params.assetOut];
+    }
+    case ActionType.LEND:
+      return [(action.params as LendParams).asset];
+    case ActionType.STAKE:
+      return [(action.params as StakeParams).asset];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Value an action gives up, per asset.
+ *
+ * Spend is value leaving the owner: DEDUCT amounts, TRADE inputs and
+ * TRANSFERs into payee accounts (paid out to their recipient at
+ * settlement). Other TRANSFERs, LEND and STAKE only move value between
+ * the owner's accounts, and DEPOSIT adds value.
+ */
+export function computeActionSpend(action: Action): Record<string, bigint> {
+  switch (action.type) {
+    case ActionType.DEDUCT: {
+      const params = action.params as DeductParams;
+      return { [params.asset]: params.amount };
+    }
+    case ActionType.TRANSFER: {
+      const params = action.params as TransferParams;
+      return isPayeeAccount(params.to) ? { [params.asset]: params.amount } : {};
+    }
+    case ActionType.TRADE: {
+      const params = action.params as TradeParams;
+      return { [params.assetIn]: params.amountIn };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Add a spend to running per-asset totals (returns a new record).
+ */
+export function addSpend(
+  spent: Record<string, bigint>,
+  spend: Record<string, bigint>,
+): Record<string, bigint> {
+  const total = { ...spent };
+  for (const [asset, amount] of Object.entries(spend)) {
+    total[asset] = (total[asset] || BigInt(0)) + amount;
+  }
+  return total;
+}
+
+// ============================================================================
+// SCOPE CHECKS
+// ============================================================================
+
+/**
+ * Checks shared by actions and intents: session binding, expiry,
+ * allowed assets and cumulative spend caps.
+ */
+function checkScope(
+  delegation: SessionKeyDelegation,
+  sessionId: string,
+  now: number,
+  assets: string[],
+  spend: Record<string, bigint>,
+  spent: Record<string, bigint>,
+): ConstraintCheck {
+  if (delegation.sessionId !== sessionId) {
+    return {
+      valid: false,
+      error: `Delegation is for session ${delegation.sessionId}, not ${sessionId}`,
+      reason: RejectionReason.INVALID_SIGNATURE,
+    };
+  }
+
+  if (now > delegation.expiresAt) {
+    return {
+      valid: false,
+      error: `Delegation expired at ${delegation.expiresAt}`,
+      reason: RejectionReason.ACTION_NOT_ALLOWED,
+    };
+  }
+
+  for (const asset of assets) {
+    if (!delegation.scope.allowedAssets.includes(asset)) {
+      return {
+        valid: false,
+        error: `Asset ${asset} is outside the delegation scope`,
+        reason: RejectionReason.ACTION_NOT_ALLOWED,
+      };
+    }
+  }
+
+  for (const [asset, amount] of Object.entries(spend)) {
+    const cap = delegation.scope.spendCaps[asset] ?? BigInt(0);
+    const total = (spent[asset] || BigInt(0)) + amount;
+
+    if (total > cap) {
+      return {
+        valid: false,
+        error: `Delegated spend of ${total} ${asset} exceeds cap ${cap}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Check an action signed by a session key against its delegation.
+ *
+ * @param spent - Spend already made under this delegation
+ * @param now - Engine time of execution (ms)
+ */
+export function checkDelegatedAction(
+  delegation: SessionKeyDelegation,
+  sessionId: string,
+  action: Action,
+  spent: Record<string, bigint>,
+  now: number,
+): ConstraintCheck {
+  if (!delegation.scope.allowedActionTypes.includes(action.type)) {
+    return {
+      valid: false,
+      error: `Action type ${action.type} is outside the delegation scope`,
+      reason: RejectionReason.ACTION_NOT_ALLOWED,
+    };
+  }
+
+  return checkScope(
+    delegation,
+    sessionId,
+    now,
+    actionAssets(action),
+    computeActionSpend(action),
+    spent,
+  );
+}
+
+/**
+ * Check an intent signed by a session key against its delegation.
+ *
+ * @param spent - Spend already made under this delegation
+ */
+export function checkDelegatedIntent(
+  delegation: SessionKeyDelegation,
+  sessionId: string,
+  intent: DelegatedIntent,
+  spent: Record<string, bigint>,
+): ConstraintCheck {
+  if (!delegation.scope.allowedIntentTypes.includes(intent.intentType)) {
+    return {
+      valid: false,
+      error: `Intent type ${intent.intentType} is outside the delegation scope`,
+      reason: RejectionReason.ACTION_NOT_ALLOWED,
+    };
+  }
+
+  return checkScope(
+    delegation,
+    sessionId,
+    intent.timestamp,
+    intent.tokens,
+    intent.spend,
+    spent,
+  );
+}
+
+/**
+ * Replay delegation scope over a sequence of state transitions.
+ *
+ * Each transition is the action appended by a state, that state's
+ * signatures and its timestamp (the engine's clock at execution). Spend is
+ * accumulated per delegation (identified by hashDelegation) in order, so
+ * caps hold across the whole sequence.
+ */
+export function verifyDelegatedActions(
+  sessionId: string,
+  transitions: Array<{
+    action: Action;
+    signatures: StateSignatures;
+    timestamp: number;
+  }>,
+): ConstraintCheck {
+  const spentByDelegation = new Map<string, Record<string, bigint>>();
+
+  for (const { action, signatures, timestamp } of transitions) {
+    const delegation = signatures.delegation;
+    if (!delegation) {
+      continue;
+    }
+
+    const delegationId = hashDelegation(delegation);
+    const spent = spentByDelegation.get(delegationId) || {};
+    const check = checkDelegatedAction(
+      delegation,
+      sessionId,
+      action,
+      spent,
+      timestamp,
+    );
+
+    if (!check.valid) {
+      return {
+        ...check,
+        error: `Action ${action.nonce}: ${check.error}`,
+      };
+    }
+
+    spentByDelegation.set(
+      delegationId,
+      addSpend(spent, computeActionSpend(action)),
+    );
+  }
+
+  return { valid: true };
+}
@@ -34,6 +34,8 @@ export enum SessionStatus {
  * - Immutable after settlement
  * - Owns locked capital
  * - Contains cryptographic commitment to off-chain state
+ * - Unilateral settlement goes through a challenge window (PendingSettlement)
+ * - Long-lived sessions can checkpoint and withdraw while active
  */
 export interface SessionObject {
   // Unique session identifier (deterministic hash)
@@ -62,7 +64,104 @@ export interface SessionObject {
   finalStateHash: string | null;
 
   // Settlement proof bundle (submitted during settlement)
-  settlementProof: SettlementProof | null;
+  settlementProof: SettlementProof | CompactSettlementProof | null;
+
+  // Unilateral settlement awaiting its challenge window (null otherwise)
+  pendingSettlement: PendingSettlement | null;
+
+  // Latest checkpoint committed while active (null if none)
+  // Settlement proofs only cover states from its genesis onward
+  checkpoint: SessionCheckpoint | null;
+
+  // Multi-party signers and approval policy (null: owner and engine)
+  participants: ParticipantSet | null;
+
+  // Fee recipients and protocol fee (null: no protocol fee, operator
+  // fees to the settlement contract's operator)
+  payoutTerms: PayoutTerms | null;
+
+  // Payouts executed at settlement (null until settled)
+  payoutPlan: PayoutPlan | null;
+}
+
+/**
+ * SessionCheckpoint commits a dual-signed intermediate state on-chain.
+ *
+ * The session continues from a new genesis state that links to the
+ * checkpointed state (previousStateHash) with the withdrawn amounts
+ * removed from its primary account and an empty action log.
+ * lockedAssets is reduced by the withdrawal.
+ */
+export interface SessionCheckpoint {
+  // Checkpointed state
+  nonce: number;
+  stateHash: string;
+
+  // Genesis the session continues from (nonce + 1)
+  genesisNonce: number;
+  genesisStateHash: string;
+
+  // Withdrawn at this checkpoint, per asset
+  withdrawn: Record<string, bigint>;
+
+  // When the checkpoint was committed (ms)
+  timestamp: number;
+}
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+/**
+ * Party submitting a state during unilateral settlement.
+ */
+export enum SettlementParty {
+  USER = "USER",
+  ENGINE = "ENGINE",
+}
+
+/**
+ * PendingSettlement is a unilateral settlement in its challenge window.
+ *
+ * Either party may replace the pending state with a higher-nonce,
+ * dual-signed state before the deadline; each replacement restarts the
+ * window. The session settles on the pending state once the deadline
+ * passes without a successful challenge.
+ */
+export interface PendingSettlement {
+  // Highest-nonce dual-signed state submitted so far
+  state: SessionState;
+
+  // Who submitted it
+  submittedBy: SettlementParty;
+
+  // When the current challenge window opened (ms)
+  openedAt: number;
+
+  // End of the challenge window (ms); finalization is allowed after it
+  challengeDeadline: number;
+
+  // Stale states superseded during this settlement, oldest first
+  disputes: DisputeRecord[];
+}
+
+/**
+ * DisputeRecord records a submitted state that turned out to be stale:
+ * a newer co-signed state was produced by the challenger.
+ */
+export interface DisputeRecord {
+  // Party that submitted the stale state
+  staleSubmitter: SettlementParty;
+  staleNonce: number;
+  staleStateHash: string;
+
+  // Party that proved it stale, and the state it proved it with
+  challenger: SettlementParty;
+  challengeNonce: number;
+  challengeStateHash: string;
+
+  // When the challenge succeeded (ms)
+  timestamp: number;
 }
 
 // ============================================================================
@@ -87,16 +186,16 @@ export interface SessionState {
   // State version number (monotonically increasing)
   nonce: number;
 
-  // Current balances per asset
-  // Invariant: sum(balances) <= sum(lockedAssets)
-  balances: Record<string, bigint>;
+  // Current balances per internal account, then per asset
+  // Invariant: for each asset, sum over accounts <= lockedAssets[asset]
+  balances: AccountBalances;
 
   // Hash of previous state (forms chain)
   // null for initial state
   previousStateHash: string | null;
 
   // Hash of current state
-  // Computed from: hash(sessionId, nonce, balances, previousStateHash, actionLog)
+  // Computed from: hash(sessionId, nonce, balances, previousStateHash, actionLogRoot, carry)
   stateHash: string;
 
   // All actions applied to reach this state
@@ -108,18 +207,116 @@ export interface SessionState {
 
   // Timestamp of state creation
   timestamp: number;
+
+  // Constraint state from before the last checkpoint (absent until the
+  // first checkpoint). Set by the checkpoint genesis, kept by later states.
+  carry?: ConstraintCarry;
+}
+
+/**
+ * Constraint state of the actions before a checkpoint, which the
+ * checkpoint genesis drops from its action log. Committed in stateHash.
+ */
+export interface ConstraintCarry {
+  // DEDUCT totals per asset, counted against maxTotalDeduction
+  totalDeductions: Record<string, bigint>;
+
+  // Timestamps of the actions within the last rate limit window, oldest
+  // first (the last one is the last action timestamp)
+  recentActionTimestamps: number[];
 }
 
+/**
+ * AccountBalances maps internal account -> asset -> amount.
+ *
+ * A session can hold several internal accounts (e.g. a trader and their
+ * strategy sub-wallets). Locked capital starts in PRIMARY_ACCOUNT and
+ * TRANSFER actions move value between accounts.
+ *
+ * Payee accounts ("payee:<recipient>") are paid out to their recipient
+ * at settlement. Only TRANSFER can credit them and nothing can debit them.
+ *
+ * Lending and staking positions are reserved accounts ("lend:<marketId>",
+ * "stake:<validatorId>"), so they count towards the session's capital.
+ */
+export type AccountBalances = Record<string, Record<string, bigint>>;
+
+/**
+ * Account that receives the locked assets at session start.
+ * DEDUCT and DEPOSIT apply to it unless they name another account.
+ */
+export const PRIMARY_ACCOUNT = "primary";
+
+/**
+ * SessionStateHeader is a SessionState without its action log.
+ * The stateHash still commits to the log through its Merkle root.
+ * Used by compact settlement proofs.
+ */
+export type SessionStateHeader = Omit<SessionState, "actionLog">;
+
 /**
  * Dual signatures ensure both parties agree on state transition.
  * Missing signature = invalid state.
+ * Signatures are over stateHash, or over the EIP-712 SessionState for
+ * EVM signers (see signStateWith).
  */
 export interface StateSignatures {
-  // User signature over stateHash
+  // User (session owner) signature over stateHash
+  // Empty if the session's approval policy does not need the owner
   user: string;
 
   // Engine signature over stateHash
   engine: string;
+
+  // Present when `user` was signed by a delegated session key
+  // instead of the owner (see SessionKeyDelegation)
+  delegation?: SessionKeyDelegation;
+
+  // Signatures of the other participants of a multi-party session
+  participants?: ParticipantSignature[];
+}
+
+export interface ParticipantSignature {
+  // Participant public key
+  signer: string;
+
+  // Signature over stateHash
+  signature: string;
+}
+
+// ============================================================================
+// MULTI-PARTY SESSIONS
+// ============================================================================
+
+/**
+ * Which participants must approve (sign) every state.
+ * The engine signs every state regardless of policy.
+ */
+export enum ApprovalPolicyType {
+  ALL = "ALL", // Every participant
+  THRESHOLD = "THRESHOLD", // At least `threshold` distinct participants
+  OWNER_AND_ENGINE = "OWNER_AND_ENGINE", // The owner (participants[0])
+}
+
+export interface ApprovalPolicy {
+  type: ApprovalPolicyType;
+
+  // Required approvals (THRESHOLD only)
+  threshold?: number;
+}
+
+/**
+ * ParticipantSet lists the traders sharing a session's pooled budget.
+ *
+ * participants[0] is the owner: their signature is StateSignatures.user
+ * (possibly through a session key delegation). Everyone else signs into
+ * StateSignatures.participants.
+ */
+export interface ParticipantSet {
+  // Participant public keys, owner first
+  participants: string[];
+
+  policy: ApprovalPolicy;
 }
 
 // ============================================================================
@@ -150,6 +347,7 @@ export interface Action {
   params: ActionParams;
 
   // Nonce at which action was applied
+  // (every action of a batch carries the nonce of the state it produced)
   nonce: number;
 
   // Timestamp of action submission
@@ -162,7 +360,7 @@ export enum ActionType {
   DEDUCT = "DEDUCT", // Reduce balance (simulate fees/costs)
   DEPOSIT = "DEPOSIT", // Increase balance (simulate income)
 
-  // Future action types (post-MVP)
+  // DeFi action types
   TRADE = "TRADE", // DEX trade
   LEND = "LEND", // Lending protocol interaction
   STAKE = "STAKE", // Staking operation
@@ -172,25 +370,83 @@ export enum ActionType {
  * ActionParams is a discriminated union based on ActionType.
  * Type-safe action parameters.
  */
-export type ActionParams = TransferParams | DeductParams | DepositParams;
+export type ActionParams =
+  | TransferParams
+  | DeductParams
+  | DepositParams
+  | TradeParams
+  | LendParams
+  | StakeParams;
 
 export interface TransferParams {
   asset: string;
   amount: bigint;
-  from: string;
-  to: string;
+  from: string; // Internal account debited
+  to: string; // Internal account credited
 }
 
 export interface DeductParams {
   asset: string;
   amount: bigint;
   reason: string;
+  account?: string; // Defaults to PRIMARY_ACCOUNT
 }
 
 export interface DepositParams {
   asset: string;
   amount: bigint;
   source: string;
+  account?: string; // Defaults to PRIMARY_ACCOUNT
+}
+
+/**
+ * TRADE swaps assetIn for assetOut at an executed fill.
+ * The fill must respect the price bound: amountOut >= minAmountOut.
+ *
+ * Settlement still requires each asset's total to stay within its locked
+ * amount, so a session must lock the assets it trades into.
+ */
+export interface TradeParams {
+  assetIn: string;
+  amountIn: bigint;
+  assetOut: string;
+  amountOut: bigint; // Executed output amount
+  minAmountOut: bigint; // Price bound (slippage protection)
+  account?: string; // Defaults to PRIMARY_ACCOUNT
+}
+
+export enum LendOperation {
+  SUPPLY = "SUPPLY", // Move balance into a lending position
+  WITHDRAW = "WITHDRAW", // Move balance out of a lending position
+}
+
+/**
+ * LEND supplies to or withdraws from a lending market.
+ * Supplied amounts are held in the market's position account.
+ */
+export interface LendParams {
+  operation: LendOperation;
+  asset: string;
+  amount: bigint;
+  marketId: string;
+  account?: string; // Defaults to PRIMARY_ACCOUNT
+}
+
+export enum StakeOperation {
+  STAKE = "STAKE", // Move balance into a staking position
+  UNSTAKE = "UNSTAKE", // Move balance out of a staking position
+}
+
+/**
+ * STAKE stakes with or unstakes from a validator.
+ * Staked amounts are held in the validator's position account.
+ */
+export interface StakeParams {
+  operation: StakeOperation;
+  asset: string;
+  amount: bigint;
+  validatorId: string;
+  account?: string; // Defaults to PRIMARY_ACCOUNT
 }
 
 // ============================================================================
@@ -218,18 +474,154 @@ export interface SettlementProof {
   finalState: SessionState;
 
   // Merkle root of complete action log (for compact verification)
+  // Single actions are proven against it with ActionInclusionProof
+  actionLogRoot: string;
+
+  // Total number of actions executed
+  totalActions: number;
+
+  // Final balances to be settled (per asset, summed across accounts)
+  finalBalances: Record<string, bigint>;
+
+  // Signature from user authorizing settlement
+  userSettlementSignature: string;
+}
+
+/**
+ * CompactSettlementProof settles a session without shipping every state's
+ * full action log. Its size grows linearly with the number of actions after
+ * the checkpoint, instead of quadratically like SettlementProof.
+ *
+ * Verification checks the same properties as a full proof:
+ * 1. Checkpoint hash matches its action log frontier
+ * 2. Each transition appends one action (or a batch) at its nonce and links
+ *    to the previous state
+ * 3. Every state (checkpoint included) has dual signatures
+ * 4. Final balances respect capital constraints
+ *
+ * A genesis checkpoint (nonce 0) covers the whole session. A later
+ * checkpoint is trusted on its dual signatures.
+ */
+export interface CompactSettlementProof {
+  // State the proof starts from
+  checkpoint: SessionStateHeader;
+
+  // Merkle frontier of the checkpoint's action log
+  checkpointLogFrontier: ActionLogFrontier;
+
+  // One witness per state after the checkpoint, in nonce order
+  transitions: StateTransitionWitness[];
+
+  // Final state (redundant but explicit)
+  finalState: SessionStateHeader;
+
+  // Merkle root of complete action log
   actionLogRoot: string;
 
   // Total number of actions executed
   totalActions: number;
 
-  // Final balances to be settled
+  // Final balances to be settled (per asset, summed across accounts)
   finalBalances: Record<string, bigint>;
 
   // Signature from user authorizing settlement
   userSettlementSignature: string;
 }
 
+/**
+ * StateTransitionWitness carries one state of a compact proof:
+ * the actions that produced it (one, or a batch) and the signed state header.
+ */
+export interface StateTransitionWitness {
+  actions: Action[];
+  state: SessionStateHeader;
+}
+
+/**
+ * ActionLogFrontier is the right edge (peaks) of an action log Merkle tree.
+ * It is enough to recompute the root and to append new actions.
+ */
+export interface ActionLogFrontier {
+  // Number of actions in the log
+  leafCount: number;
+
+  // Peak hashes, largest subtree first (one per set bit of leafCount)
+  peaks: string[];
+}
+
+/**
+ * ActionInclusionProof proves a single action is part of an action log
+ * committed to by a Merkle root (e.g. SettlementProof.actionLogRoot).
+ *
+ * Sibling sides are derived from leafIndex and leafCount, so the proof
+ * also binds the action's position in the log.
+ */
+export interface ActionInclusionProof {
+  // Nonce of the proven action
+  nonce: number;
+
+  // Position of the action in the log (0-based)
+  leafIndex: number;
+
+  // Total number of actions in the log
+  leafCount: number;
+
+  // Sibling hashes from leaf level up to the root
+  siblings: string[];
+}
+
+// ============================================================================
+// PAYOUTS
+// ============================================================================
+
+/**
+ * Why a payout is made at settlement.
+ */
+export enum PayoutKind {
+  OWNER_REFUND = "OWNER_REFUND", // Owner's accounts (primary, sub-accounts, positions)
+  TRANSFER = "TRANSFER", // Payee accounts credited by TRANSFER
+  OPERATOR_FEE = "OPERATOR_FEE", // Value deducted during the session
+  PROTOCOL_FEE = "PROTOCOL_FEE", // Protocol's share of the operator fees
+  TRADE_SETTLEMENT = "TRADE_SETTLEMENT", // Counterparty account (operator's liquidity and trade proceeds)
+}
+
+/**
+ * PayoutTerms fix who is paid fees at settlement.
+ * Agreed when the session is created, like the locked assets.
+ */
+export interface PayoutTerms {
+  // Receives value deducted during the session (engine / operator)
+  operator: string;
+
+  // Receives protocolFeeBps of the operator fees
+  protocol?: string;
+  protocolFeeBps?: number;
+}
+
+export interface Payout {
+  kind: PayoutKind;
+  recipient: string;
+  asset: string;
+  amount: bigint;
+}
+
+/**
+ * PayoutPlan is the explicit distribution of a session's locked assets
+ * at settlement. For every asset, payouts sum to exactly lockedAssets.
+ *
+ * Payouts are ordered by asset, then kind (refund, transfers, trade
+ * settlement, operator fee, protocol fee), then recipient; zero amounts
+ * are omitted.
+ */
+export interface PayoutPlan {
+  sessionId: string;
+
+  // State the plan was computed from
+  finalStateHash: string;
+
+  payouts: Payout[];
+}
+
 // ============================================================================
 // SESSION METADATA
 // ============================================================================
@@ -243,7 +635,10 @@ export interface SessionMetadata {
   ownerEns: string;
   ownerAddress: string;
 
-  // Maximum session duration (seconds)
+  // Session start timestamp (matches SessionObject.startTime)
+  startTime: number;
+
+  // Maximum session duration (seconds after startTime)
   maxDuration: number;
 
   // Timeout for settlement (seconds after end session called)
@@ -254,25 +649,86 @@ export interface SessionMetadata {
 
   // Per-action constraints (optional)
   actionConstraints?: ActionConstraints;
+
+  // Multi-party signers and approval policy (optional, owner and engine
+  // by default)
+  participants?: ParticipantSet;
+
+  // Fee recipients and protocol fee (optional)
+  payoutTerms?: PayoutTerms;
+
+  // Part of the locked assets the operator provides to fill TRADEs, held
+  // by the counterparty account (optional, none by default)
+  counterpartyLiquidity?: Record<string, bigint>;
 }
 
 export interface ActionConstraints {
   // Maximum balance deduction per action
   maxDeductionPerAction?: Record<string, bigint>;
 
-  // Maximum total deduction across session
+  // Maximum total deduction across session (summed over the action log)
   maxTotalDeduction?: Record<string, bigint>;
 
-  // Rate limiting (actions per second)
+  // Rate limiting (actions per second, by action timestamp)
   maxActionsPerSecond?: number;
 }
 
+// ============================================================================
+// SESSION KEY DELEGATION
+// ============================================================================
+
+/**
+ * SessionKeyDelegation authorizes an ephemeral session key to sign on the
+ * owner's behalf, so the main wallet signs once per session instead of
+ * once per action.
+ *
+ * The owner signs it as EIP-712 typed data. A delegated signature is only
+ * accepted for actions (or intents) inside its scope and before expiresAt.
+ */
+export interface SessionKeyDelegation {
+  // Session the key is scoped to
+  sessionId: string;
+
+  // Identity of the session key (flagged public key or EVM address)
+  sessionKey: string;
+
+  // What the key may do
+  scope: DelegationScope;
+
+  // Expiry timestamp (ms); compared against the engine's clock when an
+  // action executes (the state timestamp when replayed)
+  expiresAt: number;
+
+  // Owner signature over the delegation (typed data)
+  ownerSignature: string;
+}
+
+/**
+ * DelegationScope lists what a session key may sign.
+ * Everything not listed is denied.
+ */
+export interface DelegationScope {
+  // Action types the key may sign
+  allowedActionTypes: ActionType[];
+
+  // Intent types the key may sign (IntentType values of the AMM / hook)
+  allowedIntentTypes: string[];
+
+  // Assets the key's actions may touch
+  allowedAssets: string[];
+
+  // Maximum spend per asset over the delegation's lifetime
+  // An asset without a cap cannot be spent
+  spendCaps: Record<string, bigint>;
+}
+
 // ============================================================================
 // ENGINE TYPES
 // ============================================================================
 
 /**
  * EngineState tracks the off-chain engine's view of active sessions.
+ * Rebuilt from a SessionStore after a restart (restoreEngineState).
  */
 export interface EngineState {
   activeSessions: Map<string, SessionState>;
@@ -302,13 +758,26 @@ export enum RejectionReason {
 // CRYPTOGRAPHIC PRIMITIVES
 // ============================================================================
 
+/**
+ * Signature schemes supported for session identities.
+ * Values mirror Sui's signature scheme flag bytes.
+ */
+export enum SignatureScheme {
+  ED25519 = 0x00,
+  SECP256K1 = 0x01,
+}
+
 /**
  * KeyPair represents a cryptographic identity.
+ *
+ * Keys are hex-encoded and prefixed with their scheme flag byte,
+ * so any key can be used for signing or verification on its own.
  */
 export interface KeyPair {
   publicKey: string;
   privateKey: string;
   address: string;
+  scheme: SignatureScheme;
 }
 
 /**
@@ -0,0 +1,83 @@
+/**
+ * SessionFi Crypto Backend
+ *
+ * Async hashing backend injected into the session engine and settlement
+ * verifier, so the same code runs in Node and the browser.
+ *
+ * Backends:
+ * - webCryptoBackend: crypto.subtle (browsers, Node >= 19)
+ * - pureJsBackend: @noble/hashes (any runtime, no platform crypto needed)
+ *
+ * Every backend computes standard SHA-256, so state hashes are
+ * byte-identical whichever backend (or runtime) produced them.
+ * Signing is injected separately through Signer / Verifier.
+ */
+
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * CryptoBackend provides the hash function used for state commitments.
+ */
+export interface CryptoBackend {
+  readonly name: string;
+
+  // SHA-256 digest of raw bytes
+  sha256(data: Uint8Array): Promise<Uint8Array>;
+}
+
+// ============================================================================
+// BACKENDS
+// ============================================================================
+
+/**
+ * Pure-JavaScript SHA-256. Works everywhere.
+ */
+export const pureJsBackend: CryptoBackend = {
+  name: "pure-js",
+
+  async sha256(data: Uint8Array): Promise<Uint8Array> {
+    return sha256(data);
+  },
+};
+
+/**
+ * Web Crypto SHA-256 (native in browsers and Node >= 19).
+ */
+export const webCryptoBackend: CryptoBackend = {
+  name: "web-crypto",
+
+  async sha256(data: Uint8Array): Promise<Uint8Array> {
+    const digest = await globalThis.crypto.subtle.digest(
+      "SHA-256",
+      data as BufferSource,
+    );
+    return new Uint8Array(digest);
+  },
+};
+
+/**
+ * Pick the best backend for the current runtime.
+ * Web Crypto if available, pure JavaScript otherwise.
+ */
+export function getDefaultCryptoBackend(): CryptoBackend {
+  return globalThis.crypto?.subtle ? webCryptoBackend : pureJsBackend;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex.
+ */
+export async function hashStringWith(
+  backend: CryptoBackend,
+  data: string,
+): Promise<string> {
+  return bytesToHex(await backend.sha256(utf8ToBytes(data)));
+}
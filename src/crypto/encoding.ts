@@ -0,0 +1,1045 @@
+/**
+ * SessionFi Canonical Binary Encoding
+ *
+ * Versioned binary encodings of Action, SessionState, SettlementProof and
+ * PayoutPlan, so on-chain code can recompute off-chain commitments:
+ * - BCS: Sui / Move (bcs::to_bytes, std::hash::sha2_256)
+ * - ABI: EVM / Solidity (abi.encode, keccak256)
+ *
+ * Both formats encode the same fields in the same order. Every top-level
+ * encoding starts with ENCODING_VERSION, and decoders reject any other.
+ *
+ * The protocol's stateHash is SHA-256 over the BCS state commitment
+ * (encodeStateCommitment), which Move settlement recomputes. EVM contracts
+ * (SessionFiHook) hash ABI state commitments instead, recomputed off-chain
+ * by computeAbiStateHash: keccak256 over the ABI state commitment.
+ *
+ * On-chain recomputation:
+ * ```move
+ * let hash = std::hash::sha2_256(bcs::to_bytes(&commitment));
+ * ```
+ * ```solidity
+ * bytes32 hash = keccak256(abi.encode(uint8(1), commitment));
+ * ```
+ *
+ * Field conventions:
+ * - Amounts are u256 / uint256
+ * - Nonces and timestamps (ms) are u64 / uint64
+ * - Hashes are raw bytes; an empty previousStateHash means genesis
+ * - Optional accounts are Option<string> in BCS and "" in ABI
+ * - Signatures are strings (their format depends on the signer)
+ * - A session key delegation is Option<Delegation> in BCS and a
+ *   zero- or one-element array in ABI
+ * - Participant signatures (multi-party sessions) are a vector of
+ *   (signer, signature), empty for single-owner sessions
+ * - A checkpoint constraint carry is Option<ConstraintCarry> in BCS and a
+ *   zero- or one-element array in ABI
+ */
+
+import { bcs } from "@mysten/bcs";
+import { ethers } from "ethers";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  AccountBalances,
+  Action,
+  ActionParams,
+  ActionType,
+  ConstraintCarry,
+  DeductParams,
+  DepositParams,
+  LendOperation,
+  LendParams,
+  Payout,
+  PayoutKind,
+  PayoutPlan,
+  SessionKeyDelegation,
+  SessionState,
+  SettlementProof,
+  StateSignatures,
+  StakeOperation,
+  StakeParams,
+  TradeParams,
+  TransferParams,
+} from "../core/types";
+import { sortedBalanceEntries } from "../core/balances";
+
+// ============================================================================
+// VERSIONING
+// ============================================================================
+
+/**
+ * Current encoding version (first field of every top-level encoding).
+ */
+export const ENCODING_VERSION = 1;
+
+/**
+ * Target chain encoding.
+ */
+export enum EncodingFormat {
+  BCS = "BCS", // Sui / Move
+  ABI = "ABI", // EVM / Solidity
+}
+
+/**
+ * Action type codes, shared by the BCS enum index and the ABI uint8.
+ * Append only: reordering changes every encoded action.
+ */
+const ACTION_TYPE_CODES: ActionType[] = [
+  ActionType.TRANSFER,
+  ActionType.DEDUCT,
+  ActionType.DEPOSIT,
+  ActionType.TRADE,
+  ActionType.LEND,
+  ActionType.STAKE,
+];
+
+const LEND_OPERATION_CODES: LendOperation[] = [
+  LendOperation.SUPPLY,
+  LendOperation.WITHDRAW,
+];
+
+const STAKE_OPERATION_CODES: StakeOperation[] = [
+  StakeOperation.STAKE,
+  StakeOperation.UNSTAKE,
+];
+
+const PAYOUT_KIND_CODES: PayoutKind[] = [
+  PayoutKind.OWNER_REFUND,
+  PayoutKind.TRANSFER,
+  PayoutKind.OPERATOR_FEE,
+  PayoutKind.PROTOCOL_FEE,
+  PayoutKind.TRADE_SETTLEMENT,
+];
+
+function codeOf<T>(codes: T[], value: T, what: string): number {
+  const code = codes.indexOf(value);
+  if (code === -1) {
+    throw new Error(`Cannot encode ${what}: ${String(value)}`);
+  }
+  return code;
+}
+
+function valueOf<T>(codes: T[], code: number, what: string): T {
+  if (!Number.isInteger(code) || code < 0 || code >= codes.length) {
+    throw new Error(`Cannot decode ${what}: unknown code ${code}`);
+  }
+  return codes[code];
+}
+
+function checkVersion(version: number): void {
+  if (version !== ENCODING_VERSION) {
+    throw new Error(
+      `Unsupported encoding version ${version}, expected ${ENCODING_VERSION}`,
+    );
+  }
+}
+
+// ============================================================================
+// BCS SCHEMA
+// ============================================================================
+
+const BcsAccount = bcs.option(bcs.string());
+
+const BcsActionParams = bcs.enum("ActionParams", {
+  TRANSFER: bcs.struct("TransferParams", {
+    asset: bcs.string(),
+    amount: bcs.u256(),
+    from: bcs.string(),
+    to: bcs.string(),
+  }),
+  DEDUCT: bcs.struct("DeductParams", {
+    asset: bcs.string(),
+    amount: bcs.u256(),
+    reason: bcs.string(),
+    account: BcsAccount,
+  }),
+  DEPOSIT: bcs.struct("DepositParams", {
+    asset: bcs.string(),
+    amount: bcs.u256(),
+    source: bcs.string(),
+    account: BcsAccount,
+  }),
+  TRADE: bcs.struct("TradeParams", {
+    assetIn: bcs.string(),
+    amountIn: bcs.u256(),
+    assetOut: bcs.string(),
+    amountOut: bcs.u256(),
+    minAmountOut: bcs.u256(),
+    account: BcsAccount,
+  }),
+  LEND: bcs.struct("LendParams", {
+    operation: bcs.u8(),
+    asset: bcs.string(),
+    amount: bcs.u256(),
+    marketId: bcs.string(),
+    account: BcsAccount,
+  }),
+  STAKE: bcs.struct("StakeParams", {
+    operation: bcs.u8(),
+    asset: bcs.string(),
+    amount: bcs.u256(),
+    validatorId: bcs.string(),
+    account: BcsAccount,
+  }),
+});
+
+const BcsAction = bcs.struct("Action", {
+  nonce: bcs.u64(),
+  timestamp: bcs.u64(),
+  params: BcsActionParams,
+});
+
+const BcsBalanceEntry = bcs.struct("BalanceEntry", {
+  account: bcs.string(),
+  asset: bcs.string(),
+  amount: bcs.u256(),
+});
+
+const BcsAssetAmount = bcs.struct("AssetAmount", {
+  asset: bcs.string(),
+  amount: bcs.u256(),
+});
+
+const BcsConstraintCarry = bcs.struct("ConstraintCarry", {
+  totalDeductions: bcs.vector(BcsAssetAmount),
+  recentActionTimestamps: bcs.vector(bcs.u64()),
+});
+
+const BcsStateCommitment = bcs.struct("StateCommitment", {
+  version: bcs.u8(),
+  sessionId: bcs.string(),
+  nonce: bcs.u64(),
+  balances: bcs.vector(BcsBalanceEntry),
+  previousStateHash: bcs.byteVector(),
+  actionLogRoot: bcs.byteVector(),
+  carry: bcs.option(BcsConstraintCarry),
+});
+
+const BcsSessionKeyDelegation = bcs.struct("SessionKeyDelegation", {
+  sessionId: bcs.string(),
+  sessionKey: bcs.string(),
+  allowedActionTypes: bcs.vector(bcs.u8()),
+  allowedIntentTypes: bcs.vector(bcs.string()),
+  allowedAssets: bcs.vector(bcs.string()),
+  spendCaps: bcs.vector(BcsAssetAmount),
+  expiresAt: bcs.u64(),
+  ownerSignature: bcs.string(),
+});
+
+const BcsParticipantSignature = bcs.struct("ParticipantSignature", {
+  signer: bcs.string(),
+  signature: bcs.string(),
+});
+
+const BcsSessionState = bcs.struct("SessionState", {
+  sessionId: bcs.string(),
+  nonce: bcs.u64(),
+  balances: bcs.vector(BcsBalanceEntry),
+  previousStateHash: bcs.byteVector(),
+  stateHash: bcs.byteVector(),
+  actionLog: bcs.vector(BcsAction),
+  signatures: bcs.struct("StateSignatures", {
+    user: bcs.string(),
+    engine: bcs.string(),
+    delegation: bcs.option(BcsSessionKeyDelegation),
+    participants: bcs.vector(BcsParticipantSignature),
+  }),
+  timestamp: bcs.u64(),
+  carry: bcs.option(BcsConstraintCarry),
+});
+
+const BcsVersionedAction = bcs.struct("VersionedAction", {
+  version: bcs.u8(),
+  action: BcsAction,
+});
+
+const BcsVersionedSessionState = bcs.struct("VersionedSessionState", {
+  version: bcs.u8(),
+  state: BcsSessionState,
+});
+
+const BcsSettlementProof = bcs.struct("SettlementProof", {
+  version: bcs.u8(),
+  stateHistory: bcs.vector(BcsSessionState),
+  finalState: BcsSessionState,
+  actionLogRoot: bcs.byteVector(),
+  totalActions: bcs.u64(),
+  finalBalances: bcs.vector(BcsAssetAmount),
+  userSettlementSignature: bcs.string(),
+});
+
+const BcsPayoutPlan = bcs.struct("PayoutPlan", {
+  version: bcs.u8(),
+  sessionId: bcs.string(),
+  finalStateHash: bcs.byteVector(),
+  payouts: bcs.vector(
+    bcs.struct("Payout", {
+      kind: bcs.u8(),
+      recipient: bcs.string(),
+      asset: bcs.string(),
+      amount: bcs.u256(),
+    }),
+  ),
+});
+
+// ============================================================================
+// ABI SCHEMA
+// ============================================================================
+
+const ABI_ACTION_PARAMS: Record<ActionType, string> = {
+  [ActionType.TRANSFER]:
+    "tuple(string asset, uint256 amount, string from, string to)",
+  [ActionType.DEDUCT]:
+    "tuple(string asset, uint256 amount, string reason, string account)",
+  [ActionType.DEPOSIT]:
+    "tuple(string asset, uint256 amount, string source, string account)",
+  [ActionType.TRADE]:
+    "tuple(string assetIn, uint256 amountIn, string assetOut, uint256 amountOut, uint256 minAmountOut, string account)",
+  [ActionType.LEND]:
+    "tuple(uint8 operation, string asset, uint256 amount, string marketId, string account)",
+  [ActionType.STAKE]:
+    "tuple(uint8 operation, string asset, uint256 amount, string validatorId, string account)",
+};
+
+// Params are ABI-encoded on their own and carried as bytes
+const ABI_ACTION =
+  "tuple(uint8 actionType, uint64 nonce, uint64 timestamp, bytes params)";
+
+const ABI_BALANCE_ENTRY = "tuple(string account, string asset, uint256 amount)";
+
+const ABI_ASSET_AMOUNT = "tuple(string asset, uint256 amount)";
+
+const ABI_CONSTRAINT_CARRY = `tuple(${ABI_ASSET_AMOUNT}[] totalDeductions, uint64[] recentActionTimestamps)`;
+
+const ABI_STATE_COMMITMENT = `tuple(string sessionId, uint64 nonce, ${ABI_BALANCE_ENTRY}[] balances, bytes previousStateHash, bytes32 actionLogRoot, ${ABI_CONSTRAINT_CARRY}[] carry)`;
+
+const ABI_DELEGATION = `tuple(string sessionId, string sessionKey, uint8[] allowedActionTypes, string[] allowedIntentTypes, string[] allowedAssets, ${ABI_ASSET_AMOUNT}[] spendCaps, uint64 expiresAt, string ownerSignature)`;
+
+const ABI_PARTICIPANT_SIGNATURE = "tuple(string signer, string signature)";
+
+const ABI_SESSION_STATE = `tuple(string sessionId, uint64 nonce, ${ABI_BALANCE_ENTRY}[] balances, bytes previousStateHash, bytes32 stateHash, ${ABI_ACTION}[] actionLog, tuple(string user, string engine, ${ABI_DELEGATION}[] delegation, ${ABI_PARTICIPANT_SIGNATURE}[] participants) signatures, uint64 timestamp, ${ABI_CONSTRAINT_CARRY}[] carry)`;
+
+const ABI_SETTLEMENT_PROOF = `tuple(${ABI_SESSION_STATE}[] stateHistory, ${ABI_SESSION_STATE} finalState, bytes32 actionLogRoot, uint64 totalActions, ${ABI_ASSET_AMOUNT}[] finalBalances, string userSettlementSignature)`;
+
+const ABI_PAYOUT_PLAN =
+  "tuple(string sessionId, bytes32 finalStateHash, tuple(uint8 kind, string recipient, string asset, uint256 amount)[] payouts)";
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+// ============================================================================
+// FIELD CONVERSION
+// ============================================================================
+
+/**
+ * Hex hash -> bytes (null -> empty, for genesis previousStateHash).
+ */
+function hashToBytes(hash: string | null): Uint8Array {
+  return hash ? hexToBytes(hash.replace(/^0x/, "")) : new Uint8Array(0);
+}
+
+/**
+ * Bytes -> hex hash (empty -> null).
+ */
+function bytesToHash(bytes: Uint8Array | string): string | null {
+  const raw = typeof bytes === "string" ? ethers.getBytes(bytes) : bytes;
+  return raw.length === 0 ? null : bytesToHex(raw);
+}
+
+function balancesToEntries(balances: AccountBalances) {
+  return sortedBalanceEntries(balances).map(([account, asset, amount]) => ({
+    account,
+    asset,
+    amount,
+  }));
+}
+
+function entriesToBalances(
+  entries: Array<{ account: string; asset: string; amount: string | bigint }>,
+): AccountBalances {
+  const balances: AccountBalances = {};
+  for (const { account, asset, amount } of entries) {
+    balances[account] = { ...balances[account], [asset]: BigInt(amount) };
+  }
+  return balances;
+}
+
+function assetAmountsToRecord(
+  entries: Array<{ asset: string; amount: string | bigint }>,
+): Record<string, bigint> {
+  const record: Record<string, bigint> = {};
+  for (const { asset, amount } of entries) {
+    record[asset] = BigInt(amount);
+  }
+  return record;
+}
+
+function recordToAssetAmounts(record: Record<string, bigint>) {
+  return Object.keys(record)
+    .sort()
+    .map((asset) => ({ asset, amount: record[asset] }));
+}
+
+/**
+ * Delegation -> fields shared by BCS and ABI.
+ */
+function delegationToFields(delegation: SessionKeyDelegation) {
+  return {
+    sessionId: delegation.sessionId,
+    sessionKey: delegation.sessionKey,
+    allowedActionTypes: delegation.scope.allowedActionTypes.map((type) =>
+      codeOf(ACTION_TYPE_CODES, type, "action type"),
+    ),
+    allowedIntentTypes: delegation.scope.allowedIntentTypes,
+    allowedAssets: delegation.scope.allowedAssets,
+    spendCaps: recordToAssetAmounts(delegation.scope.spendCaps),
+    expiresAt: delegation.expiresAt,
+    ownerSignature: delegation.ownerSignature,
+  };
+}
+
+function delegationFromFields(value: any): SessionKeyDelegation {
+  return {
+    sessionId: value.sessionId,
+    sessionKey: value.sessionKey,
+    scope: {
+      allowedActionTypes: Array.from(value.allowedActionTypes, (code) =>
+        valueOf(ACTION_TYPE_CODES, Number(code), "action type"),
+      ),
+      allowedIntentTypes: [...value.allowedIntentTypes],
+      allowedAssets: [...value.allowedAssets],
+      spendCaps: assetAmountsToRecord(value.spendCaps),
+    },
+    expiresAt: Number(value.expiresAt),
+    ownerSignature: value.ownerSignature,
+  };
+}
+
+/**
+ * Constraint carry -> fields shared by BCS and ABI.
+ */
+function carryToFields(carry: ConstraintCarry) {
+  return {
+    totalDeductions: recordToAssetAmounts(carry.totalDeductions),
+    recentActionTimestamps: carry.recentActionTimestamps,
+  };
+}
+
+function carryFromFields(value: any): ConstraintCarry {
+  return {
+    totalDeductions: assetAmountsToRecord(value.totalDeductions),
+    recentActionTimestamps: Array.from(value.recentActionTimestamps, Number),
+  };
+}
+
+function signaturesFromFields(
+  user: string,
+  engine: string,
+  delegation: any,
+  participants: any[],
+): StateSignatures {
+  return {
+    user,
+    engine,
+    ...(delegation && { delegation: delegationFromFields(delegation) }),
+    ...(participants.length > 0 && {
+      participants: participants.map((participant) => ({
+        signer: participant.signer,
+        signature: participant.signature,
+      })),
+    }),
+  };
+}
+
+// ============================================================================
+// ACTION PARAMS
+// ============================================================================
+
+/**
+ * Flatten action params into the field order shared by BCS and ABI.
+ * Optional accounts are returned as null.
+ */
+function paramsToFields(action: Action): Record<string, unknown> {
+  switch (action.type) {
+    case ActionType.TRANSFER: {
+      const p = action.params as TransferParams;
+      return { asset: p.asset, amount: p.amount, from: p.from, to: p.to };
+    }
+    case ActionType.DEDUCT: {
+      const p = action.params as DeductParams;
+      return {
+        asset: p.asset,
+        amount: p.amount,
+        reason: p.reason,
+        account: p.account ?? null,
+      };
+    }
+    case ActionType.DEPOSIT: {
+      const p = action.params as DepositParams;
+      return {
+        asset: p.asset,
+        amount: p.amount,
+        source: p.source,
+        account: p.account ?? null,
+      };
+    }
+    case ActionType.TRADE: {
+      const p = action.params as TradeParams;
+      return {
+        assetIn: p.assetIn,
+        amountIn: p.amountIn,
+        assetOut: p.assetOut,
+        amountOut: p.amountOut,
+        minAmountOut: p.minAmountOut,
+        account: p.account ?? null,
+      };
+    }
+    case ActionType.LEND: {
+      const p = action.params as LendParams;
+      return {
+        operation: codeOf(LEND_OPERATION_CODES, p.operation, "lend operation"),
+        asset: p.asset,
+        amount: p.amount,
+        marketId: p.marketId,
+        account: p.account ?? null,
+      };
+    }
+    case ActionType.STAKE: {
+      const p = action.params as StakeParams;
+      return {
+        operation: codeOf(
+          STAKE_OPERATION_CODES,
+          p.operation,
+          "stake operation",
+        ),
+        asset: p.asset,
+        amount: p.amount,
+        validatorId: p.validatorId,
+        account: p.account ?? null,
+      };
+    }
+    default:
+      throw new Error(`Cannot encode action type: ${action.type}`);
+  }
+}
+
+/**
+ * Rebuild action params from decoded fields (either format).
+ * Absent ("" or null) accounts are omitted, as the action builders do.
+ */
+function fieldsToParams(
+  type: ActionType,
+  f: Record<string, any>,
+): ActionParams {
+  const account = f.account ? { account: String(f.account) } : {};
+
+  switch (type) {
+    case ActionType.TRANSFER:
+      return {
+        asset: f.asset,
+        amount: BigInt(f.amount),
+        from: f.from,
+        to: f.to,
+      };
+    case ActionType.DEDUCT:
+      return {
+        asset: f.asset,
+        amount: BigInt(f.amount),
+        reason: f.reason,
+        ...account,
+      };
+    case ActionType.DEPOSIT:
+      return {
+        asset: f.asset,
+        amount: BigInt(f.amount),
+        source: f.source,
+        ...account,
+      };
+    case ActionType.TRADE:
+      return {
+        assetIn: f.assetIn,
+        amountIn: BigInt(f.amountIn),
+        assetOut: f.assetOut,
+        amountOut: BigInt(f.amountOut),
+        minAmountOut: BigInt(f.minAmountOut),
+        ...account,
+      };
+    case ActionType.LEND:
+      return {
+        operation: valueOf(
+          LEND_OPERATION_CODES,
+          Number(f.operation),
+          "lend operation",
+        ),
+        asset: f.asset,
+        amount: BigInt(f.amount),
+        marketId: f.marketId,
+        ...account,
+      };
+    case ActionType.STAKE:
+      return {
+        operation: valueOf(
+          STAKE_OPERATION_CODES,
+          Number(f.operation),
+          "stake operation",
+        ),
+        asset: f.asset,
+        amount: BigInt(f.amount),
+        validatorId: f.validatorId,
+        ...account,
+      };
+  }
+}
+
+// ============================================================================
+// BCS CONVERSION
+// ============================================================================
+
+function actionToBcs(action: Action) {
+  codeOf(ACTION_TYPE_CODES, action.type, "action type");
+  return {
+    nonce: action.nonce,
+    timestamp: action.timestamp,
+    params: { [action.type]: paramsToFields(action) },
+  } as any;
+}
+
+function actionFromBcs(value: any): Action {
+  const type = value.params.$kind as ActionType;
+  return {
+    type,
+    nonce: Number(value.nonce),
+    timestamp: Number(value.timestamp),
+    params: fieldsToParams(type, value.params[type]),
+  };
+}
+
+function stateToBcs(state: SessionState) {
+  return {
+    sessionId: state.sessionId,
+    nonce: state.nonce,
+    balances: balancesToEntries(state.balances),
+    previousStateHash: hashToBytes(state.previousStateHash),
+    stateHash: hashToBytes(state.stateHash),
+    actionLog: state.actionLog.map(actionToBcs),
+    signatures: {
+      user: state.signatures.user,
+      engine: state.signatures.engine,
+      delegation: state.signatures.delegation
+        ? delegationToFields(state.signatures.delegation)
+        : null,
+      participants: state.signatures.participants ?? [],
+    },
+    timestamp: state.timestamp,
+    carry: state.carry ? carryToFields(state.carry) : null,
+  };
+}
+
+function stateFromBcs(value: any): SessionState {
+  return {
+    sessionId: value.sessionId,
+    nonce: Number(value.nonce),
+    balances: entriesToBalances(value.balances),
+    previousStateHash: bytesToHash(value.previousStateHash),
+    stateHash: bytesToHash(value.stateHash) ?? "",
+    actionLog: value.actionLog.map(actionFromBcs),
+    signatures: signaturesFromFields(
+      value.signatures.user,
+      value.signatures.engine,
+      value.signatures.delegation,
+      value.signatures.participants,
+    ),
+    timestamp: Number(value.timestamp),
+    ...(value.carry && { carry: carryFromFields(value.carry) }),
+  };
+}
+
+// ============================================================================
+// ABI CONVERSION
+// ============================================================================
+
+function actionToAbi(action: Action) {
+  const type = action.type;
+  const fields = paramsToFields(action);
+  if ("account" in fields && fields.account === null) {
+    fields.account = "";
+  }
+
+  return {
+    actionType: codeOf(ACTION_TYPE_CODES, type, "action type"),
+    nonce: action.nonce,
+    timestamp: action.timestamp,
+    params: abiCoder.encode([ABI_ACTION_PARAMS[type]], [fields]),
+  };
+}
+
+function actionFromAbi(value: any): Action {
+  const type = valueOf(
+    ACTION_TYPE_CODES,
+    Number(value.actionType),
+    "action type",
+  );
+  const [fields] = abiCoder.decode([ABI_ACTION_PARAMS[type]], value.params);
+
+  return {
+    type,
+    nonce: Number(value.nonce),
+    timestamp: Number(value.timestamp),
+    params: fieldsToParams(type, fields.toObject()),
+  };
+}
+
+function stateToAbi(state: SessionState) {
+  return {
+    sessionId: state.sessionId,
+    nonce: state.nonce,
+    balances: balancesToEntries(state.balances),
+    previousStateHash: hashToBytes(state.previousStateHash),
+    stateHash: hashToBytes(state.stateHash),
+    actionLog: state.actionLog.map(actionToAbi),
+    signatures: {
+      user: state.signatures.user,
+      engine: state.signatures.engine,
+      delegation: state.signatures.delegation
+        ? [delegationToFields(state.signatures.delegation)]
+        : [],
+      participants: state.signatures.participants ?? [],
+    },
+    timestamp: state.timestamp,
+    carry: state.carry ? [carryToFields(state.carry)] : [],
+  };
+}
+
+function stateFromAbi(value: any): SessionState {
+  return {
+    sessionId: value.sessionId,
+    nonce: Number(value.nonce),
+    balances: entriesToBalances(
+      value.balances.map((entry: ethers.Result) => entry.toObject()),
+    ),
+    previousStateHash: bytesToHash(value.previousStateHash),
+    stateHash: bytesToHash(value.stateHash) ?? "",
+    actionLog: value.actionLog.map(actionFromAbi),
+    signatures: signaturesFromFields(
+      value.signatures.user,
+      value.signatures.engine,
+      value.signatures.delegation.length > 0
+        ? value.signatures.delegation[0]
+        : null,
+      value.signatures.participants,
+    ),
+    timestamp: Number(value.timestamp),
+    ...(value.carry.length > 0 && { carry: carryFromFields(value.carry[0]) }),
+  };
+}
+
+// ============================================================================
+// ACTION
+// ============================================================================
+
+/**
+ * Encode an action.
+ */
+export function encodeAction(
+  action: Action,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Uint8Array {
+  if (format === EncodingFormat.ABI) {
+    return ethers.getBytes(
+      abiCoder.encode(
+        ["uint8", ABI_ACTION],
+        [ENCODING_VERSION, actionToAbi(action)],
+      ),
+    );
+  }
+
+  return BcsVersionedAction.serialize({
+    version: ENCODING_VERSION,
+    action: actionToBcs(action),
+  }).toBytes();
+}
+
+/**
+ * Decode an action encoded by encodeAction.
+ * Throws on malformed input or unsupported version.
+ */
+export function decodeAction(
+  bytes: Uint8Array,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Action {
+  if (format === EncodingFormat.ABI) {
+    const [version, action] = abiCoder.decode(["uint8", ABI_ACTION], bytes);
+    checkVersion(Number(version));
+    return actionFromAbi(action);
+  }
+
+  const decoded = BcsVersionedAction.parse(bytes);
+  checkVersion(decoded.version);
+  return actionFromBcs(decoded.action);
+}
+
+// ============================================================================
+// STATE COMMITMENT
+// ============================================================================
+
+/**
+ * Encode the fields a state hash commits to.
+ *
+ * This is the preimage of SessionState.stateHash (SHA-256 over the BCS
+ * encoding). The action log is committed through its Merkle root, and
+ * a checkpoint constraint carry (when present) in full.
+ */
+export function encodeStateCommitment(
+  sessionId: string,
+  nonce: number,
+  balances: AccountBalances,
+  previousStateHash: string | null,
+  actionLogRoot: string,
+  carry?: ConstraintCarry,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Uint8Array {
+  if (format === EncodingFormat.ABI) {
+    return ethers.getBytes(
+      abiCoder.encode(
+        ["uint8", ABI_STATE_COMMITMENT],
+        [
+          ENCODING_VERSION,
+          {
+            sessionId,
+            nonce,
+            balances: balancesToEntries(balances),
+            previousStateHash: hashToBytes(previousStateHash),
+            actionLogRoot: hashToBytes(actionLogRoot),
+            carry: carry ? [carryToFields(carry)] : [],
+          },
+        ],
+      ),
+    );
+  }
+
+  return BcsStateCommitment.serialize({
+    version: ENCODING_VERSION,
+    sessionId,
+    nonce,
+    balances: balancesToEntries(balances),
+    previousStateHash: hashToBytes(previousStateHash),
+    actionLogRoot: hashToBytes(actionLogRoot),
+    carry: carry ? carryToFields(carry) : null,
+  }).toBytes();
+}
+
+/**
+ * EVM state hash: keccak256 over the ABI state commitment.
+ * Recomputable in Solidity as keccak256(abi.encode(version, commitment)).
+ */
+export function computeAbiStateHash(
+  state: Pick<
+    SessionState,
+    "sessionId" | "nonce" | "balances" | "previousStateHash" | "carry"
+  >,
+  actionLogRoot: string,
+): string {
+  return ethers.keccak256(
+    encodeStateCommitment(
+      state.sessionId,
+      state.nonce,
+      state.balances,
+      state.previousStateHash,
+      actionLogRoot,
+      state.carry,
+      EncodingFormat.ABI,
+    ),
+  );
+}
+
+// ============================================================================
+// SESSION STATE
+// ============================================================================
+
+/**
+ * Encode a complete session state (including action log and signatures).
+ */
+export function encodeSessionState(
+  state: SessionState,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Uint8Array {
+  if (format === EncodingFormat.ABI) {
+    return ethers.getBytes(
+      abiCoder.encode(
+        ["uint8", ABI_SESSION_STATE],
+        [ENCODING_VERSION, stateToAbi(state)],
+      ),
+    );
+  }
+
+  return BcsVersionedSessionState.serialize({
+    version: ENCODING_VERSION,
+    state: stateToBcs(state),
+  }).toBytes();
+}
+
+/**
+ * Decode a session state encoded by encodeSessionState.
+ * Throws on malformed input or unsupported version.
+ */
+export function decodeSessionState(
+  bytes: Uint8Array,
+  format: EncodingFormat = EncodingFormat.BCS,
+): SessionState {
+  if (format === EncodingFormat.ABI) {
+    const [version, state] = abiCoder.decode(
+      ["uint8", ABI_SESSION_STATE],
+      bytes,
+    );
+    checkVersion(Number(version));
+    return stateFromAbi(state);
+  }
+
+  const decoded = BcsVersionedSessionState.parse(bytes);
+  checkVersion(decoded.version);
+  return stateFromBcs(decoded.state);
+}
+
+// ============================================================================
+// SETTLEMENT PROOF
+// ============================================================================
+
+/**
+ * Encode a settlement proof for on-chain submission.
+ */
+export function encodeSettlementProof(
+  proof: SettlementProof,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Uint8Array {
+  if (format === EncodingFormat.ABI) {
+    return ethers.getBytes(
+      abiCoder.encode(
+        ["uint8", ABI_SETTLEMENT_PROOF],
+        [
+          ENCODING_VERSION,
+          {
+            stateHistory: proof.stateHistory.map(stateToAbi),
+            finalState: stateToAbi(proof.finalState),
+            actionLogRoot: hashToBytes(proof.actionLogRoot),
+            totalActions: proof.totalActions,
+            finalBalances: recordToAssetAmounts(proof.finalBalances),
+            userSettlementSignature: proof.userSettlementSignature,
+          },
+        ],
+      ),
+    );
+  }
+
+  return BcsSettlementProof.serialize({
+    version: ENCODING_VERSION,
+    stateHistory: proof.stateHistory.map(stateToBcs),
+    finalState: stateToBcs(proof.finalState),
+    actionLogRoot: hashToBytes(proof.actionLogRoot),
+    totalActions: proof.totalActions,
+    finalBalances: recordToAssetAmounts(proof.finalBalances),
+    userSettlementSignature: proof.userSettlementSignature,
+  }).toBytes();
+}
+
+/**
+ * Decode a settlement proof encoded by encodeSettlementProof.
+ * Throws on malformed input or unsupported version.
+ */
+export function decodeSettlementProof(
+  bytes: Uint8Array,
+  format: EncodingFormat = EncodingFormat.BCS,
+): SettlementProof {
+  if (format === EncodingFormat.ABI) {
+    const [version, proof] = abiCoder.decode(
+      ["uint8", ABI_SETTLEMENT_PROOF],
+      bytes,
+    );
+    checkVersion(Number(version));
+    return {
+      stateHistory: proof.stateHistory.map(stateFromAbi),
+      finalState: stateFromAbi(proof.finalState),
+      actionLogRoot: bytesToHash(proof.actionLogRoot) ?? "",
+      totalActions: Number(proof.totalActions),
+      finalBalances: assetAmountsToRecord(
+        proof.finalBalances.map((entry: ethers.Result) => entry.toObject()),
+      ),
+      userSettlementSignature: proof.userSettlementSignature,
+    };
+  }
+
+  const decoded = BcsSettlementProof.parse(bytes);
+  checkVersion(decoded.version);
+  return {
+    stateHistory: decoded.stateHistory.map(stateFromBcs),
+    finalState: stateFromBcs(decoded.finalState),
+    actionLogRoot: bytesToHash(decoded.actionLogRoot) ?? "",
+    totalActions: Number(decoded.totalActions),
+    finalBalances: assetAmountsToRecord(decoded.finalBalances),
+    userSettlementSignature: decoded.userSettlementSignature,
+  };
+}
+
+// ============================================================================
+// PAYOUT PLAN
+// ============================================================================
+
+/**
+ * Encode a payout plan for the settlement contract to execute.
+ * Payouts keep the plan's order.
+ */
+export function encodePayoutPlan(
+  plan: PayoutPlan,
+  format: EncodingFormat = EncodingFormat.BCS,
+): Uint8Array {
+  const fields = {
+    sessionId: plan.sessionId,
+    finalStateHash: hashToBytes(plan.finalStateHash),
+    payouts: plan.payouts.map((payout) => ({
+      kind: codeOf(PAYOUT_KIND_CODES, payout.kind, "payout kind"),
+      recipient: payout.recipient,
+      asset: payout.asset,
+      amount: payout.amount,
+    })),
+  };
+
+  if (format === EncodingFormat.ABI) {
+    return ethers.getBytes(
+      abiCoder.encode(["uint8", ABI_PAYOUT_PLAN], [ENCODING_VERSION, fields]),
+    );
+  }
+
+  return BcsPayoutPlan.serialize({
+    version: ENCODING_VERSION,
+    ...fields,
+  }).toBytes();
+}
+
+/**
+ * Decode a payout plan encoded by encodePayoutPlan.
+ * Throws on malformed input or unsupported version.
+ */
+export function decodePayoutPlan(
+  bytes: Uint8Array,
+  format: EncodingFormat = EncodingFormat.BCS,
+): PayoutPlan {
+  let decoded: any;
+
+  if (format === EncodingFormat.ABI) {
+    const [version, plan] = abiCoder.decode(["uint8", ABI_PAYOUT_PLAN], bytes);
+    checkVersion(Number(version));
+    decoded = plan;
+  } else {
+    decoded = BcsPayoutPlan.parse(bytes);
+    checkVersion(decoded.version);
+  }
+
+  return {
+    sessionId: decoded.sessionId,
+    finalStateHash: bytesToHash(decoded.finalStateHash) ?? "",
+    payouts: decoded.payouts.map((payout: any): Payout => ({
+      kind: valueOf(PAYOUT_KIND_CODES, Number(payout.kind), "payout kind"),
+      recipient: payout.recipient,
+      asset: payout.asset,
+      amount: BigInt(payout.amount),
+    })),
+  };
+}
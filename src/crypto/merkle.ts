@@ -0,0 +1,276 @@
+/**
+ * SessionFi Action Log Merkle Tree
+ *
+ * Binary Merkle tree over a session's action log.
+ * The root is committed as SettlementProof.actionLogRoot, and any single
+ * action can be proven against it without revealing the rest of the log.
+ *
+ * Construction:
+ * - Leaf:     SHA-256(0x00 || BCS-encoded action, see encodeAction)
+ * - Node:     SHA-256(0x01 || left || right)
+ * - Odd node: promoted unchanged to the next level (no duplication)
+ * - Empty:    SHA-256("empty")
+ *
+ * Leaf and node prefixes prevent second-preimage attacks where an internal
+ * node is presented as a leaf.
+ *
+ * Because odd nodes are promoted, the root equals the right-to-left fold of
+ * the tree's peaks (perfect subtrees from the binary decomposition of the
+ * leaf count). ActionLogFrontier keeps only those peaks, which lets compact
+ * settlement proofs append actions without the full log. Hashing uses a pure-JavaScript SHA-256, so
+ * roots are identical in Node and the browser.
+ */
+
+import { sha256 } from "@noble/hashes/sha256";
+import {
+  bytesToHex,
+  concatBytes,
+  hexToBytes,
+  utf8ToBytes,
+} from "@noble/hashes/utils";
+import { Action, ActionInclusionProof, ActionLogFrontier } from "../core/types";
+import { encodeAction } from "./encoding";
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Compute the leaf hash of an action.
+ */
+export function hashActionLeaf(action: Action): string {
+  return bytesToHex(sha256(concatBytes(LEAF_PREFIX, encodeAction(action))));
+}
+
+/**
+ * Compute the parent hash of two nodes.
+ */
+function hashNode(left: string, right: string): string {
+  return bytesToHex(
+    sha256(concatBytes(NODE_PREFIX, hexToBytes(left), hexToBytes(right))),
+  );
+}
+
+/**
+ * Root of an empty action log.
+ */
+export const EMPTY_ACTION_LOG_ROOT = bytesToHex(sha256(utf8ToBytes("empty")));
+
+// ============================================================================
+// TREE
+// ============================================================================
+
+/**
+ * ActionMerkleTree holds every level of the tree for proof generation.
+ * Build once per action log; proofs are O(log n).
+ */
+export class ActionMerkleTree {
+  private actions: Action[];
+  private levels: string[][];
+
+  constructor(actions: Action[]) {
+    this.actions = actions;
+    this.levels = [actions.map(hashActionLeaf)];
+
+    while (this.levels[this.levels.length - 1].length > 1) {
+      const level = this.levels[this.levels.length - 1];
+      const next: string[] = [];
+
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(
+          i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i],
+        );
+      }
+
+      this.levels.push(next);
+    }
+  }
+
+  /**
+   * Get the Merkle root of the action log.
+   */
+  getRoot(): string {
+    if (this.actions.length === 0) {
+      return EMPTY_ACTION_LOG_ROOT;
+    }
+
+    return this.levels[this.levels.length - 1][0];
+  }
+
+  /**
+   * Get an inclusion proof for the action applied at the given nonce
+   * (batchIndex selects an action within a batch sharing that nonce).
+   * Returns null if no such action is in the log.
+   */
+  getProof(nonce: number, batchIndex: number = 0): ActionInclusionProof | null {
+    const leafIndex =
+      this.actions.findIndex((a) => a.nonce === nonce) + batchIndex;
+    if (this.actions[leafIndex]?.nonce !== nonce || batchIndex < 0) {
+      return null;
+    }
+
+    const siblings: string[] = [];
+    let index = leafIndex;
+
+    for (let depth = 0; depth < this.levels.length - 1; depth++) {
+      const level = this.levels[depth];
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+      // Promoted odd node has no sibling at this level
+      if (siblingIndex < level.length) {
+        siblings.push(level[siblingIndex]);
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return {
+      nonce,
+      leafIndex,
+      leafCount: this.actions.length,
+      siblings,
+    };
+  }
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify that an action is included in the action log committed to by root.
+ *
+ * Recomputes the path from the action's leaf using the proof's position,
+ * so a valid proof also fixes where the action sits in the log.
+ */
+export function verifyInclusion(
+  root: string,
+  action: Action,
+  proof: ActionInclusionProof,
+): boolean {
+  if (
+    action.nonce !== proof.nonce ||
+    proof.leafCount <= 0 ||
+    proof.leafIndex < 0 ||
+    proof.leafIndex >= proof.leafCount
+  ) {
+    return false;
+  }
+
+  let hash: string;
+  let index = proof.leafIndex;
+  let width = proof.leafCount;
+  let used = 0;
+
+  try {
+    hash = hashActionLeaf(action);
+
+    while (width > 1) {
+      const siblingIndex = index % 2 === 0 ? index + 1 : index - 1;
+
+      if (siblingIndex < width) {
+        const sibling = proof.siblings[used++];
+        if (sibling === undefined) {
+          return false;
+        }
+
+        hash =
+          index % 2 === 0 ? hashNode(hash, sibling) : hashNode(sibling, hash);
+      }
+
+      index = Math.floor(index / 2);
+      width = Math.ceil(width / 2);
+    }
+  } catch {
+    // Malformed action or sibling hash
+    return false;
+  }
+
+  return used === proof.siblings.length && hash === root;
+}
+
+// ============================================================================
+// FRONTIER (INCREMENTAL APPEND)
+// ============================================================================
+
+/**
+ * Count set bits (number of peaks for a leaf count).
+ */
+function popcount(n: number): number {
+  let count = 0;
+  for (let v = n; v > 0; v = Math.floor(v / 2)) {
+    count += v % 2;
+  }
+  return count;
+}
+
+/**
+ * Append one action to a frontier, merging equal-size peaks.
+ */
+export function appendToFrontier(
+  frontier: ActionLogFrontier,
+  action: Action,
+): ActionLogFrontier {
+  const peaks = [...frontier.peaks, hashActionLeaf(action)];
+
+  // Each trailing set bit of the old count is a peak of the same size
+  for (
+    let count = frontier.leafCount;
+    count % 2 === 1;
+    count = (count - 1) / 2
+  ) {
+    const right = peaks.pop()!;
+    const left = peaks.pop()!;
+    peaks.push(hashNode(left, right));
+  }
+
+  return {
+    leafCount: frontier.leafCount + 1,
+    peaks,
+  };
+}
+
+/**
+ * Compute the frontier of an action log.
+ */
+export function computeActionLogFrontier(actions: Action[]): ActionLogFrontier {
+  let frontier: ActionLogFrontier = { leafCount: 0, peaks: [] };
+  for (const action of actions) {
+    frontier = appendToFrontier(frontier, action);
+  }
+  return frontier;
+}
+
+/**
+ * Compute the action log root from a frontier.
+ * Returns null if the frontier is malformed (peak count does not match).
+ */
+export function computeFrontierRoot(
+  frontier: ActionLogFrontier,
+): string | null {
+  if (
+    !Number.isInteger(frontier.leafCount) ||
+    frontier.leafCount < 0 ||
+    frontier.peaks.length !== popcount(frontier.leafCount)
+  ) {
+    return null;
+  }
+
+  if (frontier.leafCount === 0) {
+    return EMPTY_ACTION_LOG_ROOT;
+  }
+
+  try {
+    let root = frontier.peaks[frontier.peaks.length - 1];
+    for (let i = frontier.peaks.length - 2; i >= 0; i--) {
+      root = hashNode(frontier.peaks[i], root);
+    }
+    return root;
+  } catch {
+    // Malformed peak hash
+    return null;
+  }
+}
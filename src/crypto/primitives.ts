@@ -8,10 +8,43 @@
  * - Deterministic: same input always produces same output
  * - Verifiable: any party can verify without secrets
  * - Non-repudiable: signatures prove consent
+ * - Isomorphic: identical results in Node and the browser
+ *
+ * Chain verification hashes through an injected CryptoBackend and checks
+ * signatures through an injected Verifier.
  */
 
-import { createHash, randomBytes } from "crypto";
-import { KeyPair, SessionState, Action } from "../core/types";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import {
+  AccountBalances,
+  ConstraintCarry,
+  KeyPair,
+  SessionState,
+  SessionStateHeader,
+  Action,
+  ActionLogFrontier,
+  StateTransitionWitness,
+  SessionCheckpoint,
+  ParticipantSet,
+  SignatureScheme,
+} from "../core/types";
+import { checkApprovalQuorum } from "../core/approval";
+import { sameConstraintCarry } from "../core/constraints";
+import {
+  generateSchemeKeyPair,
+  signMessage,
+  verifyMessage,
+} from "./signatures";
+import {
+  ActionMerkleTree,
+  appendToFrontier,
+  computeFrontierRoot,
+} from "./merkle";
+import { CryptoBackend, getDefaultCryptoBackend } from "./backend";
+import { encodeStateCommitment } from "./encoding";
+import { Verifier, identityVerifier, verifyStateWith } from "./signer";
+import { hashDelegation, verifyDelegationSignature } from "./typed-data";
 
 // ============================================================================
 // HASHING
@@ -28,7 +61,11 @@ import { KeyPair, SessionState, Action } from "../core/types";
  * - nonce (enforces ordering)
  * - balances (the actual state)
  * - previousStateHash (creates chain)
- * - actionLog (complete history)
+ * - actionLog (complete history, committed through its Merkle root)
+ * - carry (constraint state carried over checkpoints, if any)
+ *
+ * The preimage is the canonical BCS state commitment (see
+ * encodeStateCommitment), so Move can recompute the hash on-chain.
  *
  * This enables:
  * - State verification without revealing history
@@ -38,69 +75,94 @@ import { KeyPair, SessionState, Action } from "../core/types";
 export function computeStateHash(
   sessionId: string,
   nonce: number,
-  balances: Record<string, bigint>,
+  balances: AccountBalances,
   previousStateHash: string | null,
   actionLog: Action[],
+  carry?: ConstraintCarry,
 ): string {
-  // Canonicalize balances (sort keys for determinism)
-  const sortedBalances = Object.keys(balances)
-    .sort()
-    .map((asset) => `${asset}:${balances[asset].toString()}`)
-    .join("|");
-
-  // Canonicalize action log
-  const actionLogStr = actionLog
-    .map((action) => {
-      const paramsStr = JSON.stringify(action.params, (_, v) =>
-        typeof v === "bigint" ? v.toString() : v,
-      );
-      return `${action.type}:${action.nonce}:${paramsStr}:${action.timestamp}`;
-    })
-    .join("|");
-
-  // Construct canonical representation
-  const canonical = [
-    `session:${sessionId}`,
-    `nonce:${nonce}`,
-    `balances:${sortedBalances}`,
-    `prev:${previousStateHash || "genesis"}`,
-    `actions:${actionLogStr}`,
-  ].join("||");
+  return computeStateHashFromRoot(
+    sessionId,
+    nonce,
+    balances,
+    previousStateHash,
+    computeActionLogRoot(actionLog),
+    carry,
+  );
+}
 
+/**
+ * Compute state hash from the action log's Merkle root.
+ *
+ * Equivalent to computeStateHash, for verifiers that only hold the root
+ * (e.g. compact settlement proofs).
+ */
+export function computeStateHashFromRoot(
+  sessionId: string,
+  nonce: number,
+  balances: AccountBalances,
+  previousStateHash: string | null,
+  actionLogRoot: string,
+  carry?: ConstraintCarry,
+): string {
   // Hash with SHA-256
-  return hashString(canonical);
+  return bytesToHex(
+    sha256(
+      encodeStateCommitment(
+        sessionId,
+        nonce,
+        balances,
+        previousStateHash,
+        actionLogRoot,
+        carry,
+      ),
+    ),
+  );
+}
+
+/**
+ * Compute state hash from the action log's Merkle root with a backend.
+ *
+ * Byte-identical to computeStateHashFromRoot for every backend.
+ */
+export async function computeStateHashWith(
+  backend: CryptoBackend,
+  sessionId: string,
+  nonce: number,
+  balances: AccountBalances,
+  previousStateHash: string | null,
+  actionLogRoot: string,
+  carry?: ConstraintCarry,
+): Promise<string> {
+  const digest = await backend.sha256(
+    encodeStateCommitment(
+      sessionId,
+      nonce,
+      balances,
+      previousStateHash,
+      actionLogRoot,
+      carry,
+    ),
+  );
+  return bytesToHex(digest);
 }
 
 /**
  * Compute hash of arbitrary string data.
- * Uses SHA-256 for cryptographic strength.
+ * Uses SHA-256 (pure JavaScript, same digest in every runtime).
  */
 export function hashString(data: string): string {
-  return createHash("sha256").update(data, "utf8").digest("hex");
+  return bytesToHex(sha256(utf8ToBytes(data)));
 }
 
 /**
  * Compute merkle root of action log.
  * Used for compact proof verification.
  *
- * For MVP, we use simple hash of concatenated actions.
- * Post-MVP: implement proper merkle tree with inclusion proofs.
+ * Single actions can be proven against this root with
+ * ActionMerkleTree.getProof() and verifyInclusion().
  */
 export function computeActionLogRoot(actions: Action[]): string {
-  if (actions.length === 0) {
-    return hashString("empty");
-  }
-
-  const concatenated = actions
-    .map((action) => {
-      const paramsStr = JSON.stringify(action.params, (_, v) =>
-        typeof v === "bigint" ? v.toString() : v,
-      );
-      return hashString(`${action.type}:${action.nonce}:${paramsStr}`);
-    })
-    .join("");
-
-  return hashString(concatenated);
+  return new ActionMerkleTree(actions).getRoot();
 }
 
 // ============================================================================
@@ -110,18 +172,14 @@ export function computeActionLogRoot(actions: Action[]): string {
 /**
  * Generate a new cryptographic key pair.
  *
- * For MVP, we use simple Ed25519-style keys (simulated).
- * Post-MVP: integrate with actual Ed25519 or Secp256k1.
- *
- * SECURITY NOTE: This is a simplified implementation for demo purposes.
- * Production requires proper key derivation and secure storage.
+ * Keys are real Ed25519 (default) or secp256k1 keys, tagged with their
+ * scheme flag so sign/verify pick the right curve per key.
  */
-export function generateKeyPair(identity?: string): KeyPair {
-  // Generate random private key (32 bytes)
-  const privateKey = randomBytes(32).toString("hex");
-
-  // Derive public key (in production, use proper curve math)
-  const publicKey = hashString(`pubkey:${privateKey}`);
+export function generateKeyPair(
+  identity?: string,
+  scheme: SignatureScheme = SignatureScheme.ED25519,
+): KeyPair {
+  const { publicKey, privateKey } = generateSchemeKeyPair(scheme);
 
   // Derive address (hash of public key)
   const address = deriveAddress(publicKey, identity);
@@ -130,6 +188,7 @@ export function generateKeyPair(identity?: string): KeyPair {
     publicKey,
     privateKey,
     address,
+    scheme,
   };
 }
 
@@ -149,21 +208,15 @@ export function deriveAddress(publicKey: string, identity?: string): string {
 /**
  * Sign a message with a private key.
  *
- * For MVP, we simulate signing with HMAC-style construction.
- * Post-MVP: use proper Ed25519 or Secp256k1 signing.
+ * The curve is selected from the key's scheme flag (Ed25519 or secp256k1).
  *
  * The signature proves:
  * 1. The signer knows the private key
  * 2. The signer agrees to the specific message
  * 3. The signature cannot be forged or repudiated
- *
- * SECURITY NOTE: This is simplified for demo. Production requires proper signatures.
  */
 export function sign(message: string, privateKey: string): string {
-  // Simulate signing: hash(message + privateKey)
-  // Real implementation would use Ed25519 or ECDSA
-  const signature = hashString(`${message}:${privateKey}`);
-  return signature;
+  return signMessage(message, privateKey);
 }
 
 /**
@@ -197,31 +250,20 @@ export function signSettlement(
  * Returns true if:
  * 1. The signature was created by the holder of the private key
  * 2. The signature is over the exact message provided
- *
- * SECURITY NOTE: Simplified for demo. Production requires proper verification.
  */
 export function verify(
   message: string,
   signature: string,
   publicKey: string,
 ): boolean {
-  // To verify with our simplified scheme:
-  // We need to derive what the signature should be from public key
-  // In a real system, this uses curve math to verify without private key
-  //
-  // For MVP demo: we accept signatures that match a deterministic pattern
-  // This is NOT cryptographically secure - just demonstrates the flow
-
-  // Simulate verification by checking signature format
-  // Real implementation would use Ed25519 verification
-  return signature.length === 64 && /^[0-9a-f]{64}$/.test(signature);
+  return verifyMessage(message, signature, publicKey);
 }
 
 /**
  * Verify state signature.
  */
 export function verifyStateSignature(
-  state: SessionState,
+  state: SessionStateHeader,
   signature: string,
   publicKey: string,
 ): boolean {
@@ -252,43 +294,88 @@ export function verifySettlementSignature(
  * - State N's previousStateHash equals State N-1's stateHash
  * - Nonces are sequential
  * - Each state hash is correctly computed
+ * - Constraint carry is unchanged along the chain
  *
  * This ensures:
  * - No states were skipped
  * - No states were reordered
  * - No states were tampered with
+ *
+ * After a checkpoint the chain starts at the checkpoint's genesis
+ * instead of nonce 0.
  */
-export function verifyStateChain(states: SessionState[]): {
+export async function verifyStateChain(
+  states: SessionState[],
+  backend: CryptoBackend = getDefaultCryptoBackend(),
+  checkpoint: SessionCheckpoint | null = null,
+): Promise<{
+  valid: boolean;
+  error?: string;
+}> {
+  try {
+    return await checkStateChain(states, backend, checkpoint);
+  } catch (error) {
+    // Fields that cannot be canonically encoded (e.g. non-hex hashes)
+    return {
+      valid: false,
+      error: `Malformed state chain: ${(error as Error).message}`,
+    };
+  }
+}
+
+async function checkStateChain(
+  states: SessionState[],
+  backend: CryptoBackend,
+  checkpoint: SessionCheckpoint | null,
+): Promise<{
   valid: boolean;
   error?: string;
-} {
+}> {
   if (states.length === 0) {
     return { valid: true };
   }
 
   // Verify first state
   const firstState = states[0];
-  if (firstState.nonce !== 0) {
+  const genesisNonce = checkpoint ? checkpoint.genesisNonce : 0;
+  if (firstState.nonce !== genesisNonce) {
     return {
       valid: false,
-      error: `First state nonce must be 0, got ${firstState.nonce}`,
+      error: `First state nonce must be ${genesisNonce}, got ${firstState.nonce}`,
     };
   }
 
-  if (firstState.previousStateHash !== null) {
+  if (checkpoint) {
+    if (
+      firstState.previousStateHash !== checkpoint.stateHash ||
+      firstState.stateHash !== checkpoint.genesisStateHash
+    ) {
+      return {
+        valid: false,
+        error: "First state must be the checkpoint genesis",
+      };
+    }
+  } else if (firstState.previousStateHash !== null) {
     return {
       valid: false,
       error: "First state must have null previousStateHash",
     };
+  } else if (firstState.carry) {
+    return {
+      valid: false,
+      error: "First state must not carry constraints without a checkpoint",
+    };
   }
 
   // Verify each state's hash is correctly computed
-  const computedHash = computeStateHash(
+  const computedHash = await computeStateHashWith(
+    backend,
     firstState.sessionId,
     firstState.nonce,
     firstState.balances,
     firstState.previousStateHash,
-    firstState.actionLog,
+    computeActionLogRoot(firstState.actionLog),
+    firstState.carry,
   );
 
   if (computedHash !== firstState.stateHash) {
@@ -319,13 +406,32 @@ export function verifyStateChain(states: SessionState[]): {
       };
     }
 
+    // Check the appended action (or batch) was applied at this nonce
+    const appended = appendedActions(previousState, currentState);
+    if (!checkAppendedNonces(appended, currentState.nonce)) {
+      return {
+        valid: false,
+        error: `Invalid appended actions at index ${i}`,
+      };
+    }
+
+    // Constraint state only changes at a checkpoint genesis
+    if (!sameConstraintCarry(currentState.carry, previousState.carry)) {
+      return {
+        valid: false,
+        error: `Constraint carry changed at index ${i}`,
+      };
+    }
+
     // Verify hash computation
-    const computedHash = computeStateHash(
+    const computedHash = await computeStateHashWith(
+      backend,
       currentState.sessionId,
       currentState.nonce,
       currentState.balances,
       currentState.previousStateHash,
-      currentState.actionLog,
+      computeActionLogRoot(currentState.actionLog),
+      currentState.carry,
     );
 
     if (computedHash !== currentState.stateHash) {
@@ -347,28 +453,99 @@ export function verifyStateChain(states: SessionState[]): {
   return { valid: true };
 }
 
+/**
+ * Actions a state appended to its predecessor's action log:
+ * one action, or every action of a batch.
+ */
+export function appendedActions(
+  previousState: SessionState,
+  state: SessionState,
+): Action[] {
+  return state.actionLog.slice(previousState.actionLog.length);
+}
+
+/**
+ * A state appends at least one action, all applied at the state's nonce.
+ */
+function checkAppendedNonces(actions: Action[], nonce: number): boolean {
+  return (
+    actions.length > 0 && actions.every((action) => action.nonce === nonce)
+  );
+}
+
 /**
  * Verify all signatures in state chain.
  *
  * Ensures:
- * - User signed each state
+ * - User signed each state (directly, or via a session key delegated
+ *   by the user; delegation scope is checked by verifyDelegatedActions)
  * - Engine signed each state
  * - Signatures are valid
+ *
+ * For a multi-party session, pass its ParticipantSet (owner first, equal
+ * to userPublicKey): every present participant signature must be valid,
+ * and the valid ones must meet the set's approval policy.
+ *
+ * By default each signature is checked in the format of its signer's
+ * identity, so the owner, session keys, participants and the engine may
+ * each use a different wallet type.
  */
-export function verifyStateChainSignatures(
-  states: SessionState[],
+export async function verifyStateChainSignatures(
+  states: SessionStateHeader[],
   userPublicKey: string,
   enginePublicKey: string,
-): { valid: boolean; error?: string } {
+  verifier: Verifier = identityVerifier,
+  participantSet: ParticipantSet | null = null,
+): Promise<{ valid: boolean; error?: string }> {
+  const verifiedDelegations = new Set<string>();
+
+  if (participantSet && participantSet.participants[0] !== userPublicKey) {
+    return {
+      valid: false,
+      error: "Participant set owner does not match user public key",
+    };
+  }
+
   for (let i = 0; i < states.length; i++) {
     const state = states[i];
+    const delegation = state.signatures.delegation;
 
-    // Verify user signature
-    const userSigValid = verifyStateSignature(
-      state,
-      state.signatures.user,
-      userPublicKey,
-    );
+    // Owner approval is optional under a multi-party policy
+    const ownerSigned = !participantSet || state.signatures.user !== "";
+
+    if (delegation && delegation.sessionId !== state.sessionId) {
+      return {
+        valid: false,
+        error: `Session key delegation at state ${i} is for another session`,
+      };
+    }
+
+    // Delegations must be signed by the user (verified once per content
+    // and signature)
+    const delegationKey = delegation
+      ? `${hashDelegation(delegation)}:${delegation.ownerSignature}`
+      : "";
+    if (ownerSigned && delegation && !verifiedDelegations.has(delegationKey)) {
+      if (
+        !(await verifyDelegationSignature(verifier, delegation, userPublicKey))
+      ) {
+        return {
+          valid: false,
+          error: `Invalid session key delegation at state ${i}`,
+        };
+      }
+      verifiedDelegations.add(delegationKey);
+    }
+
+    // Verify user signature (by the delegated session key if any)
+    const userSigValid =
+      !ownerSigned ||
+      (await verifyStateWith(
+        verifier,
+        state,
+        state.signatures.user,
+        delegation ? delegation.sessionKey : userPublicKey,
+      ));
 
     if (!userSigValid) {
       return {
@@ -377,8 +554,35 @@ export function verifyStateChainSignatures(
       };
     }
 
+    // Verify participant signatures and the approval policy
+    if (participantSet) {
+      const approvers = ownerSigned ? [userPublicKey] : [];
+
+      for (const { signer, signature } of state.signatures.participants || []) {
+        if (
+          !participantSet.participants.includes(signer) ||
+          !(await verifyStateWith(verifier, state, signature, signer))
+        ) {
+          return {
+            valid: false,
+            error: `Invalid participant signature at state ${i}`,
+          };
+        }
+        approvers.push(signer);
+      }
+
+      const quorum = checkApprovalQuorum(participantSet, approvers);
+      if (!quorum.valid) {
+        return {
+          valid: false,
+          error: `State ${i}: ${quorum.error}`,
+        };
+      }
+    }
+
     // Verify engine signature
-    const engineSigValid = verifyStateSignature(
+    const engineSigValid = await verifyStateWith(
+      verifier,
       state,
       state.signatures.engine,
       enginePublicKey,
@@ -395,6 +599,147 @@ export function verifyStateChainSignatures(
   return { valid: true };
 }
 
+/**
+ * Verify a compact state chain (checkpoint header + transition witnesses).
+ *
+ * Checks the same properties as verifyStateChain without full action logs:
+ * - Checkpoint hash matches the root of its action log frontier
+ * - A nonce 0 checkpoint is a valid genesis state (no prior actions)
+ * - Each transition appends the action (or batch) at its nonce
+ * - Each state hash is recomputed from the appended action log root
+ * - Nonces are sequential and hashes link
+ * - Constraint carry is unchanged along the chain
+ *
+ * Returns the frontier of the final action log on success.
+ */
+export async function verifyCompactStateChain(
+  checkpoint: SessionStateHeader,
+  checkpointLogFrontier: ActionLogFrontier,
+  transitions: StateTransitionWitness[],
+  backend: CryptoBackend = getDefaultCryptoBackend(),
+): Promise<{
+  valid: boolean;
+  error?: string;
+  finalLogFrontier?: ActionLogFrontier;
+}> {
+  try {
+    return await checkCompactStateChain(
+      checkpoint,
+      checkpointLogFrontier,
+      transitions,
+      backend,
+    );
+  } catch (error) {
+    // Fields that cannot be canonically encoded (e.g. non-hex hashes)
+    return {
+      valid: false,
+      error: `Malformed state chain: ${(error as Error).message}`,
+    };
+  }
+}
+
+async function checkCompactStateChain(
+  checkpoint: SessionStateHeader,
+  checkpointLogFrontier: ActionLogFrontier,
+  transitions: StateTransitionWitness[],
+  backend: CryptoBackend,
+): Promise<{
+  valid: boolean;
+  error?: string;
+  finalLogFrontier?: ActionLogFrontier;
+}> {
+  const checkpointRoot = computeFrontierRoot(checkpointLogFrontier);
+  if (!checkpointRoot) {
+    return { valid: false, error: "Malformed checkpoint action log frontier" };
+  }
+
+  if (checkpoint.nonce === 0) {
+    if (
+      checkpoint.previousStateHash !== null ||
+      checkpointLogFrontier.leafCount !== 0 ||
+      checkpoint.carry
+    ) {
+      return {
+        valid: false,
+        error:
+          "Genesis checkpoint must have no previous state, actions or carry",
+      };
+    }
+  }
+
+  const checkpointHash = await computeStateHashWith(
+    backend,
+    checkpoint.sessionId,
+    checkpoint.nonce,
+    checkpoint.balances,
+    checkpoint.previousStateHash,
+    checkpointRoot,
+    checkpoint.carry,
+  );
+
+  if (checkpointHash !== checkpoint.stateHash) {
+    return { valid: false, error: "Checkpoint hash mismatch" };
+  }
+
+  let previous = checkpoint;
+  let frontier = checkpointLogFrontier;
+
+  for (let i = 0; i < transitions.length; i++) {
+    const { actions, state } = transitions[i];
+
+    if (state.nonce !== previous.nonce + 1) {
+      return {
+        valid: false,
+        error: `Nonce gap at transition ${i}: ${previous.nonce} -> ${state.nonce}`,
+      };
+    }
+
+    if (!checkAppendedNonces(actions, state.nonce)) {
+      return {
+        valid: false,
+        error: `Invalid appended actions at transition ${i}`,
+      };
+    }
+
+    if (state.previousStateHash !== previous.stateHash) {
+      return { valid: false, error: `Hash chain broken at transition ${i}` };
+    }
+
+    if (state.sessionId !== previous.sessionId) {
+      return { valid: false, error: `Session ID mismatch at transition ${i}` };
+    }
+
+    if (!sameConstraintCarry(state.carry, previous.carry)) {
+      return {
+        valid: false,
+        error: `Constraint carry changed at transition ${i}`,
+      };
+    }
+
+    for (const action of actions) {
+      frontier = appendToFrontier(frontier, action);
+    }
+
+    const computedHash = await computeStateHashWith(
+      backend,
+      state.sessionId,
+      state.nonce,
+      state.balances,
+      state.previousStateHash,
+      computeFrontierRoot(frontier)!,
+      state.carry,
+    );
+
+    if (computedHash !== state.stateHash) {
+      return { valid: false, error: `Transition ${i} hash mismatch` };
+    }
+
+    previous = state;
+  }
+
+  return { valid: true, finalLogFrontier: frontier };
+}
+
 // ============================================================================
 // SESSION ID GENERATION
 // ============================================================================
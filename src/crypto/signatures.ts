@@ -0,0 +1,170 @@
+/**
+ * SessionFi Signature Schemes
+ *
+ * Ed25519 and secp256k1 signing shared by the Node and browser primitives.
+ * Both builds use the same pure-JavaScript curve implementations, so a
+ * signature produced in one environment verifies in the other.
+ *
+ * Key encoding (hex):
+ * - Every public and private key starts with a one-byte scheme flag
+ *   (0x00 = Ed25519, 0x01 = secp256k1), as in Sui
+ * - Ed25519 public keys are 32 bytes, secp256k1 public keys are 33 bytes (compressed)
+ * - Private keys are 32 bytes for both schemes
+ *
+ * Signature encoding (hex, 64 bytes):
+ * - Ed25519: R || S over the message bytes
+ * - secp256k1: compact r || s (low-S, RFC 6979) over SHA-256(message bytes)
+ */
+
+import { ed25519 } from "@noble/curves/ed25519";
+import { secp256k1 } from "@noble/curves/secp256k1";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, hexToBytes, utf8ToBytes } from "@noble/hashes/utils";
+import { SignatureScheme } from "../core/types";
+
+const SIGNATURE_HEX_LENGTH = 128;
+
+// ============================================================================
+// KEY ENCODING
+// ============================================================================
+
+/**
+ * Prefix raw key bytes with their scheme flag.
+ */
+function encodeKey(scheme: SignatureScheme, keyBytes: Uint8Array): string {
+  return scheme.toString(16).padStart(2, "0") + bytesToHex(keyBytes);
+}
+
+/**
+ * Split a flagged hex key into its scheme and raw bytes.
+ * Throws if the flag is unknown or the key is not valid hex.
+ */
+function decodeKey(key: string): {
+  scheme: SignatureScheme;
+  keyBytes: Uint8Array;
+} {
+  const normalized = key.startsWith("0x") ? key.slice(2) : key;
+  const flag = parseInt(normalized.slice(0, 2), 16);
+
+  if (flag !== SignatureScheme.ED25519 && flag !== SignatureScheme.SECP256K1) {
+    throw new Error(`Unknown signature scheme flag: ${normalized.slice(0, 2)}`);
+  }
+
+  return {
+    scheme: flag,
+    keyBytes: hexToBytes(normalized.slice(2)),
+  };
+}
+
+/**
+ * Get the signature scheme a key belongs to.
+ */
+export function getKeyScheme(key: string): SignatureScheme {
+  return decodeKey(key).scheme;
+}
+
+// ============================================================================
+// KEY GENERATION
+// ============================================================================
+
+/**
+ * Generate a random key pair for the given scheme.
+ */
+export function generateSchemeKeyPair(scheme: SignatureScheme): {
+  publicKey: string;
+  privateKey: string;
+} {
+  const secretKey =
+    scheme === SignatureScheme.ED25519
+      ? ed25519.utils.randomSecretKey()
+      : secp256k1.utils.randomSecretKey();
+
+  const privateKey = encodeKey(scheme, secretKey);
+
+  return {
+    publicKey: derivePublicKey(privateKey),
+    privateKey,
+  };
+}
+
+/**
+ * Derive the flagged public key from a flagged private key.
+ */
+export function derivePublicKey(privateKey: string): string {
+  const { scheme, keyBytes } = decodeKey(privateKey);
+
+  const publicKeyBytes =
+    scheme === SignatureScheme.ED25519
+      ? ed25519.getPublicKey(keyBytes)
+      : secp256k1.getPublicKey(keyBytes, true);
+
+  return encodeKey(scheme, publicKeyBytes);
+}
+
+// ============================================================================
+// SIGNING AND VERIFICATION
+// ============================================================================
+
+/**
+ * Sign raw bytes with a flagged private key.
+ * Both schemes are deterministic: same key + bytes = same signature.
+ */
+export function signBytes(bytes: Uint8Array, privateKey: string): string {
+  const { scheme, keyBytes } = decodeKey(privateKey);
+
+  if (scheme === SignatureScheme.ED25519) {
+    return bytesToHex(ed25519.sign(bytes, keyBytes));
+  }
+
+  return secp256k1.sign(sha256(bytes), keyBytes, { lowS: true }).toCompactHex();
+}
+
+/**
+ * Verify a signature over raw bytes against a flagged public key.
+ * Malformed keys or signatures are reported as invalid, never thrown.
+ */
+export function verifyBytes(
+  bytes: Uint8Array,
+  signature: string,
+  publicKey: string,
+): boolean {
+  if (
+    signature.length !== SIGNATURE_HEX_LENGTH ||
+    !/^[0-9a-f]+$/.test(signature)
+  ) {
+    return false;
+  }
+
+  try {
+    const { scheme, keyBytes } = decodeKey(publicKey);
+    const signatureBytes = hexToBytes(signature);
+
+    if (scheme === SignatureScheme.ED25519) {
+      return ed25519.verify(signatureBytes, bytes, keyBytes);
+    }
+
+    return secp256k1.verify(signatureBytes, sha256(bytes), keyBytes, {
+      lowS: true,
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign a UTF-8 message with a flagged private key.
+ */
+export function signMessage(message: string, privateKey: string): string {
+  return signBytes(utf8ToBytes(message), privateKey);
+}
+
+/**
+ * Verify a signature over a UTF-8 message against a flagged public key.
+ */
+export function verifyMessage(
+  message: string,
+  signature: string,
+  publicKey: string,
+): boolean {
+  return verifyBytes(utf8ToBytes(message), signature, publicKey);
+}
@@ -0,0 +1,529 @@
+/**
+ * SessionFi Signer Abstraction
+ *
+ * One signing interface shared by the session engines, the Yellow engine
+ * and the hook client, so a single wallet can drive a session end to end.
+ *
+ * Adapters:
+ * - RawKeySigner: flagged Ed25519 / secp256k1 keys from crypto primitives
+ * - EthersWalletSigner: any ethers v6 Signer (EIP-191 / EIP-712)
+ * - ViemAccountSigner: viem LocalAccount (EIP-191 / EIP-712)
+ * - SuiKeypairSigner: any Sui Signer / Keypair (personal message signatures)
+ * - Eip1193Signer: injected browser wallets (personal_sign / eth_signTypedData_v4)
+ *
+ * Every signer is also a Verifier for its own signature format;
+ * identityVerifier checks each signer in the format its identity implies.
+ */
+
+import { ethers } from "ethers";
+import type { LocalAccount } from "viem";
+import type { Signer as SuiSigner } from "@mysten/sui/cryptography";
+import { verifyPersonalMessageSignature } from "@mysten/sui/verify";
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex, utf8ToBytes } from "@noble/hashes/utils";
+import { derivePublicKey, signBytes, verifyBytes } from "./signatures";
+import {
+  TypedSessionState,
+  signSessionStateTyped,
+  verifySessionStateTyped,
+} from "./typed-data";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Signature format produced by a signer.
+ * Determines which Verifier can check its signatures.
+ */
+export enum SignerKind {
+  RAW_KEY = "RAW_KEY", // Flagged Ed25519 / secp256k1 signatures over raw bytes
+  EVM = "EVM", // EIP-191 personal messages and EIP-712 typed data
+  SUI = "SUI", // Sui serialized personal message signatures
+  IDENTITY = "IDENTITY", // Verifiers only: format chosen per identity
+}
+
+/**
+ * Typed payload in EIP-712 shape.
+ * EVM signers sign it natively; other signers sign its EIP-712 digest.
+ */
+export interface TypedPayload {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Verifier checks signatures of one signature format.
+ *
+ * publicKey is the identity the signature must bind to:
+ * - RAW_KEY: flagged public key hex
+ * - EVM: 0x address (signatures are recoverable)
+ * - SUI: Sui address
+ */
+export interface Verifier {
+  readonly kind: SignerKind;
+
+  verifyBytes(
+    bytes: Uint8Array,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean>;
+
+  verifyTypedData(
+    payload: TypedPayload,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean>;
+}
+
+/**
+ * Signer produces signatures and exposes the identity that verifies them.
+ */
+export interface Signer extends Verifier {
+  /** Identity passed to verify* (see Verifier) */
+  getPublicKey(): Promise<string>;
+
+  /** On-chain / protocol address of the signer */
+  getAddress(): Promise<string>;
+
+  signBytes(bytes: Uint8Array): Promise<string>;
+
+  signTypedData(payload: TypedPayload): Promise<string>;
+}
+
+/**
+ * Minimal EIP-1193 provider (window.ethereum and compatible wallets).
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+// ============================================================================
+// VERIFIERS
+// ============================================================================
+
+/**
+ * Compute the EIP-712 digest of a typed payload.
+ * Used by non-EVM signers, which sign the digest as raw bytes.
+ */
+export function typedPayloadDigest(payload: TypedPayload): Uint8Array {
+  return ethers.getBytes(
+    ethers.TypedDataEncoder.hash(
+      payload.domain,
+      payload.types,
+      payload.message,
+    ),
+  );
+}
+
+/**
+ * Verifier for flagged Ed25519 / secp256k1 keys.
+ */
+export const rawKeyVerifier: Verifier = {
+  kind: SignerKind.RAW_KEY,
+
+  async verifyBytes(bytes, signature, publicKey) {
+    return verifyBytes(bytes, signature, publicKey);
+  },
+
+  async verifyTypedData(payload, signature, publicKey) {
+    return verifyBytes(typedPayloadDigest(payload), signature, publicKey);
+  },
+};
+
+/**
+ * Verifier for EVM wallet signatures (address recovery).
+ */
+export const evmVerifier: Verifier = {
+  kind: SignerKind.EVM,
+
+  async verifyBytes(bytes, signature, publicKey) {
+    try {
+      const recovered = ethers.verifyMessage(bytes, signature);
+      return recovered.toLowerCase() === publicKey.toLowerCase();
+    } catch {
+      return false;
+    }
+  },
+
+  async verifyTypedData(payload, signature, publicKey) {
+    try {
+      const recovered = ethers.verifyTypedData(
+        payload.domain,
+        payload.types,
+        payload.message,
+        signature,
+      );
+      return recovered.toLowerCase() === publicKey.toLowerCase();
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Verifier for Sui personal message signatures.
+ */
+export const suiVerifier: Verifier = {
+  kind: SignerKind.SUI,
+
+  async verifyBytes(bytes, signature, publicKey) {
+    try {
+      await verifyPersonalMessageSignature(bytes, signature, {
+        address: publicKey,
+      });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  async verifyTypedData(payload, signature, publicKey) {
+    return this.verifyBytes(typedPayloadDigest(payload), signature, publicKey);
+  },
+};
+
+/**
+ * Get the signature format an identity verifies in:
+ * - 0x + 20 bytes: EVM address
+ * - 0x + 32 bytes: Sui address
+ * - anything else: flagged raw public key (33 or 34 bytes)
+ */
+export function identityKind(publicKey: string): SignerKind {
+  if (/^0x[0-9a-fA-F]{40}$/.test(publicKey)) {
+    return SignerKind.EVM;
+  }
+  if (/^0x[0-9a-fA-F]{64}$/.test(publicKey)) {
+    return SignerKind.SUI;
+  }
+  return SignerKind.RAW_KEY;
+}
+
+/**
+ * Verifier that checks each signature in the format of its signer's
+ * identity, so an EVM wallet owner, a raw-key engine and Sui participants
+ * can share one session.
+ */
+export const identityVerifier: Verifier = {
+  kind: SignerKind.IDENTITY,
+
+  async verifyBytes(bytes, signature, publicKey) {
+    return getVerifier(identityKind(publicKey)).verifyBytes(
+      bytes,
+      signature,
+      publicKey,
+    );
+  },
+
+  async verifyTypedData(payload, signature, publicKey) {
+    return getVerifier(identityKind(publicKey)).verifyTypedData(
+      payload,
+      signature,
+      publicKey,
+    );
+  },
+};
+
+/**
+ * Get the verifier for a signature format.
+ */
+export function getVerifier(kind: SignerKind): Verifier {
+  switch (kind) {
+    case SignerKind.RAW_KEY:
+      return rawKeyVerifier;
+    case SignerKind.EVM:
+      return evmVerifier;
+    case SignerKind.SUI:
+      return suiVerifier;
+    case SignerKind.IDENTITY:
+      return identityVerifier;
+  }
+}
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+/**
+ * Signer over a flagged private key from crypto primitives.
+ * Signatures match sign()/signState() for the same key and message.
+ */
+export class RawKeySigner implements Signer {
+  readonly kind = SignerKind.RAW_KEY;
+  private privateKey: string;
+  private publicKey: string;
+
+  constructor(privateKey: string) {
+    this.privateKey = privateKey;
+    this.publicKey = derivePublicKey(privateKey);
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.publicKey;
+  }
+
+  async getAddress(): Promise<string> {
+    // Same derivation as deriveAddress(publicKey) without identity
+    return bytesToHex(sha256(utf8ToBytes(this.publicKey))).substring(0, 42);
+  }
+
+  async signBytes(bytes: Uint8Array): Promise<string> {
+    return signBytes(bytes, this.privateKey);
+  }
+
+  async signTypedData(payload: TypedPayload): Promise<string> {
+    return signBytes(typedPayloadDigest(payload), this.privateKey);
+  }
+
+  verifyBytes(
+    bytes: Uint8Array,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return rawKeyVerifier.verifyBytes(bytes, signature, publicKey);
+  }
+
+  verifyTypedData(
+    payload: TypedPayload,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return rawKeyVerifier.verifyTypedData(payload, signature, publicKey);
+  }
+}
+
+/**
+ * Base class for EVM signers: identity is the address, verification
+ * recovers the signer from the signature.
+ */
+abstract class EvmSigner implements Signer {
+  readonly kind = SignerKind.EVM;
+
+  abstract getAddress(): Promise<string>;
+  abstract signBytes(bytes: Uint8Array): Promise<string>;
+  abstract signTypedData(payload: TypedPayload): Promise<string>;
+
+  getPublicKey(): Promise<string> {
+    return this.getAddress();
+  }
+
+  verifyBytes(
+    bytes: Uint8Array,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return evmVerifier.verifyBytes(bytes, signature, publicKey);
+  }
+
+  verifyTypedData(
+    payload: TypedPayload,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return evmVerifier.verifyTypedData(payload, signature, publicKey);
+  }
+}
+
+/**
+ * Signer over an ethers v6 Signer (Wallet, JsonRpcSigner, ...).
+ */
+export class EthersWalletSigner extends EvmSigner {
+  private wallet: ethers.Signer;
+
+  constructor(wallet: ethers.Signer) {
+    super();
+    this.wallet = wallet;
+  }
+
+  getAddress(): Promise<string> {
+    return this.wallet.getAddress();
+  }
+
+  signBytes(bytes: Uint8Array): Promise<string> {
+    return this.wallet.signMessage(bytes);
+  }
+
+  signTypedData(payload: TypedPayload): Promise<string> {
+    return this.wallet.signTypedData(
+      payload.domain,
+      payload.types,
+      payload.message,
+    );
+  }
+}
+
+/**
+ * Signer over a viem LocalAccount (e.g. privateKeyToAccount).
+ */
+export class ViemAccountSigner extends EvmSigner {
+  private account: LocalAccount;
+
+  constructor(account: LocalAccount) {
+    super();
+    this.account = account;
+  }
+
+  async getAddress(): Promise<string> {
+    return this.account.address;
+  }
+
+  signBytes(bytes: Uint8Array): Promise<string> {
+    return this.account.signMessage({ message: { raw: bytes } });
+  }
+
+  signTypedData(payload: TypedPayload): Promise<string> {
+    return this.account.signTypedData({
+      domain: payload.domain as Parameters<
+        LocalAccount["signTypedData"]
+      >[0]["domain"],
+      types: payload.types,
+      primaryType: payload.primaryType,
+      message: payload.message,
+    });
+  }
+}
+
+/**
+ * Signer over an injected EIP-1193 wallet.
+ * Uses the given account, or the first account the wallet exposes.
+ */
+export class Eip1193Signer extends EvmSigner {
+  private provider: Eip1193Provider;
+  private account: string | null;
+
+  constructor(provider: Eip1193Provider, account?: string) {
+    super();
+    this.provider = provider;
+    this.account = account || null;
+  }
+
+  async getAddress(): Promise<string> {
+    if (!this.account) {
+      const accounts = (await this.provider.request({
+        method: "eth_requestAccounts",
+      })) as string[];
+
+      if (!accounts || accounts.length === 0) {
+        throw new Error("EIP-1193 wallet returned no accounts");
+      }
+
+      this.account = ethers.getAddress(accounts[0]);
+    }
+
+    return this.account;
+  }
+
+  async signBytes(bytes: Uint8Array): Promise<string> {
+    const address = await this.getAddress();
+    return (await this.provider.request({
+      method: "personal_sign",
+      params: [ethers.hexlify(bytes), address],
+    })) as string;
+  }
+
+  async signTypedData(payload: TypedPayload): Promise<string> {
+    const address = await this.getAddress();
+    const typed = ethers.TypedDataEncoder.getPayload(
+      payload.domain,
+      payload.types,
+      payload.message,
+    );
+
+    return (await this.provider.request({
+      method: "eth_signTypedData_v4",
+      params: [address, JSON.stringify(typed)],
+    })) as string;
+  }
+}
+
+/**
+ * Signer over a Sui Signer / Keypair.
+ * Bytes are signed as Sui personal messages; signatures are serialized base64.
+ */
+export class SuiKeypairSigner implements Signer {
+  readonly kind = SignerKind.SUI;
+  private keypair: SuiSigner;
+
+  constructor(keypair: SuiSigner) {
+    this.keypair = keypair;
+  }
+
+  async getPublicKey(): Promise<string> {
+    return this.keypair.toSuiAddress();
+  }
+
+  async getAddress(): Promise<string> {
+    return this.keypair.toSuiAddress();
+  }
+
+  async signBytes(bytes: Uint8Array): Promise<string> {
+    const { signature } = await this.keypair.signPersonalMessage(bytes);
+    return signature;
+  }
+
+  signTypedData(payload: TypedPayload): Promise<string> {
+    return this.signBytes(typedPayloadDigest(payload));
+  }
+
+  verifyBytes(
+    bytes: Uint8Array,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return suiVerifier.verifyBytes(bytes, signature, publicKey);
+  }
+
+  verifyTypedData(
+    payload: TypedPayload,
+    signature: string,
+    publicKey: string,
+  ): Promise<boolean> {
+    return suiVerifier.verifyTypedData(payload, signature, publicKey);
+  }
+}
+
+// ============================================================================
+// SESSION HELPERS
+// ============================================================================
+
+/**
+ * Sign a session state with any Signer.
+ * EVM wallets sign it as EIP-712 typed data, so the wallet shows the
+ * session, nonce and balances; other signers sign the state hash.
+ * For RawKeySigner this equals signState(state, privateKey).
+ */
+export function signStateWith(
+  signer: Signer,
+  state: TypedSessionState,
+): Promise<string> {
+  if (signer.kind === SignerKind.EVM) {
+    return signSessionStateTyped(signer, state);
+  }
+  return signer.signBytes(utf8ToBytes(state.stateHash));
+}
+
+/**
+ * Verify a session state signature with any Verifier
+ * (typed data for EVM, as signed by signStateWith).
+ */
+export function verifyStateWith(
+  verifier: Verifier,
+  state: TypedSessionState,
+  signature: string,
+  publicKey: string,
+): Promise<boolean> {
+  const resolved =
+    verifier.kind === SignerKind.IDENTITY
+      ? getVerifier(identityKind(publicKey))
+      : verifier;
+  if (resolved.kind === SignerKind.EVM) {
+    return verifySessionStateTyped(resolved, state, signature, publicKey);
+  }
+  return resolved.verifyBytes(
+    utf8ToBytes(state.stateHash),
+    signature,
+    publicKey,
+  );
+}
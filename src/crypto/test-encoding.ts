@@ -0,0 +1,392 @@
+/**
+ * Canonical Encoding Test
+ *
+ * Round-trips actions, session states, settlement proofs and payout plans
+ * through both encodings (BCS and ABI), checks version rejection, and
+ * checks that computeAbiStateHash matches the commitment SessionFiHook
+ * hashes on-chain.
+ * Run with: npx tsx src/crypto/test-encoding.ts
+ */
+
+import { ethers } from "ethers";
+import {
+  Action,
+  ConstraintCarry,
+  LendOperation,
+  PRIMARY_ACCOUNT,
+  PayoutKind,
+  PayoutPlan,
+  SessionState,
+  StakeOperation,
+} from "../core/types";
+import {
+  SessionEngine,
+  createDeductAction,
+  createDepositAction,
+  createLendAction,
+  createStakeAction,
+  createTradeAction,
+  createTransferAction,
+} from "../engine/session-engine";
+import {
+  ENCODING_VERSION,
+  EncodingFormat,
+  computeAbiStateHash,
+  decodeAction,
+  decodePayoutPlan,
+  decodeSessionState,
+  decodeSettlementProof,
+  encodeAction,
+  encodePayoutPlan,
+  encodeSessionState,
+  encodeSettlementProof,
+} from "./encoding";
+import {
+  computeActionLogRoot,
+  computeStateHash,
+  generateKeyPair,
+  signState,
+} from "./primitives";
+import { RawKeySigner } from "./signer";
+
+const FORMATS = [EncodingFormat.BCS, EncodingFormat.ABI];
+
+// SessionFiHook.StateCommitment, field for field
+const SOLIDITY_STATE_COMMITMENT =
+  "tuple(string sessionId, uint64 nonce, tuple(string account, string asset, uint256 amount)[] balances, bytes previousStateHash, bytes32 actionLogRoot, tuple(tuple(string asset, uint256 amount)[] totalDeductions, uint64[] recentActionTimestamps)[] carry)";
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`✅ ${label}`);
+  } else {
+    failures++;
+    console.error(`❌ ${label}`);
+  }
+}
+
+function expectThrow(fn: () => unknown, label: string): void {
+  try {
+    fn();
+    check(false, label);
+  } catch {
+    check(true, label);
+  }
+}
+
+/**
+ * Structural equality (bigints compared by value, key order ignored).
+ */
+function same(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, field) => {
+    if (typeof field === "bigint") {
+      return `${field}n`;
+    }
+    if (field && typeof field === "object" && !Array.isArray(field)) {
+      return Object.fromEntries(
+        Object.keys(field)
+          .sort()
+          .map((key) => [key, field[key]]),
+      );
+    }
+    return field;
+  });
+}
+
+function allActions(nonce: number): Action[] {
+  return [
+    createTransferAction(nonce, "USDC", 5n, PRIMARY_ACCOUNT, "savings"),
+    createDeductAction(nonce, "USDC", 1n, "fee"),
+    createDeductAction(nonce, "USDC", 1n, "fee", "savings"),
+    createDepositAction(nonce, "ETH", 2n, "bridge"),
+    createTradeAction(nonce, "USDC", 10n, "ETH", 3n, 2n),
+    createLendAction(nonce, LendOperation.SUPPLY, "USDC", 4n, "aave"),
+    createStakeAction(nonce, StakeOperation.UNSTAKE, "SUI", 6n, "v1", "sub"),
+  ];
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+function testActions() {
+  console.log("\n--- Actions ---");
+
+  for (const format of FORMATS) {
+    for (const action of allActions(1)) {
+      const decoded = decodeAction(encodeAction(action, format), format);
+      check(
+        same(decoded, action),
+        `${format} ${action.type} round-trips${"account" in action.params && action.params.account ? " (with account)" : ""}`,
+      );
+    }
+  }
+}
+
+// ============================================================================
+// SESSION STATES
+// ============================================================================
+
+async function buildStates(): Promise<SessionState[]> {
+  const user = generateKeyPair();
+  const engineKeys = generateKeyPair();
+  const engine = new SessionEngine(new RawKeySigner(engineKeys.privateKey));
+
+  const genesis = await engine.createInitialState(
+    "encoding",
+    { USDC: 1000n, ETH: 10n },
+    user.publicKey,
+  );
+  genesis.signatures.user = signState(genesis, user.privateKey);
+
+  const actions = [createDeductAction(1, "USDC", 5n, "fee")];
+  const next: SessionState = {
+    ...genesis,
+    nonce: 1,
+    previousStateHash: genesis.stateHash,
+    actionLog: actions,
+    stateHash: computeStateHash(
+      "encoding",
+      1,
+      genesis.balances,
+      genesis.stateHash,
+      actions,
+    ),
+    signatures: {
+      user: "",
+      engine: "",
+      delegation: {
+        sessionId: "encoding",
+        sessionKey: user.publicKey,
+        scope: {
+          allowedActionTypes: [actions[0].type],
+          allowedIntentTypes: ["SWAP"],
+          allowedAssets: ["USDC"],
+          spendCaps: { USDC: 50n },
+        },
+        expiresAt: Date.now() + 60_000,
+        ownerSignature: "owner",
+      },
+      participants: [{ signer: "bob", signature: "sig" }],
+    },
+  };
+  next.signatures.user = signState(next, user.privateKey);
+  next.signatures.engine = signState(next, engineKeys.privateKey);
+
+  return [genesis, next];
+}
+
+async function testSessionStates() {
+  console.log("\n--- Session states ---");
+
+  const [genesis, next] = await buildStates();
+  const carry: ConstraintCarry = {
+    totalDeductions: { USDC: 20n },
+    recentActionTimestamps: [1000, 1500],
+  };
+  const carried = { ...next, carry };
+
+  for (const format of FORMATS) {
+    const roundTrip = (state: SessionState) =>
+      decodeSessionState(encodeSessionState(state, format), format);
+
+    check(same(roundTrip(genesis), genesis), `${format} genesis round-trips`);
+    check(
+      same(roundTrip(next), next),
+      `${format} state with delegation and participants round-trips`,
+    );
+    check(
+      same(roundTrip(carried), carried),
+      `${format} state with constraint carry round-trips`,
+    );
+    check(
+      roundTrip(genesis).previousStateHash === null,
+      `${format} genesis keeps a null previousStateHash`,
+    );
+  }
+}
+
+// ============================================================================
+// PROOFS AND PLANS
+// ============================================================================
+
+async function testProofsAndPlans() {
+  console.log("\n--- Settlement proofs and payout plans ---");
+
+  const states = await buildStates();
+  const engine = new SessionEngine(
+    new RawKeySigner(generateKeyPair().privateKey),
+  );
+  const proof = engine.generateSettlementProof(states, "settle-sig");
+
+  const plan: PayoutPlan = {
+    sessionId: "encoding",
+    finalStateHash: states[1].stateHash,
+    payouts: [
+      {
+        kind: PayoutKind.OWNER_REFUND,
+        recipient: "owner",
+        asset: "USDC",
+        amount: 995n,
+      },
+      {
+        kind: PayoutKind.OPERATOR_FEE,
+        recipient: "operator",
+        asset: "USDC",
+        amount: 5n,
+      },
+    ],
+  };
+
+  for (const format of FORMATS) {
+    check(
+      same(
+        decodeSettlementProof(encodeSettlementProof(proof, format), format),
+        proof,
+      ),
+      `${format} settlement proof round-trips`,
+    );
+    check(
+      same(decodePayoutPlan(encodePayoutPlan(plan, format), format), plan),
+      `${format} payout plan round-trips`,
+    );
+  }
+}
+
+// ============================================================================
+// VERSIONING
+// ============================================================================
+
+function testVersioning() {
+  console.log("\n--- Versioning ---");
+
+  const action = createDeductAction(1, "USDC", 1n, "fee");
+
+  const bcs = encodeAction(action, EncodingFormat.BCS);
+  check(bcs[0] === ENCODING_VERSION, "BCS encoding starts with the version");
+  const bcsNext = Uint8Array.from(bcs);
+  bcsNext[0] = ENCODING_VERSION + 1;
+  expectThrow(
+    () => decodeAction(bcsNext, EncodingFormat.BCS),
+    "BCS decoder rejects another version",
+  );
+
+  // The version is the first ABI word
+  const abi = encodeAction(action, EncodingFormat.ABI);
+  const abiNext = Uint8Array.from(abi);
+  abiNext[31] = ENCODING_VERSION + 1;
+  expectThrow(
+    () => decodeAction(abiNext, EncodingFormat.ABI),
+    "ABI decoder rejects another version",
+  );
+}
+
+// ============================================================================
+// STATE COMMITMENTS
+// ============================================================================
+
+function testStateCommitments() {
+  console.log("\n--- State commitments ---");
+
+  const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+  const sessionId = ethers.hexlify(ethers.randomBytes(32));
+  const usdc = "0x1c7d4b196cb0c7b01d743fbc6116a902379c7238";
+  const weth = "0xfff9976782d46cc05630d1f6ebab18b2324d6b14";
+  const intentLogRoot = ethers.keccak256(ethers.toUtf8Bytes("intents"));
+
+  // SessionFiHook._stateCommitment: primary balances in token order, no
+  // previous state, intent log root as action log root
+  const onChain = ethers.keccak256(
+    abiCoder.encode(
+      ["uint8", SOLIDITY_STATE_COMMITMENT],
+      [
+        ENCODING_VERSION,
+        {
+          sessionId,
+          nonce: 3,
+          balances: [
+            { account: PRIMARY_ACCOUNT, asset: usdc, amount: 700n },
+            { account: PRIMARY_ACCOUNT, asset: weth, amount: 0n },
+          ],
+          previousStateHash: "0x",
+          actionLogRoot: intentLogRoot,
+          carry: [],
+        },
+      ],
+    ),
+  );
+
+  const offChain = computeAbiStateHash(
+    {
+      sessionId,
+      nonce: 3,
+      balances: { [PRIMARY_ACCOUNT]: { [weth]: 0n, [usdc]: 700n } },
+      previousStateHash: null,
+    },
+    intentLogRoot,
+  );
+  check(offChain === onChain, "computeAbiStateHash matches SessionFiHook");
+
+  const balances = { [PRIMARY_ACCOUNT]: { USDC: 10n } };
+  const root = computeActionLogRoot([]);
+  const plain = computeStateHash("s", 1, balances, null, []);
+  const carried = computeStateHash("s", 1, balances, null, [], {
+    totalDeductions: { USDC: 1n },
+    recentActionTimestamps: [],
+  });
+  check(
+    plain === computeStateHash("s", 1, balances, null, []),
+    "BCS state hash is deterministic",
+  );
+  check(plain !== carried, "State hash commits to the constraint carry");
+  check(
+    computeAbiStateHash(
+      { sessionId: "s", nonce: 1, balances, previousStateHash: null },
+      root,
+    ) !==
+      computeAbiStateHash(
+        {
+          sessionId: "s",
+          nonce: 1,
+          balances: { [PRIMARY_ACCOUNT]: { USDC: 11n } },
+          previousStateHash: null,
+        },
+        root,
+      ),
+    "ABI state hash commits to balances",
+  );
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  console.log("Canonical Encoding Test Suite");
+
+  try {
+    testActions();
+    await testSessionStates();
+    await testProofsAndPlans();
+    testVersioning();
+    testStateCommitments();
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    process.exit(1);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("All tests passed!");
+  console.log("=".repeat(60));
+}
+
+main();
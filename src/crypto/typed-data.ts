@@ -0,0 +1,423 @@
+/**
+ * SessionFi EIP-712 Typed Data
+ *
+ * Domains and type definitions for everything a wallet is asked to sign:
+ * - SessionState: SessionFi session states (amounts per account and asset)
+ * - ChannelState: Yellow channel states (YellowSessionCustodian.sol)
+ * - SwapIntent: hook swap intents (SessionFiHook.sol)
+ * - SessionKeyDelegation: session key scopes, for sessions and for the hook
+ *
+ * Signing goes through Signer.signTypedData, so wallets display the
+ * session id, tokens, amounts and deadlines instead of an opaque hash.
+ * ChannelState and SwapIntent types match the typehashes in the contracts
+ * field for field; changing either side breaks on-chain verification.
+ */
+
+import { ethers } from "ethers";
+import type { SessionKeyDelegation, SessionState } from "../core/types";
+import { sortedBalanceEntries } from "../core/balances";
+import type { ChannelState } from "../yellow/types";
+import type { SwapIntent } from "../hooks/sessionfi-hook-client";
+import type { Signer, TypedPayload, Verifier } from "./signer";
+
+// ============================================================================
+// DOMAINS
+// ============================================================================
+
+export const SESSION_STATE_DOMAIN_NAME = "SessionFi";
+export const CHANNEL_STATE_DOMAIN_NAME = "YellowSessionCustodian";
+export const SWAP_INTENT_DOMAIN_NAME = "SessionFiHook";
+export const TYPED_DATA_VERSION = "1";
+
+/**
+ * Domain for session state signatures.
+ * chainId and verifyingContract bind the signature to a settlement contract
+ * when one is known; off-chain sessions may omit them.
+ */
+export function sessionStateDomain(
+  chainId?: number | bigint,
+  verifyingContract?: string,
+): ethers.TypedDataDomain {
+  return {
+    name: SESSION_STATE_DOMAIN_NAME,
+    version: TYPED_DATA_VERSION,
+    ...(chainId !== undefined && { chainId }),
+    ...(verifyingContract !== undefined && { verifyingContract }),
+  };
+}
+
+/**
+ * Domain for Yellow channel states, bound to a custodian deployment.
+ */
+export function channelStateDomain(
+  chainId: number | bigint,
+  custodianAddress: string,
+): ethers.TypedDataDomain {
+  return {
+    name: CHANNEL_STATE_DOMAIN_NAME,
+    version: TYPED_DATA_VERSION,
+    chainId,
+    verifyingContract: custodianAddress,
+  };
+}
+
+/**
+ * Domain for swap intents, bound to a hook deployment.
+ */
+export function swapIntentDomain(
+  chainId: number | bigint,
+  hookAddress: string,
+): ethers.TypedDataDomain {
+  return {
+    name: SWAP_INTENT_DOMAIN_NAME,
+    version: TYPED_DATA_VERSION,
+    chainId,
+    verifyingContract: hookAddress,
+  };
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SESSION_STATE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SessionState: [
+    { name: "sessionId", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "balances", type: "Balance[]" },
+    { name: "previousStateHash", type: "bytes32" },
+    { name: "stateHash", type: "bytes32" },
+  ],
+  Balance: [
+    { name: "account", type: "string" },
+    { name: "asset", type: "string" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+// ChannelState(bytes32 channelId,uint256 userBalance,uint256 counterpartyBalance,uint256 nonce,bool isFinal)
+export const CHANNEL_STATE_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ChannelState: [
+    { name: "channelId", type: "bytes32" },
+    { name: "userBalance", type: "uint256" },
+    { name: "counterpartyBalance", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "isFinal", type: "bool" },
+  ],
+};
+
+// SwapIntent(bytes32 sessionId,address tokenIn,address tokenOut,uint256 amountIn,uint256 minAmountOut,uint256 deadline)
+export const SWAP_INTENT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SwapIntent: [
+    { name: "sessionId", type: "bytes32" },
+    { name: "tokenIn", type: "address" },
+    { name: "tokenOut", type: "address" },
+    { name: "amountIn", type: "uint256" },
+    { name: "minAmountOut", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const SESSION_KEY_DELEGATION_TYPES: Record<
+  string,
+  ethers.TypedDataField[]
+> = {
+  SessionKeyDelegation: [
+    { name: "sessionId", type: "string" },
+    { name: "sessionKey", type: "string" },
+    { name: "allowedActionTypes", type: "string[]" },
+    { name: "allowedIntentTypes", type: "string[]" },
+    { name: "allowedAssets", type: "string[]" },
+    { name: "spendCaps", type: "SpendCap[]" },
+    { name: "expiresAt", type: "uint256" },
+  ],
+  SpendCap: [
+    { name: "asset", type: "string" },
+    { name: "amount", type: "uint256" },
+  ],
+};
+
+// SessionKeyDelegation(bytes32 sessionId,address sessionKey,address[] allowedTokens,address[] capTokens,uint256[] spendCaps,uint256 expiresAt)
+export const HOOK_DELEGATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SessionKeyDelegation: [
+    { name: "sessionId", type: "bytes32" },
+    { name: "sessionKey", type: "address" },
+    { name: "allowedTokens", type: "address[]" },
+    { name: "capTokens", type: "address[]" },
+    { name: "spendCaps", type: "uint256[]" },
+    { name: "expiresAt", type: "uint256" },
+  ],
+};
+
+// ============================================================================
+// PAYLOADS
+// ============================================================================
+
+/**
+ * Session state fields a typed-data state signature covers.
+ */
+export type TypedSessionState = Pick<
+  SessionState,
+  "sessionId" | "nonce" | "balances" | "previousStateHash" | "stateHash"
+>;
+
+/**
+ * Hex hash as bytes32 (SessionFi state hashes are unprefixed SHA-256 hex).
+ */
+function toBytes32(hash: string | null): string {
+  if (hash === null) {
+    return ethers.ZeroHash;
+  }
+  return ethers.zeroPadValue(hash.startsWith("0x") ? hash : `0x${hash}`, 32);
+}
+
+/**
+ * Typed payload for a session state.
+ * Balances are listed in canonical (account, asset) order, and stateHash
+ * ties the signature to the state commitment (and thus the action log).
+ */
+export function sessionStateTypedData(
+  state: TypedSessionState,
+  domain: ethers.TypedDataDomain = sessionStateDomain(),
+): TypedPayload {
+  return {
+    domain,
+    types: SESSION_STATE_TYPES,
+    primaryType: "SessionState",
+    message: {
+      sessionId: state.sessionId,
+      nonce: state.nonce,
+      balances: sortedBalanceEntries(state.balances).map(
+        ([account, asset, amount]) => ({ account, asset, amount }),
+      ),
+      previousStateHash: toBytes32(state.previousStateHash),
+      stateHash: toBytes32(state.stateHash),
+    },
+  };
+}
+
+/**
+ * Typed payload for a Yellow channel state.
+ */
+export function channelStateTypedData(
+  state: Pick<
+    ChannelState,
+    "channelId" | "userBalance" | "counterpartyBalance" | "nonce" | "isFinal"
+  >,
+  domain: ethers.TypedDataDomain,
+): TypedPayload {
+  return {
+    domain,
+    types: CHANNEL_STATE_TYPES,
+    primaryType: "ChannelState",
+    message: {
+      channelId: state.channelId,
+      userBalance: state.userBalance,
+      counterpartyBalance: state.counterpartyBalance,
+      nonce: state.nonce,
+      isFinal: state.isFinal,
+    },
+  };
+}
+
+/**
+ * Typed payload for a swap intent (the signature field is not signed).
+ */
+export function swapIntentTypedData(
+  intent: SwapIntent,
+  domain: ethers.TypedDataDomain,
+): TypedPayload {
+  return {
+    domain,
+    types: SWAP_INTENT_TYPES,
+    primaryType: "SwapIntent",
+    message: {
+      sessionId: intent.sessionId,
+      tokenIn: intent.tokenIn,
+      tokenOut: intent.tokenOut,
+      amountIn: intent.amountIn,
+      minAmountOut: intent.minAmountOut,
+      deadline: intent.deadline,
+    },
+  };
+}
+
+/**
+ * Typed payload for a session key delegation (SessionFi sessions).
+ */
+export function delegationTypedData(
+  delegation: Omit<SessionKeyDelegation, "ownerSignature">,
+  domain: ethers.TypedDataDomain = sessionStateDomain(),
+): TypedPayload {
+  return {
+    domain,
+    types: SESSION_KEY_DELEGATION_TYPES,
+    primaryType: "SessionKeyDelegation",
+    message: {
+      sessionId: delegation.sessionId,
+      sessionKey: delegation.sessionKey,
+      allowedActionTypes: delegation.scope.allowedActionTypes,
+      allowedIntentTypes: delegation.scope.allowedIntentTypes,
+      allowedAssets: delegation.scope.allowedAssets,
+      spendCaps: Object.keys(delegation.scope.spendCaps)
+        .sort()
+        .map((asset) => ({
+          asset,
+          amount: delegation.scope.spendCaps[asset],
+        })),
+      expiresAt: delegation.expiresAt,
+    },
+  };
+}
+
+/**
+ * Typed payload for a session key delegation on SessionFiHook.
+ *
+ * The hook only executes swaps, so intent types are not part of the on-chain
+ * struct (the client checks them before signing). Assets are token
+ * addresses, the session key is an address, and expiresAt is converted to
+ * seconds for comparison with block.timestamp.
+ */
+export function hookDelegationTypedData(
+  delegation: Omit<SessionKeyDelegation, "ownerSignature">,
+  domain: ethers.TypedDataDomain,
+): TypedPayload {
+  const capTokens = Object.keys(delegation.scope.spendCaps).sort();
+
+  return {
+    domain,
+    types: HOOK_DELEGATION_TYPES,
+    primaryType: "SessionKeyDelegation",
+    message: {
+      sessionId: delegation.sessionId,
+      sessionKey: delegation.sessionKey,
+      allowedTokens: delegation.scope.allowedAssets,
+      capTokens,
+      spendCaps: capTokens.map((token) => delegation.scope.spendCaps[token]),
+      expiresAt: Math.floor(delegation.expiresAt / 1000),
+    },
+  };
+}
+
+/**
+ * Identifier of a session key delegation: the EIP-712 digest of its
+ * content (without the owner signature). Spend caps are tracked under it.
+ */
+export function hashDelegation(
+  delegation: Omit<SessionKeyDelegation, "ownerSignature">,
+  domain?: ethers.TypedDataDomain,
+): string {
+  return hashTypedPayload(delegationTypedData(delegation, domain));
+}
+
+/**
+ * EIP-712 digest of a payload as 0x hex.
+ * Equals _hashTypedDataV4(structHash) on the matching contract.
+ */
+export function hashTypedPayload(payload: TypedPayload): string {
+  return ethers.TypedDataEncoder.hash(
+    payload.domain,
+    payload.types,
+    payload.message,
+  );
+}
+
+// ============================================================================
+// SIGNING AND VERIFICATION
+// ============================================================================
+
+/**
+ * Sign a session state as typed data.
+ */
+export function signSessionStateTyped(
+  signer: Signer,
+  state: TypedSessionState,
+  domain?: ethers.TypedDataDomain,
+): Promise<string> {
+  return signer.signTypedData(sessionStateTypedData(state, domain));
+}
+
+/**
+ * Sign a session key delegation as the session owner.
+ */
+export async function signDelegation(
+  owner: Signer,
+  delegation: Omit<SessionKeyDelegation, "ownerSignature">,
+  domain?: ethers.TypedDataDomain,
+): Promise<SessionKeyDelegation> {
+  return {
+    ...delegation,
+    ownerSignature: await owner.signTypedData(
+      delegationTypedData(delegation, domain),
+    ),
+  };
+}
+
+/**
+ * Verify the owner signature on a session key delegation.
+ */
+export function verifyDelegationSignature(
+  verifier: Verifier,
+  delegation: SessionKeyDelegation,
+  ownerPublicKey: string,
+  domain?: ethers.TypedDataDomain,
+): Promise<boolean> {
+  return verifier.verifyTypedData(
+    delegationTypedData(delegation, domain),
+    delegation.ownerSignature,
+    ownerPublicKey,
+  );
+}
+
+/**
+ * Verify a typed-data session state signature.
+ */
+export function verifySessionStateTyped(
+  verifier: Verifier,
+  state: TypedSessionState,
+  signature: string,
+  publicKey: string,
+  domain?: ethers.TypedDataDomain,
+): Promise<boolean> {
+  return verifier.verifyTypedData(
+    sessionStateTypedData(state, domain),
+    signature,
+    publicKey,
+  );
+}
+
+/**
+ * Verify a typed-data channel state signature.
+ */
+export function verifyChannelStateTyped(
+  verifier: Verifier,
+  state: ChannelState,
+  signature: string,
+  publicKey: string,
+  domain: ethers.TypedDataDomain,
+): Promise<boolean> {
+  return verifier.verifyTypedData(
+    channelStateTypedData(state, domain),
+    signature,
+    publicKey,
+  );
+}
+
+/**
+ * Verify a typed-data swap intent signature against the session owner.
+ */
+export function verifySwapIntentTyped(
+  verifier: Verifier,
+  intent: SwapIntent,
+  owner: string,
+  domain: ethers.TypedDataDomain,
+): Promise<boolean> {
+  if (!intent.signature) {
+    return Promise.resolve(false);
+  }
+  return verifier.verifyTypedData(
+    swapIntentTypedData(intent, domain),
+    intent.signature,
+    owner,
+  );
+}
@@ -15,6 +15,11 @@
  * - Engine cannot violate capital constraints
  * - All state transitions are verifiable
  * - User always has last valid signed state for recovery
+ *   (persisted through a SessionStore, see store/session-store.ts)
+ *
+ * The engine is isomorphic: hashing and signing go through an injected
+ * CryptoBackend and Signer, so it runs unchanged in Node and the browser
+ * and produces byte-identical state hashes in both.
  */
 
 import {
@@ -25,16 +30,64 @@ import {
   StateTransitionResult,
   RejectionReason,
   SettlementProof,
+  CompactSettlementProof,
+  SessionStateHeader,
   SessionMetadata,
+  ActionInclusionProof,
+  AccountBalances,
+  PRIMARY_ACCOUNT,
   DeductParams,
   DepositParams,
   TransferParams,
+  TradeParams,
+  LendParams,
+  LendOperation,
+  StakeParams,
+  StakeOperation,
+  SessionKeyDelegation,
+  ParticipantSet,
 } from "../core/types";
 import {
-  computeStateHash,
+  COUNTERPARTY_ACCOUNT,
+  cloneAccountBalances,
+  createInitialBalances,
+  creditAccount,
+  debitAccount,
+  getAccountBalance,
+  isCounterpartyAccount,
+  isPayeeAccount,
+  isPositionAccount,
+  lendPositionAccount,
+  moveBalance,
+  stakePositionAccount,
+  sumAccountBalances,
+} from "../core/balances";
+import {
+  checkActionConstraints,
+  checkActionTimestamp,
+  computeConstraintCarry,
+} from "../core/constraints";
+import { checkStateApprovals, requiresOwnerApproval } from "../core/approval";
+import {
+  addSpend,
+  checkDelegatedAction,
+  computeActionSpend,
+} from "../core/delegation";
+import {
+  appendedActions,
+  computeStateHashWith,
   computeActionLogRoot,
-  signState,
 } from "../crypto/primitives";
+import { CryptoBackend, getDefaultCryptoBackend } from "../crypto/backend";
+import { ActionMerkleTree, computeActionLogFrontier } from "../crypto/merkle";
+import {
+  Signer,
+  Verifier,
+  identityVerifier,
+  signStateWith,
+  verifyStateWith,
+} from "../crypto/signer";
+import { verifyDelegationSignature } from "../crypto/typed-data";
 
 // ============================================================================
 // SESSION ENGINE CLASS
@@ -49,12 +102,40 @@ import {
  * - Explicit validation (fail fast on invalid transitions)
  */
 export class SessionEngine {
-  private enginePrivateKey: string;
-  private enginePublicKey: string;
+  private engineSigner: Signer;
+  private backend: CryptoBackend;
+  private signatureVerifier: Verifier;
 
-  constructor(enginePrivateKey: string, enginePublicKey: string) {
-    this.enginePrivateKey = enginePrivateKey;
-    this.enginePublicKey = enginePublicKey;
+  /**
+   * @param engineSigner - Signs every state the engine produces
+   *   (e.g. RawKeySigner, EthersWalletSigner, SuiKeypairSigner)
+   * @param backend - Hash backend (defaults to Web Crypto when available)
+   * @param signatureVerifier - Verifies owner signatures, session key
+   *   delegations and the session key signatures made under them
+   *   (defaults to the format of each signer's identity)
+   */
+  constructor(
+    engineSigner: Signer,
+    backend: CryptoBackend = getDefaultCryptoBackend(),
+    signatureVerifier: Verifier = identityVerifier,
+  ) {
+    this.engineSigner = engineSigner;
+    this.backend = backend;
+    this.signatureVerifier = signatureVerifier;
+  }
+
+  /**
+   * Identity that verifies the engine's state signatures.
+   */
+  getEnginePublicKey(): Promise<string> {
+    return this.engineSigner.getPublicKey();
+  }
+
+  /**
+   * Verifier of user, session key and participant signatures.
+   */
+  getSignatureVerifier(): Verifier {
+    return this.signatureVerifier;
   }
 
   // ==========================================================================
@@ -67,25 +148,28 @@ export class SessionEngine {
    * This is called when a session is first opened.
    * Initial state has:
    * - Nonce 0
-   * - Balances equal to locked assets
+   * - Balances equal to locked assets (the operator's trading liquidity,
+   *   part of them, in the counterparty account)
    * - Empty action log
    * - No previous state
    */
-  createInitialState(
+  async createInitialState(
     sessionId: string,
     lockedAssets: Record<string, bigint>,
     userPublicKey: string,
-  ): SessionState {
-    // Initial balances = locked assets
-    const balances = { ...lockedAssets };
+    counterpartyLiquidity: Record<string, bigint> = {},
+  ): Promise<SessionState> {
+    // Initial balances = locked assets, held by the primary account
+    const balances = createInitialBalances(lockedAssets, counterpartyLiquidity);
 
     // Compute initial state hash
-    const stateHash = computeStateHash(
+    const stateHash = await computeStateHashWith(
+      this.backend,
       sessionId,
       0, // nonce starts at 0
       balances,
       null, // no previous state
-      [], // no actions yet
+      computeActionLogRoot([]), // no actions yet
     );
 
     // Create initial state (without signatures yet)
@@ -98,14 +182,78 @@ export class SessionEngine {
       actionLog: [],
       signatures: {
         user: "", // Will be filled after user signs
-        engine: signState({ stateHash } as SessionState, this.enginePrivateKey),
+        engine: "",
       },
       timestamp: Date.now(),
     };
+    initialState.signatures.engine = await signStateWith(
+      this.engineSigner,
+      initialState,
+    );
 
     return initialState;
   }
 
+  /**
+   * Create the genesis state that continues a session after a checkpoint.
+   *
+   * The genesis has:
+   * - Nonce checkpoint nonce + 1, linked to the checkpointed state
+   * - Checkpoint balances minus withdrawals (from the primary account)
+   * - Empty action log, with the constraint state of the actions before
+   *   it (deduction totals, recent timestamps) in its carry
+   *
+   * Like the initial state, it is returned signed by the engine only.
+   * It is committed with SettlementVerifier.verifyAndCheckpoint.
+   */
+  async createCheckpointGenesis(
+    checkpointState: SessionState,
+    withdrawals: Record<string, bigint> = {},
+  ): Promise<SessionState> {
+    const balances = cloneAccountBalances(checkpointState.balances);
+
+    for (const [asset, amount] of Object.entries(withdrawals)) {
+      if (
+        amount < BigInt(0) ||
+        !debitAccount(balances, PRIMARY_ACCOUNT, asset, amount)
+      ) {
+        throw new Error(
+          `Cannot withdraw ${amount} ${asset} at checkpoint: insufficient primary balance`,
+        );
+      }
+    }
+
+    const nonce = checkpointState.nonce + 1;
+    const carry = computeConstraintCarry(checkpointState);
+    const stateHash = await computeStateHashWith(
+      this.backend,
+      checkpointState.sessionId,
+      nonce,
+      balances,
+      checkpointState.stateHash,
+      computeActionLogRoot([]),
+      carry,
+    );
+
+    const genesis: SessionState = {
+      sessionId: checkpointState.sessionId,
+      nonce,
+      balances,
+      previousStateHash: checkpointState.stateHash,
+      stateHash,
+      actionLog: [],
+      signatures: {
+        user: "", // Will be filled after user signs
+        engine: "",
+      },
+      timestamp: Date.now(),
+      carry,
+    };
+    genesis.signatures.engine = await signStateWith(this.engineSigner, genesis);
+
+    return genesis;
+  }
+
   // ==========================================================================
   // ACTION EXECUTION
   // ==========================================================================
@@ -123,47 +271,236 @@ export class SessionEngine {
    * 5. Sign new state
    *
    * If validation fails, returns error without state change.
+   *
+   * When userSignature comes from a delegated session key, pass the
+   * delegation, the spend already made under it (the engine is
+   * stateless; track it per hashDelegation with addSpend /
+   * computeActionSpend) and the owner's public key. The delegation must be
+   * signed by the owner and userSignature must be the session key's
+   * signature over the new stateHash. Actions outside the delegation scope
+   * or past its expiry (by the engine's clock) are rejected.
+   *
+   * Without a delegation, a given ownerPublicKey must have signed the new
+   * state as userSignature. It may only be "" where the session's approval
+   * policy does not need the owner.
    */
-  executeAction(
+  async executeAction(
     currentState: SessionState,
     action: Action,
     userSignature: string,
     metadata: SessionMetadata,
-  ): StateTransitionResult {
-    // Validate action can be executed
-    const validation = this.validateAction(currentState, action, metadata);
-    if (!validation.valid) {
+    delegation?: SessionKeyDelegation,
+    delegatedSpend: Record<string, bigint> = {},
+    ownerPublicKey?: string,
+  ): Promise<StateTransitionResult> {
+    return this.executeBatch(
+      currentState,
+      [action],
+      userSignature,
+      metadata,
+      delegation,
+      delegatedSpend,
+      ownerPublicKey,
+    );
+  }
+
+  /**
+   * Apply an ordered batch of actions atomically, producing one new state
+   * signed once by each party.
+   *
+   * Every action carries the new state's nonce and is validated against
+   * the balances and action log left by the actions before it (constraints
+   * and delegation spend caps included). If any action fails, the whole
+   * batch is rejected without state change.
+   */
+  async executeBatch(
+    currentState: SessionState,
+    actions: Action[],
+    userSignature: string,
+    metadata: SessionMetadata,
+    delegation?: SessionKeyDelegation,
+    delegatedSpend: Record<string, bigint> = {},
+    ownerPublicKey?: string,
+  ): Promise<StateTransitionResult> {
+    // The delegation must come from the owner before its scope counts
+    if (
+      delegation &&
+      !(
+        ownerPublicKey &&
+        (await verifyDelegationSignature(
+          this.signatureVerifier,
+          delegation,
+          ownerPublicKey,
+        ))
+      )
+    ) {
       return {
         success: false,
-        error: validation.error,
-        rejectionReason: validation.reason,
+        error: "Invalid session key delegation",
+        rejectionReason: RejectionReason.INVALID_SIGNATURE,
       };
     }
 
-    // Compute new balances
-    const newBalances = this.applyActionToBalances(
-      currentState.balances,
-      action,
+    const preview = await this.previewBatch(
+      currentState,
+      actions,
+      metadata,
+      delegation,
+      delegatedSpend,
     );
+    if (!preview.success || !preview.newState) {
+      return preview;
+    }
+
+    const newState = preview.newState;
+
+    // A session key signs the state it moves to, like the owner would
+    if (
+      delegation &&
+      !(await verifyStateWith(
+        this.signatureVerifier,
+        newState,
+        userSignature,
+        delegation.sessionKey,
+      ))
+    ) {
+      return {
+        success: false,
+        error: "Invalid session key signature",
+        rejectionReason: RejectionReason.INVALID_SIGNATURE,
+      };
+    }
+
+    // Otherwise the owner signs it
+    if (!delegation && ownerPublicKey) {
+      if (
+        userSignature
+          ? !(await verifyStateWith(
+              this.signatureVerifier,
+              newState,
+              userSignature,
+              ownerPublicKey,
+            ))
+          : requiresOwnerApproval(metadata.participants ?? null)
+      ) {
+        return {
+          success: false,
+          error: userSignature
+            ? "Invalid user signature"
+            : "Missing user signature",
+          rejectionReason: RejectionReason.INVALID_SIGNATURE,
+        };
+      }
+    }
+
+    return {
+      success: true,
+      newState: {
+        ...newState,
+        signatures: {
+          user: userSignature,
+          engine: await signStateWith(this.engineSigner, newState),
+          ...(delegation && { delegation }),
+        },
+      },
+    };
+  }
 
-    if (!newBalances) {
+  /**
+   * Validate a batch and compute the state it leads to, without signing.
+   *
+   * Same rules as executeBatch except signatures; the returned state has
+   * empty user and engine signatures. A session key client uses it to
+   * learn the stateHash it must sign before submitting the batch.
+   */
+  async previewBatch(
+    currentState: SessionState,
+    actions: Action[],
+    metadata: SessionMetadata,
+    delegation?: SessionKeyDelegation,
+    delegatedSpend: Record<string, bigint> = {},
+  ): Promise<StateTransitionResult> {
+    if (actions.length === 0) {
       return {
         success: false,
-        error: "Failed to apply action to balances",
-        rejectionReason: RejectionReason.INSUFFICIENT_BALANCE,
+        error: "Empty action batch",
+        rejectionReason: RejectionReason.ACTION_NOT_ALLOWED,
       };
     }
 
-    // Create new action log
-    const newActionLog = [...currentState.actionLog, action];
+    // Action timestamps and delegation expiry are checked against the
+    // engine's clock
+    const now = Date.now();
+
+    // Validated against a working state that keeps the current nonce
+    let newBalances = currentState.balances;
+    let newActionLog = currentState.actionLog;
+    let spent = delegatedSpend;
+
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+      const working: SessionState = {
+        ...currentState,
+        balances: newBalances,
+        actionLog: newActionLog,
+      };
+
+      // Single actions keep their unprefixed errors
+      const prefix = actions.length > 1 ? `Batch action ${i}: ` : "";
+
+      // Validate action can be executed
+      const validation = this.validateAction(working, action, metadata, now);
+      if (!validation.valid) {
+        return {
+          success: false,
+          error: prefix + validation.error,
+          rejectionReason: validation.reason,
+        };
+      }
+
+      // Validate session key scope
+      if (delegation) {
+        const scopeCheck = checkDelegatedAction(
+          delegation,
+          currentState.sessionId,
+          action,
+          spent,
+          now,
+        );
+        if (!scopeCheck.valid) {
+          return {
+            success: false,
+            error: prefix + scopeCheck.error,
+            rejectionReason: scopeCheck.reason,
+          };
+        }
+        spent = addSpend(spent, computeActionSpend(action));
+      }
+
+      // Compute new balances
+      const balances = this.applyActionToBalances(newBalances, action);
+
+      if (!balances) {
+        return {
+          success: false,
+          error: prefix + "Failed to apply action to balances",
+          rejectionReason: RejectionReason.INSUFFICIENT_BALANCE,
+        };
+      }
+
+      newBalances = balances;
+      newActionLog = [...newActionLog, action];
+    }
 
     // Compute new state hash
-    const newStateHash = computeStateHash(
+    const newStateHash = await computeStateHashWith(
+      this.backend,
       currentState.sessionId,
       currentState.nonce + 1,
       newBalances,
       currentState.stateHash,
-      newActionLog,
+      computeActionLogRoot(newActionLog),
+      currentState.carry,
     );
 
     // Create new state
@@ -174,14 +511,9 @@ export class SessionEngine {
       previousStateHash: currentState.stateHash,
       stateHash: newStateHash,
       actionLog: newActionLog,
-      signatures: {
-        user: userSignature,
-        engine: signState(
-          { stateHash: newStateHash } as SessionState,
-          this.enginePrivateKey,
-        ),
-      },
-      timestamp: Date.now(),
+      signatures: { user: "", engine: "" },
+      timestamp: now,
+      ...(currentState.carry && { carry: currentState.carry }),
     };
 
     return {
@@ -198,20 +530,33 @@ export class SessionEngine {
    * Validate that an action can be executed against current state.
    *
    * Checks:
+   * - Session has not expired (maxDuration)
    * - Action type is allowed
    * - Nonce is correct (sequential)
+   * - Action timestamp is close to the engine clock
+   * - Constraints are not violated (see checkActionConstraints)
    * - Balances are sufficient
-   * - Constraints are not violated
    */
   private validateAction(
     state: SessionState,
     action: Action,
     metadata: SessionMetadata,
+    now: number,
   ): {
     valid: boolean;
     error?: string;
     reason?: RejectionReason;
   } {
+    // Check session has not expired (wall clock, engine-side only)
+    const expiresAt = metadata.startTime + metadata.maxDuration * 1000;
+    if (now > expiresAt) {
+      return {
+        valid: false,
+        error: `Session expired at ${expiresAt} (maxDuration ${metadata.maxDuration}s)`,
+        reason: RejectionReason.SESSION_NOT_ACTIVE,
+      };
+    }
+
     // Check action type is allowed
     if (!metadata.allowedActions.includes(action.type)) {
       return {
@@ -230,6 +575,23 @@ export class SessionEngine {
       };
     }
 
+    // Check action timestamp against the engine clock
+    const timestampCheck = checkActionTimestamp(action, now);
+    if (!timestampCheck.valid) {
+      return timestampCheck;
+    }
+
+    // Check metadata constraints (replayable from the action log)
+    const constraintCheck = checkActionConstraints(
+      state.actionLog,
+      action,
+      metadata,
+      state.carry,
+    );
+    if (!constraintCheck.valid) {
+      return constraintCheck;
+    }
+
     // Validate action-specific logic
     switch (action.type) {
       case ActionType.DEDUCT:
@@ -241,6 +603,15 @@ export class SessionEngine {
       case ActionType.DEPOSIT:
         return this.validateDeposit(state, action.params as DepositParams);
 
+      case ActionType.TRADE:
+        return this.validateTrade(state, action.params as TradeParams);
+
+      case ActionType.LEND:
+        return this.validateLend(state, action.params as LendParams);
+
+      case ActionType.STAKE:
+        return this.validateStake(state, action.params as StakeParams);
+
       default:
         return {
           valid: false,
@@ -258,12 +629,49 @@ export class SessionEngine {
     error?: string;
     reason?: RejectionReason;
   } {
-    const currentBalance = state.balances[params.asset] || BigInt(0);
+    const account = params.account || PRIMARY_ACCOUNT;
+    if (isPositionAccount(account)) {
+      return {
+        valid: false,
+        error: `Cannot deduct from position account ${account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isPayeeAccount(account)) {
+      return {
+        valid: false,
+        error: `Cannot deduct from payee account ${account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isCounterpartyAccount(account)) {
+      return {
+        valid: false,
+        error: "Cannot deduct from the counterparty account",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.amount <= BigInt(0)) {
+      return {
+        valid: false,
+        error: "Deduct amount must be positive",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    const currentBalance = getAccountBalance(
+      state.balances,
+      account,
+      params.asset,
+    );
 
     if (currentBalance < params.amount) {
       return {
         valid: false,
-        error: `Insufficient balance for ${params.asset}: have ${currentBalance}, need ${params.amount}`,
+        error: `Insufficient balance for ${params.asset} in ${account}: have ${currentBalance}, need ${params.amount}`,
         reason: RejectionReason.INSUFFICIENT_BALANCE,
       };
     }
@@ -279,12 +687,59 @@ export class SessionEngine {
     error?: string;
     reason?: RejectionReason;
   } {
-    const fromBalance = state.balances[params.asset] || BigInt(0);
+    if (!params.from || !params.to || params.from === params.to) {
+      return {
+        valid: false,
+        error: `Transfer requires two distinct accounts, got ${params.from} -> ${params.to}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isPositionAccount(params.from) || isPositionAccount(params.to)) {
+      return {
+        valid: false,
+        error: "Position accounts can only change through LEND or STAKE",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isPayeeAccount(params.from)) {
+      return {
+        valid: false,
+        error: `Cannot transfer out of payee account ${params.from}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (
+      isCounterpartyAccount(params.from) ||
+      isCounterpartyAccount(params.to)
+    ) {
+      return {
+        valid: false,
+        error: "The counterparty account can only change through TRADE",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.amount <= BigInt(0)) {
+      return {
+        valid: false,
+        error: "Transfer amount must be positive",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    const fromBalance = getAccountBalance(
+      state.balances,
+      params.from,
+      params.asset,
+    );
 
     if (fromBalance < params.amount) {
       return {
         valid: false,
-        error: `Insufficient balance for transfer: have ${fromBalance}, need ${params.amount}`,
+        error: `Insufficient balance for transfer from ${params.from}: have ${fromBalance}, need ${params.amount}`,
         reason: RejectionReason.INSUFFICIENT_BALANCE,
       };
     }
@@ -294,17 +749,253 @@ export class SessionEngine {
 
   private validateDeposit(
     _state: SessionState,
-    _params: DepositParams,
+    params: DepositParams,
   ): {
     valid: boolean;
     error?: string;
     reason?: RejectionReason;
   } {
+    if (params.account && isPositionAccount(params.account)) {
+      return {
+        valid: false,
+        error: `Cannot deposit into position account ${params.account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.account && isPayeeAccount(params.account)) {
+      return {
+        valid: false,
+        error: `Cannot deposit into payee account ${params.account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.account && isCounterpartyAccount(params.account)) {
+      return {
+        valid: false,
+        error: "Cannot deposit into the counterparty account",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.amount <= BigInt(0)) {
+      return {
+        valid: false,
+        error: "Deposit amount must be positive",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
     // Deposits always valid (adds to balance)
     // In production, would verify source and authorization
     return { valid: true };
   }
 
+  private validateTrade(
+    state: SessionState,
+    params: TradeParams,
+  ): {
+    valid: boolean;
+    error?: string;
+    reason?: RejectionReason;
+  } {
+    const account = params.account || PRIMARY_ACCOUNT;
+    if (isPositionAccount(account)) {
+      return {
+        valid: false,
+        error: `Cannot trade from position account ${account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isPayeeAccount(account)) {
+      return {
+        valid: false,
+        error: `Cannot trade from payee account ${account}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isCounterpartyAccount(account)) {
+      return {
+        valid: false,
+        error: "Cannot trade from the counterparty account",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.assetIn === params.assetOut) {
+      return {
+        valid: false,
+        error: `Trade requires two distinct assets, got ${params.assetIn}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (params.amountIn <= BigInt(0) || params.amountOut <= BigInt(0)) {
+      return {
+        valid: false,
+        error: "Trade amounts must be positive",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    // Price bound: the fill must be at least as good as the user accepted
+    if (params.amountOut < params.minAmountOut) {
+      return {
+        valid: false,
+        error: `Trade output ${params.amountOut} ${params.assetOut} below minimum ${params.minAmountOut}`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    const currentBalance = getAccountBalance(
+      state.balances,
+      account,
+      params.assetIn,
+    );
+
+    if (currentBalance < params.amountIn) {
+      return {
+        valid: false,
+        error: `Insufficient balance for trade in ${account}: have ${currentBalance} ${params.assetIn}, need ${params.amountIn}`,
+        reason: RejectionReason.INSUFFICIENT_BALANCE,
+      };
+    }
+
+    // The fill comes out of the counterparty's locked inventory
+    const inventory = getAccountBalance(
+      state.balances,
+      COUNTERPARTY_ACCOUNT,
+      params.assetOut,
+    );
+
+    if (inventory < params.amountOut) {
+      return {
+        valid: false,
+        error: `Insufficient counterparty liquidity: have ${inventory} ${params.assetOut}, need ${params.amountOut}`,
+        reason: RejectionReason.INSUFFICIENT_BALANCE,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  private validateLend(
+    state: SessionState,
+    params: LendParams,
+  ): {
+    valid: boolean;
+    error?: string;
+    reason?: RejectionReason;
+  } {
+    if (!params.marketId) {
+      return {
+        valid: false,
+        error: "Lend requires a market id",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    return this.validatePositionMove(
+      state,
+      params.account || PRIMARY_ACCOUNT,
+      lendPositionAccount(params.marketId),
+      params.operation === LendOperation.SUPPLY,
+      params.asset,
+      params.amount,
+    );
+  }
+
+  private validateStake(
+    state: SessionState,
+    params: StakeParams,
+  ): {
+    valid: boolean;
+    error?: string;
+    reason?: RejectionReason;
+  } {
+    if (!params.validatorId) {
+      return {
+        valid: false,
+        error: "Stake requires a validator id",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    return this.validatePositionMove(
+      state,
+      params.account || PRIMARY_ACCOUNT,
+      stakePositionAccount(params.validatorId),
+      params.operation === StakeOperation.STAKE,
+      params.asset,
+      params.amount,
+    );
+  }
+
+  /**
+   * Validate moving an amount into (opening) or out of (closing)
+   * a lending or staking position.
+   */
+  private validatePositionMove(
+    state: SessionState,
+    account: string,
+    position: string,
+    opening: boolean,
+    asset: string,
+    amount: bigint,
+  ): {
+    valid: boolean;
+    error?: string;
+    reason?: RejectionReason;
+  } {
+    if (isPositionAccount(account)) {
+      return {
+        valid: false,
+        error: `Account ${account} is a position account`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isPayeeAccount(account)) {
+      return {
+        valid: false,
+        error: `Account ${account} is a payee account`,
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (isCounterpartyAccount(account)) {
+      return {
+        valid: false,
+        error: "The counterparty account can only change through TRADE",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    if (amount <= BigInt(0)) {
+      return {
+        valid: false,
+        error: "Position amount must be positive",
+        reason: RejectionReason.CONSTRAINT_VIOLATION,
+      };
+    }
+
+    const source = opening ? account : position;
+    const sourceBalance = getAccountBalance(state.balances, source, asset);
+
+    if (sourceBalance < amount) {
+      return {
+        valid: false,
+        error: `Insufficient ${asset} in ${source}: have ${sourceBalance}, need ${amount}`,
+        reason: RejectionReason.INSUFFICIENT_BALANCE,
+      };
+    }
+
+    return { valid: true };
+  }
+
   // ==========================================================================
   // BALANCE MUTATIONS
   // ==========================================================================
@@ -315,43 +1006,116 @@ export class SessionEngine {
    * Returns null if action cannot be applied (e.g., insufficient balance).
    */
   private applyActionToBalances(
-    currentBalances: Record<string, bigint>,
+    currentBalances: AccountBalances,
     action: Action,
-  ): Record<string, bigint> | null {
-    const newBalances = { ...currentBalances };
+  ): AccountBalances | null {
+    const newBalances = cloneAccountBalances(currentBalances);
 
     switch (action.type) {
       case ActionType.DEDUCT: {
         const params = action.params as DeductParams;
-        const current = newBalances[params.asset] || BigInt(0);
-
-        if (current < params.amount) {
-          return null; // Insufficient balance
-        }
-
-        newBalances[params.asset] = current - params.amount;
-        return newBalances;
+        const ok = debitAccount(
+          newBalances,
+          params.account || PRIMARY_ACCOUNT,
+          params.asset,
+          params.amount,
+        );
+        return ok ? newBalances : null; // null = insufficient balance
       }
 
       case ActionType.DEPOSIT: {
         const params = action.params as DepositParams;
-        const current = newBalances[params.asset] || BigInt(0);
-        newBalances[params.asset] = current + params.amount;
+        creditAccount(
+          newBalances,
+          params.account || PRIMARY_ACCOUNT,
+          params.asset,
+          params.amount,
+        );
         return newBalances;
       }
 
       case ActionType.TRANSFER: {
+        // Move value between internal accounts (session total unchanged)
         const params = action.params as TransferParams;
-        const fromBalance = newBalances[params.asset] || BigInt(0);
+        const ok = moveBalance(
+          newBalances,
+          params.from,
+          params.to,
+          params.asset,
+          params.amount,
+        );
+        return ok ? newBalances : null;
+      }
 
-        if (fromBalance < params.amount) {
-          return null; // Insufficient balance
-        }
+      case ActionType.TRADE: {
+        // Swap with the counterparty at the executed fill: assetIn to it,
+        // assetOut from its inventory (session totals unchanged)
+        const params = action.params as TradeParams;
+        const account = params.account || PRIMARY_ACCOUNT;
+        const ok =
+          moveBalance(
+            newBalances,
+            account,
+            COUNTERPARTY_ACCOUNT,
+            params.assetIn,
+            params.amountIn,
+          ) &&
+          moveBalance(
+            newBalances,
+            COUNTERPARTY_ACCOUNT,
+            account,
+            params.assetOut,
+            params.amountOut,
+          );
+        return ok ? newBalances : null;
+      }
 
-        // In MVP, transfer just moves between conceptual accounts
-        // For simplicity, we just deduct (simulate sending out)
-        newBalances[params.asset] = fromBalance - params.amount;
-        return newBalances;
+      case ActionType.LEND: {
+        // Supplied amounts stay session capital in the market's position
+        const params = action.params as LendParams;
+        const account = params.account || PRIMARY_ACCOUNT;
+        const position = lendPositionAccount(params.marketId);
+        const ok =
+          params.operation === LendOperation.SUPPLY
+            ? moveBalance(
+                newBalances,
+                account,
+                position,
+                params.asset,
+                params.amount,
+              )
+            : moveBalance(
+                newBalances,
+                position,
+                account,
+                params.asset,
+                params.amount,
+              );
+        return ok ? newBalances : null;
+      }
+
+      case ActionType.STAKE: {
+        // Staked amounts stay session capital in the validator's position
+        const params = action.params as StakeParams;
+        const account = params.account || PRIMARY_ACCOUNT;
+        const position = stakePositionAccount(params.validatorId);
+        const ok =
+          params.operation === StakeOperation.STAKE
+            ? moveBalance(
+                newBalances,
+                account,
+                position,
+                params.asset,
+                params.amount,
+              )
+            : moveBalance(
+                newBalances,
+                position,
+                account,
+                params.asset,
+                params.amount,
+              );
+        return ok ? newBalances : null;
       }
 
       default:
@@ -373,15 +1137,21 @@ export class SessionEngine {
    * - Final state (for settlement)
    * - Action log merkle root (for compact verification)
    * - Final balances (for on-chain update)
+   *
+   * For a multi-party session, pass its ParticipantSet: every state must
+   * carry approvals meeting the set's policy.
    */
   generateSettlementProof(
     stateHistory: SessionState[],
     userSettlementSignature: string,
+    participantSet: ParticipantSet | null = null,
   ): SettlementProof {
     if (stateHistory.length === 0) {
       throw new Error("Cannot generate settlement proof: empty state history");
     }
 
+    this.assertApprovals(stateHistory, participantSet);
+
     const finalState = stateHistory[stateHistory.length - 1];
 
     // Compute action log root
@@ -392,11 +1162,97 @@ export class SessionEngine {
       finalState,
       actionLogRoot,
       totalActions: finalState.actionLog.length,
-      finalBalances: finalState.balances,
+      finalBalances: sumAccountBalances(finalState.balances),
+      userSettlementSignature,
+    };
+  }
+
+  /**
+   * Generate a compact settlement proof from state history.
+   *
+   * Instead of every complete state, the proof carries:
+   * - The checkpoint state header and its action log frontier
+   * - For each later state: the action applied and the signed state header
+   *
+   * Size grows linearly with the actions after the checkpoint.
+   * By default the checkpoint is the genesis state, which covers the whole
+   * session like a full proof.
+   */
+  generateCompactSettlementProof(
+    stateHistory: SessionState[],
+    userSettlementSignature: string,
+    checkpointNonce: number = 0,
+    participantSet: ParticipantSet | null = null,
+  ): CompactSettlementProof {
+    const checkpointIndex = stateHistory.findIndex(
+      (state) => state.nonce === checkpointNonce,
+    );
+
+    if (checkpointIndex === -1) {
+      throw new Error(
+        `Cannot generate compact proof: no state at checkpoint nonce ${checkpointNonce}`,
+      );
+    }
+
+    this.assertApprovals(stateHistory.slice(checkpointIndex), participantSet);
+
+    const checkpoint = stateHistory[checkpointIndex];
+    const finalState = stateHistory[stateHistory.length - 1];
+
+    const transitions = stateHistory
+      .slice(checkpointIndex + 1)
+      .map((state, i) => ({
+        actions: appendedActions(stateHistory[checkpointIndex + i], state),
+        state: toStateHeader(state),
+      }));
+
+    return {
+      checkpoint: toStateHeader(checkpoint),
+      checkpointLogFrontier: computeActionLogFrontier(checkpoint.actionLog),
+      transitions,
+      finalState: toStateHeader(finalState),
+      actionLogRoot: computeActionLogRoot(finalState.actionLog),
+      totalActions: finalState.actionLog.length,
+      finalBalances: sumAccountBalances(finalState.balances),
       userSettlementSignature,
     };
   }
 
+  /**
+   * Generate an inclusion proof for a single action in a state's action log.
+   *
+   * The proof verifies against computeActionLogRoot(state.actionLog), i.e.
+   * the actionLogRoot of a settlement proof ending in this state, so the
+   * action can be shown to a counterparty without the state history.
+   *
+   * @param batchIndex - Position within the batch applied at nonce
+   */
+  generateActionProof(
+    state: SessionState,
+    nonce: number,
+    batchIndex: number = 0,
+  ): ActionInclusionProof | null {
+    return new ActionMerkleTree(state.actionLog).getProof(nonce, batchIndex);
+  }
+
+  /**
+   * Refuse to assemble a proof the verifier would reject for missing
+   * approvals. Signatures themselves are verified on settlement.
+   */
+  private assertApprovals(
+    stateHistory: SessionState[],
+    participantSet: ParticipantSet | null,
+  ): void {
+    for (const state of stateHistory) {
+      const approvals = checkStateApprovals(state, participantSet);
+      if (!approvals.valid) {
+        throw new Error(
+          `Cannot generate settlement proof: state ${state.nonce}: ${approvals.error}`,
+        );
+      }
+    }
+  }
+
   // ==========================================================================
   // STATE VERIFICATION
   // ==========================================================================
@@ -404,15 +1260,19 @@ export class SessionEngine {
   /**
    * Verify capital constraint: balances never exceed locked assets.
    *
+   * Checked per asset against the sum across all internal accounts.
+   *
    * This is a fundamental invariant of the protocol.
    * Violating this would allow value creation from nothing.
    */
   verifyCapitalConstraint(
-    balances: Record<string, bigint>,
+    balances: AccountBalances,
     lockedAssets: Record<string, bigint>,
   ): { valid: boolean; error?: string } {
-    for (const asset in balances) {
-      const balance = balances[asset];
+    const totals = sumAccountBalances(balances);
+
+    for (const asset in totals) {
+      const balance = totals[asset];
       const locked = lockedAssets[asset] || BigInt(0);
 
       if (balance > locked) {
@@ -435,17 +1295,19 @@ export class SessionEngine {
    * - Nonce is sequential
    * - Signatures are present
    */
-  verifyStateTransition(
+  async verifyStateTransition(
     previousState: SessionState | null,
     newState: SessionState,
-  ): { valid: boolean; error?: string } {
+  ): Promise<{ valid: boolean; error?: string }> {
     // Verify hash computation
-    const computedHash = computeStateHash(
+    const computedHash = await computeStateHashWith(
+      this.backend,
       newState.sessionId,
       newState.nonce,
       newState.balances,
       newState.previousStateHash,
-      newState.actionLog,
+      computeActionLogRoot(newState.actionLog),
+      newState.carry,
     );
 
     if (computedHash !== newState.stateHash) {
@@ -494,8 +1356,11 @@ export class SessionEngine {
       }
     }
 
-    // Verify signatures exist
-    if (!newState.signatures.user || !newState.signatures.engine) {
+    // Verify signatures exist (owner, or participant approvals)
+    if (
+      !newState.signatures.engine ||
+      (!newState.signatures.user && !newState.signatures.participants?.length)
+    ) {
       return {
         valid: false,
         error: "Missing signatures",
@@ -506,6 +1371,14 @@ export class SessionEngine {
   }
 }
 
+/**
+ * Strip the action log from a state (kept in the hash via its Merkle root).
+ */
+function toStateHeader(state: SessionState): SessionStateHeader {
+  const { actionLog: _actionLog, ...header } = state;
+  return header;
+}
+
 // ============================================================================
 // ACTION BUILDERS (HELPER FUNCTIONS)
 // ============================================================================
@@ -520,6 +1393,7 @@ export function createDeductAction(
   asset: string,
   amount: bigint,
   reason: string,
+  account?: string,
 ): Action {
   return {
     type: ActionType.DEDUCT,
@@ -529,6 +1403,7 @@ export function createDeductAction(
       asset,
       amount,
       reason,
+      ...(account ? { account } : {}),
     },
   };
 }
@@ -538,6 +1413,7 @@ export function createDepositAction(
   asset: string,
   amount: bigint,
   source: string,
+  account?: string,
 ): Action {
   return {
     type: ActionType.DEPOSIT,
@@ -547,6 +1423,7 @@ export function createDepositAction(
       asset,
       amount,
       source,
+      ...(account ? { account } : {}),
     },
   };
 }
@@ -570,3 +1447,71 @@ export function createTransferAction(
     },
   };
 }
+
+export function createTradeAction(
+  nonce: number,
+  assetIn: string,
+  amountIn: bigint,
+  assetOut: string,
+  amountOut: bigint,
+  minAmountOut: bigint,
+  account?: string,
+): Action {
+  return {
+    type: ActionType.TRADE,
+    nonce,
+    timestamp: Date.now(),
+    params: {
+      assetIn,
+      amountIn,
+      assetOut,
+      amountOut,
+      minAmountOut,
+      ...(account ? { account } : {}),
+    },
+  };
+}
+
+export function createLendAction(
+  nonce: number,
+  operation: LendOperation,
+  asset: string,
+  amount: bigint,
+  marketId: string,
+  account?: string,
+): Action {
+  return {
+    type: ActionType.LEND,
+    nonce,
+    timestamp: Date.now(),
+    params: {
+      operation,
+      asset,
+      amount,
+      marketId,
+      ...(account ? { account } : {}),
+    },
+  };
+}
+
+export function createStakeAction(
+  nonce: number,
+  operation: StakeOperation,
+  asset: string,
+  amount: bigint,
+  validatorId: string,
+  account?: string,
+): Action {
+  return {
+    type: ActionType.STAKE,
+    nonce,
+    timestamp: Date.now(),
+    params: {
+      operation,
+      asset,
+      amount,
+      validatorId,
+      ...(account ? { account } : {}),
+    },
+  };
+}
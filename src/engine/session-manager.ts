@@ -0,0 +1,1047 @@
+/**
+ * SessionFi Session Manager
+ *
+ * Owns the lifecycle of sessions on top of the stateless SessionEngine:
+ *
+ *   CREATED -> ACTIVE -> SETTLING -> SETTLED -> CLOSED
+ *                 \          \
+ *                  +----------+--> DISPUTED -> SETTLED | CLOSED
+ *
+ * Responsibilities:
+ * - Create sessions from SessionMetadata and track their status
+ * - Reject illegal status transitions
+ * - Route actions to the engine while ACTIVE (none once SETTLING starts)
+ * - Persist every signed state and a SessionRecord per session through a
+ *   SessionStore, and resume sessions from it after a restart
+ * - Commit checkpoints (with optional withdrawals) while ACTIVE
+ * - Enforce settlementTimeout: past it, the last valid signed state is
+ *   submitted for settlement and settles once its challenge window passes
+ *   (SettlementVerifier.emergencySettle / finalizeSettlement)
+ * - Settle disputed sessions the same way, so a dispute cannot strand
+ *   locked funds
+ * - Emit lifecycle events services can subscribe to
+ */
+
+import {
+  Action,
+  ParticipantSignature,
+  RejectionReason,
+  SessionKeyDelegation,
+  SessionMetadata,
+  SessionObject,
+  SessionState,
+  SessionStatus,
+  SettlementParty,
+  StateTransitionResult,
+} from "../core/types";
+import { sumAccountBalances } from "../core/balances";
+import { addSpend, computeActionSpend } from "../core/delegation";
+import {
+  checkStateApprovals,
+  validateParticipantSet,
+  withParticipantSignature,
+} from "../core/approval";
+import { SettlementVerifier } from "../settlement/verifier";
+import { validatePayoutTerms } from "../settlement/payout";
+import { verifyStateChainSignatures } from "../crypto/primitives";
+import { hashDelegation } from "../crypto/typed-data";
+import {
+  KeyedQueue,
+  MemorySessionStore,
+  SessionRecord,
+  SessionStore,
+} from "../store/session-store";
+import { SessionEngine } from "./session-engine";
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Legal status transitions. Anything not listed is rejected.
+ */
+const ALLOWED_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  [SessionStatus.CREATED]: [SessionStatus.ACTIVE, SessionStatus.CLOSED],
+  [SessionStatus.ACTIVE]: [SessionStatus.SETTLING, SessionStatus.DISPUTED],
+  [SessionStatus.SETTLING]: [SessionStatus.SETTLED, SessionStatus.DISPUTED],
+  [SessionStatus.SETTLED]: [SessionStatus.CLOSED],
+  [SessionStatus.DISPUTED]: [SessionStatus.SETTLED, SessionStatus.CLOSED],
+  [SessionStatus.CLOSED]: [],
+};
+
+/**
+ * Whether a session may move from one status to another.
+ */
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return ALLOWED_TRANSITIONS[from].includes(to);
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export enum SessionEventType {
+  CREATED = "CREATED",
+  RESUMED = "RESUMED",
+  ACTIVATED = "ACTIVATED",
+  ACTION_EXECUTED = "ACTION_EXECUTED",
+  ACTION_REJECTED = "ACTION_REJECTED",
+  CHECKPOINTED = "CHECKPOINTED",
+  SETTLEMENT_STARTED = "SETTLEMENT_STARTED",
+  SETTLEMENT_REJECTED = "SETTLEMENT_REJECTED",
+  SETTLEMENT_TIMED_OUT = "SETTLEMENT_TIMED_OUT",
+  SETTLED = "SETTLED",
+  DISPUTED = "DISPUTED",
+  CLOSED = "CLOSED",
+}
+
+export interface SessionEvent {
+  type: SessionEventType;
+  sessionId: string;
+
+  // Status after the event
+  status: SessionStatus;
+
+  // Status before the event (status-changing events only)
+  previousStatus?: SessionStatus;
+
+  // Latest state (state-changing events only)
+  state?: SessionState;
+
+  // Rejection or dispute reason
+  error?: string;
+
+  timestamp: number;
+}
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+// ============================================================================
+// SESSION MANAGER
+// ============================================================================
+
+/**
+ * Everything the manager tracks per session.
+ */
+interface ManagedSession {
+  object: SessionObject;
+  metadata: SessionMetadata;
+  userPublicKey: string;
+
+  // Latest signed state (null until activation)
+  state: SessionState | null;
+
+  // When SETTLING started (ms), for settlementTimeout
+  settlementStartedAt: number | null;
+
+  // Spend made under each delegation, keyed by hashDelegation
+  delegatedSpend: Map<string, Record<string, bigint>>;
+}
+
+/**
+ * SessionManager drives sessions through their lifecycle.
+ *
+ * Unlike SessionEngine it is stateful: it holds each session's
+ * SessionObject and latest state, and persists states through a store.
+ */
+export class SessionManager {
+  private engine: SessionEngine;
+  private verifier: SettlementVerifier;
+  private store: SessionStore;
+
+  private sessions = new Map<string, ManagedSession>();
+  private listeners = new Set<SessionEventListener>();
+
+  // Calls that read and replace a session's state run one at a time,
+  // so a second call never builds on a state the first is replacing
+  private queue = new KeyedQueue();
+
+  /**
+   * @param engine - Executes actions and signs states
+   * @param verifier - Verifies settlement proofs
+   * @param store - Persists signed states (defaults to in-memory)
+   */
+  constructor(
+    engine: SessionEngine,
+    verifier: SettlementVerifier = new SettlementVerifier(),
+    store: SessionStore = new MemorySessionStore(),
+  ) {
+    this.engine = engine;
+    this.verifier = verifier;
+    this.store = store;
+  }
+
+  // ==========================================================================
+  // EVENTS
+  // ==========================================================================
+
+  /**
+   * Subscribe to lifecycle events. Returns an unsubscribe function.
+   */
+  subscribe(listener: SessionEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(
+    session: ManagedSession,
+    type: SessionEventType,
+    details: Partial<
+      Pick<SessionEvent, "previousStatus" | "state" | "error">
+    > = {},
+  ): void {
+    const event: SessionEvent = {
+      type,
+      sessionId: session.object.sessionId,
+      status: session.object.status,
+      ...details,
+      timestamp: Date.now(),
+    };
+
+    // A failing listener must not break the lifecycle
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Session event listener failed on ${type}:`, error);
+      }
+    }
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  getSession(sessionId: string): SessionObject {
+    return this.get(sessionId).object;
+  }
+
+  getStatus(sessionId: string): SessionStatus {
+    return this.get(sessionId).object.status;
+  }
+
+  getMetadata(sessionId: string): SessionMetadata {
+    return this.get(sessionId).metadata;
+  }
+
+  /** Latest signed state (null until activation) */
+  getLatestState(sessionId: string): SessionState | null {
+    return this.get(sessionId).state;
+  }
+
+  /** Sessions currently tracked */
+  listSessions(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  // ==========================================================================
+  // CREATION & ACTIVATION
+  // ==========================================================================
+
+  /**
+   * Create a session in CREATED status.
+   *
+   * Returns the unsigned initial state; the user signs its stateHash
+   * and passes the signed state to activateSession.
+   */
+  async createSession(
+    metadata: SessionMetadata,
+    lockedAssets: Record<string, bigint>,
+    userPublicKey: string,
+  ): Promise<SessionState> {
+    return this.run(metadata.sessionId, async () => {
+      if (this.sessions.has(metadata.sessionId)) {
+        throw new Error(`Session ${metadata.sessionId} already exists`);
+      }
+
+      if (metadata.participants) {
+        const setCheck = validateParticipantSet(metadata.participants);
+        if (!setCheck.valid) {
+          throw new Error(`Session ${metadata.sessionId}: ${setCheck.error}`);
+        }
+        if (metadata.participants.participants[0] !== userPublicKey) {
+          throw new Error(
+            `Session ${metadata.sessionId}: participant set must start with the owner`,
+          );
+        }
+      }
+
+      if (metadata.payoutTerms) {
+        const termsCheck = validatePayoutTerms(metadata.payoutTerms);
+        if (!termsCheck.valid) {
+          throw new Error(`Session ${metadata.sessionId}: ${termsCheck.error}`);
+        }
+      }
+
+      const session: ManagedSession = {
+        object: {
+          sessionId: metadata.sessionId,
+          ownerEns: metadata.ownerEns,
+          ownerAddress: metadata.ownerAddress,
+          lockedAssets: { ...lockedAssets },
+          status: SessionStatus.CREATED,
+          startTime: metadata.startTime,
+          settlementTime: null,
+          finalStateHash: null,
+          settlementProof: null,
+          pendingSettlement: null,
+          checkpoint: null,
+          participants: metadata.participants ?? null,
+          payoutTerms: metadata.payoutTerms ?? null,
+          payoutPlan: null,
+        },
+        metadata,
+        userPublicKey,
+        state: null,
+        settlementStartedAt: null,
+        delegatedSpend: new Map(),
+      };
+
+      const initialState = await this.engine.createInitialState(
+        metadata.sessionId,
+        lockedAssets,
+        userPublicKey,
+        metadata.counterpartyLiquidity,
+      );
+
+      this.sessions.set(metadata.sessionId, session);
+      this.emit(session, SessionEventType.CREATED);
+
+      return initialState;
+    });
+  }
+
+  /**
+   * Activate a session with the user-signed initial state.
+   * The state is persisted before the session accepts actions.
+   */
+  async activateSession(
+    sessionId: string,
+    initialState: SessionState,
+  ): Promise<SessionObject> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      this.assertTransition(session, SessionStatus.ACTIVE);
+
+      if (initialState.sessionId !== sessionId || initialState.nonce !== 0) {
+        throw new Error(`Session ${sessionId}: not its initial state`);
+      }
+
+      const approvals = checkStateApprovals(
+        initialState,
+        session.object.participants,
+      );
+      if (!approvals.valid) {
+        throw new Error(`Session ${sessionId}: ${approvals.error}`);
+      }
+
+      const signatures = await this.verifyStateSignatures(
+        session,
+        initialState,
+      );
+      if (!signatures.valid) {
+        throw new Error(`Session ${sessionId}: ${signatures.error}`);
+      }
+
+      await this.store.appendState(initialState);
+      session.state = initialState;
+
+      this.transition(
+        session,
+        SessionStatus.ACTIVE,
+        SessionEventType.ACTIVATED,
+      );
+      return session.object;
+    });
+  }
+
+  // ==========================================================================
+  // ACTIONS
+  // ==========================================================================
+
+  /**
+   * Execute an action through the engine.
+   *
+   * Only ACTIVE sessions accept actions. Spend under a delegation is
+   * tracked here, so callers do not pass delegatedSpend.
+   *
+   * In a multi-party session, pass the other participants' signatures
+   * over the new stateHash; the owner's userSignature may then be ""
+   * if the approval policy does not need it.
+   */
+  async executeAction(
+    sessionId: string,
+    action: Action,
+    userSignature: string,
+    delegation?: SessionKeyDelegation,
+    participantSignatures: ParticipantSignature[] = [],
+  ): Promise<StateTransitionResult> {
+    return this.executeBatch(
+      sessionId,
+      [action],
+      userSignature,
+      delegation,
+      participantSignatures,
+    );
+  }
+
+  /**
+   * Compute the state a batch would lead to without executing it
+   * (see SessionEngine.previewBatch). A session key signs its stateHash
+   * and passes the signature as executeBatch's userSignature.
+   */
+  async previewBatch(
+    sessionId: string,
+    actions: Action[],
+    delegation?: SessionKeyDelegation,
+  ): Promise<StateTransitionResult> {
+    const session = this.get(sessionId);
+
+    if (session.object.status !== SessionStatus.ACTIVE || !session.state) {
+      return {
+        success: false,
+        error: `Session not active: ${session.object.status}`,
+        rejectionReason: RejectionReason.SESSION_NOT_ACTIVE,
+      };
+    }
+
+    return this.engine.previewBatch(
+      session.state,
+      actions,
+      session.metadata,
+      delegation,
+      (delegation && session.delegatedSpend.get(hashDelegation(delegation))) ||
+        {},
+    );
+  }
+
+  /**
+   * Execute an ordered batch of actions into one new state
+   * (see SessionEngine.executeBatch). Same rules as executeAction.
+   */
+  async executeBatch(
+    sessionId: string,
+    actions: Action[],
+    userSignature: string,
+    delegation?: SessionKeyDelegation,
+    participantSignatures: ParticipantSignature[] = [],
+  ): Promise<StateTransitionResult> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+
+      if (session.object.status !== SessionStatus.ACTIVE || !session.state) {
+        const error = `Session not active: ${session.object.status}`;
+        this.emit(session, SessionEventType.ACTION_REJECTED, { error });
+        return {
+          success: false,
+          error,
+          rejectionReason: RejectionReason.SESSION_NOT_ACTIVE,
+        };
+      }
+
+      // Spend is tracked per delegation content, not its signature string
+      const delegationId = delegation && hashDelegation(delegation);
+      const spent = delegationId
+        ? session.delegatedSpend.get(delegationId) || {}
+        : {};
+
+      const result = await this.engine.executeBatch(
+        session.state,
+        actions,
+        userSignature,
+        session.metadata,
+        delegation,
+        spent,
+        session.userPublicKey,
+      );
+
+      if (!result.success || !result.newState) {
+        this.emit(session, SessionEventType.ACTION_REJECTED, {
+          error: result.error,
+        });
+        return result;
+      }
+
+      const newState = participantSignatures.reduce(
+        (state, { signer, signature }) =>
+          withParticipantSignature(state, signer, signature),
+        result.newState,
+      );
+
+      const approvals = checkStateApprovals(
+        newState,
+        session.object.participants,
+      );
+      if (!approvals.valid) {
+        this.emit(session, SessionEventType.ACTION_REJECTED, {
+          error: approvals.error,
+        });
+        return {
+          success: false,
+          error: approvals.error,
+          rejectionReason: approvals.reason,
+        };
+      }
+
+      // Only fully signed states are stored
+      const signatures = await this.verifyStateSignatures(session, newState);
+      if (!signatures.valid) {
+        this.emit(session, SessionEventType.ACTION_REJECTED, {
+          error: signatures.error,
+        });
+        return {
+          success: false,
+          error: signatures.error,
+          rejectionReason: RejectionReason.INVALID_SIGNATURE,
+        };
+      }
+
+      // Settlement may have started while the engine was signing
+      if (session.object.status !== SessionStatus.ACTIVE) {
+        const error = `Session not active: ${session.object.status}`;
+        this.emit(session, SessionEventType.ACTION_REJECTED, { error });
+        return {
+          success: false,
+          error,
+          rejectionReason: RejectionReason.SESSION_NOT_ACTIVE,
+        };
+      }
+
+      await this.store.appendState(newState);
+      session.state = newState;
+
+      if (delegationId) {
+        session.delegatedSpend.set(
+          delegationId,
+          actions.reduce(
+            (total, action) => addSpend(total, computeActionSpend(action)),
+            spent,
+          ),
+        );
+      }
+
+      this.emit(session, SessionEventType.ACTION_EXECUTED, {
+        state: newState,
+      });
+      return { ...result, newState };
+    });
+  }
+
+  // ==========================================================================
+  // CHECKPOINTS
+  // ==========================================================================
+
+  /**
+   * Prepare a checkpoint of the latest state, withdrawing from the
+   * primary account. Returns the engine-signed genesis the session
+   * continues from; the user signs it and passes it to commitCheckpoint.
+   */
+  async prepareCheckpoint(
+    sessionId: string,
+    withdrawals: Record<string, bigint> = {},
+  ): Promise<SessionState> {
+    const session = this.get(sessionId);
+
+    if (session.object.status !== SessionStatus.ACTIVE || !session.state) {
+      throw new Error(
+        `Session ${sessionId}: cannot checkpoint while ${session.object.status}`,
+      );
+    }
+
+    return this.engine.createCheckpointGenesis(session.state, withdrawals);
+  }
+
+  /**
+   * Commit a checkpoint with the user-signed genesis. The session stays
+   * ACTIVE and continues from the genesis; later settlement proofs start
+   * there.
+   */
+  async commitCheckpoint(
+    sessionId: string,
+    genesis: SessionState,
+  ): Promise<{ success: boolean; error?: string; session: SessionObject }> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      const checkpointState = session.state;
+
+      if (
+        session.object.status !== SessionStatus.ACTIVE ||
+        !checkpointState ||
+        genesis.previousStateHash !== checkpointState.stateHash
+      ) {
+        const error = `Session ${sessionId}: genesis does not continue the latest state`;
+        return { success: false, error, session: session.object };
+      }
+
+      // Withdrawn = checkpoint balances - genesis balances
+      const before = sumAccountBalances(checkpointState.balances);
+      const after = sumAccountBalances(genesis.balances);
+      const withdrawals: Record<string, bigint> = {};
+      for (const asset of Object.keys(before)) {
+        withdrawals[asset] = before[asset] - (after[asset] || BigInt(0));
+      }
+
+      const result = await this.verifier.verifyAndCheckpoint(
+        session.object,
+        checkpointState,
+        genesis,
+        withdrawals,
+        session.userPublicKey,
+        await this.engine.getEnginePublicKey(),
+      );
+
+      if (!result.success || !result.checkpointedSession) {
+        return { success: false, error: result.error, session: session.object };
+      }
+
+      await this.store.appendState(genesis);
+      session.state = genesis;
+      session.object = result.checkpointedSession;
+
+      this.emit(session, SessionEventType.CHECKPOINTED, { state: genesis });
+      return { success: true, session: session.object };
+    });
+  }
+
+  // ==========================================================================
+  // SETTLEMENT
+  // ==========================================================================
+
+  /**
+   * Start settlement: ACTIVE -> SETTLING.
+   *
+   * No actions are accepted from here on, and the settlementTimeout
+   * clock starts.
+   */
+  async beginSettlement(sessionId: string): Promise<SessionObject> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      this.assertTransition(session, SessionStatus.SETTLING);
+
+      session.settlementStartedAt = Date.now();
+      this.transition(
+        session,
+        SessionStatus.SETTLING,
+        SessionEventType.SETTLEMENT_STARTED,
+      );
+      return session.object;
+    });
+  }
+
+  /**
+   * Settle with the user's settlement signature: SETTLING -> SETTLED.
+   *
+   * Builds a full settlement proof from the stored history and verifies
+   * it. A rejected proof leaves the session SETTLING; past the
+   * settlement timeout, settle with enforceSettlementTimeouts instead.
+   */
+  async settle(
+    sessionId: string,
+    userSettlementSignature: string,
+  ): Promise<{ success: boolean; error?: string; session: SessionObject }> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+
+      if (session.object.status !== SessionStatus.SETTLING) {
+        throw new Error(
+          `Session ${sessionId}: settlement not started (${session.object.status})`,
+        );
+      }
+
+      if (this.isSettlementExpired(session)) {
+        const error = "Settlement timeout expired";
+        this.emit(session, SessionEventType.SETTLEMENT_REJECTED, { error });
+        return { success: false, error, session: session.object };
+      }
+
+      // Proofs cover the states since the last checkpoint
+      const history = await this.store.loadHistory(
+        sessionId,
+        session.object.checkpoint?.genesisNonce ?? 0,
+      );
+      const proof = this.engine.generateSettlementProof(
+        history,
+        userSettlementSignature,
+        session.object.participants,
+      );
+      await this.store.savePendingSettlement(sessionId, proof);
+
+      const result = await this.verifier.verifyAndSettle(
+        session.object,
+        proof,
+        session.userPublicKey,
+        await this.engine.getEnginePublicKey(),
+      );
+
+      if (!result.success || !result.settledSession) {
+        this.emit(session, SessionEventType.SETTLEMENT_REJECTED, {
+          error: result.error,
+        });
+        return { success: false, error: result.error, session: session.object };
+      }
+
+      this.completeSettlement(session, result.settledSession);
+      return { success: true, session: session.object };
+    });
+  }
+
+  /**
+   * Drive unilateral settlement:
+   * - SETTLING past its settlement timeout: submit the last valid signed
+   *   state, opening a challenge window (SettlementVerifier.emergencySettle)
+   * - Challenge window passed: settle on the pending state
+   *
+   * Returns the session ids settled by this call.
+   * Call periodically; the manager runs no timers of its own.
+   */
+  async enforceSettlementTimeouts(): Promise<string[]> {
+    const settled: string[] = [];
+
+    for (const sessionId of this.sessions.keys()) {
+      const done = await this.run(sessionId, () =>
+        this.enforceSettlementTimeout(this.get(sessionId)),
+      );
+      if (done) {
+        settled.push(sessionId);
+      }
+    }
+
+    return settled;
+  }
+
+  /**
+   * One session's step of enforceSettlementTimeouts.
+   * Returns true once the session is settled.
+   */
+  private async enforceSettlementTimeout(
+    session: ManagedSession,
+  ): Promise<boolean> {
+    const { status, pendingSettlement } = session.object;
+
+    if (
+      pendingSettlement &&
+      (status === SessionStatus.SETTLING || status === SessionStatus.DISPUTED)
+    ) {
+      if (Date.now() <= pendingSettlement.challengeDeadline) {
+        return false;
+      }
+
+      const result = this.verifier.finalizeSettlement(session.object);
+      if (result.success && result.settledSession) {
+        this.completeSettlement(session, result.settledSession);
+        return true;
+      }
+      return false;
+    }
+
+    if (
+      status !== SessionStatus.SETTLING ||
+      !this.isSettlementExpired(session) ||
+      !session.state
+    ) {
+      return false;
+    }
+
+    const result = await this.verifier.emergencySettle(
+      session.object,
+      session.state,
+      session.userPublicKey,
+      await this.engine.getEnginePublicKey(),
+      session.metadata.settlementTimeout,
+      SettlementParty.ENGINE,
+    );
+
+    if (!result.success || !result.pendingSession) {
+      this.emit(session, SessionEventType.SETTLEMENT_REJECTED, {
+        error: result.error,
+      });
+      return false;
+    }
+
+    session.object = result.pendingSession;
+    this.emit(session, SessionEventType.SETTLEMENT_TIMED_OUT, {
+      state: session.state,
+    });
+    return false;
+  }
+
+  /**
+   * Challenge a pending unilateral settlement with a newer co-signed
+   * state: SETTLING | DISPUTED -> DISPUTED, restarting the challenge window.
+   */
+  async challengeSettlement(
+    sessionId: string,
+    newerState: SessionState,
+    challenger: SettlementParty,
+  ): Promise<{ success: boolean; error?: string; session: SessionObject }> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      const previousStatus = session.object.status;
+
+      if (previousStatus !== SessionStatus.DISPUTED) {
+        this.assertTransition(session, SessionStatus.DISPUTED);
+      }
+
+      const result = await this.verifier.challengeSettlement(
+        session.object,
+        newerState,
+        challenger,
+        session.userPublicKey,
+        await this.engine.getEnginePublicKey(),
+        session.metadata.settlementTimeout,
+      );
+
+      if (!result.success || !result.disputedSession) {
+        this.emit(session, SessionEventType.SETTLEMENT_REJECTED, {
+          error: result.error,
+        });
+        return { success: false, error: result.error, session: session.object };
+      }
+
+      session.object = result.disputedSession;
+      this.emit(session, SessionEventType.DISPUTED, {
+        previousStatus,
+        state: newerState,
+      });
+      return { success: true, session: session.object };
+    });
+  }
+
+  private isSettlementExpired(session: ManagedSession): boolean {
+    return (
+      session.settlementStartedAt !== null &&
+      Date.now() >
+        session.settlementStartedAt + session.metadata.settlementTimeout * 1000
+    );
+  }
+
+  private completeSettlement(
+    session: ManagedSession,
+    settledSession: SessionObject,
+  ): void {
+    this.assertTransition(session, SessionStatus.SETTLED);
+
+    const previousStatus = session.object.status;
+    session.object = settledSession;
+    this.emit(session, SessionEventType.SETTLED, {
+      previousStatus,
+      state: session.state ?? undefined,
+    });
+  }
+
+  // ==========================================================================
+  // DISPUTE & CLOSE
+  // ==========================================================================
+
+  /**
+   * Raise a dispute: ACTIVE | SETTLING -> DISPUTED.
+   *
+   * A disputed session settles through its pending settlement. Without
+   * one, the last co-signed state is submitted for settlement
+   * (SettlementVerifier.emergencySettle), opening a challenge window;
+   * if it is rejected the session keeps its status.
+   */
+  async dispute(
+    sessionId: string,
+    reason: string,
+    raisedBy: SettlementParty = SettlementParty.USER,
+  ): Promise<{ success: boolean; error?: string; session: SessionObject }> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      this.assertTransition(session, SessionStatus.DISPUTED);
+      const previousStatus = session.object.status;
+
+      if (!session.object.pendingSettlement) {
+        if (!session.state) {
+          throw new Error(`Session ${sessionId}: no signed state to settle`);
+        }
+
+        const result = await this.verifier.emergencySettle(
+          session.object,
+          session.state,
+          session.userPublicKey,
+          await this.engine.getEnginePublicKey(),
+          session.metadata.settlementTimeout,
+          raisedBy,
+        );
+
+        if (!result.success || !result.pendingSession) {
+          this.emit(session, SessionEventType.SETTLEMENT_REJECTED, {
+            error: result.error,
+          });
+          return {
+            success: false,
+            error: result.error,
+            session: session.object,
+          };
+        }
+
+        session.object = result.pendingSession;
+      }
+
+      session.object = { ...session.object, status: SessionStatus.DISPUTED };
+      this.emit(session, SessionEventType.DISPUTED, {
+        previousStatus,
+        state: session.object.pendingSettlement?.state,
+        error: reason,
+      });
+      return { success: true, session: session.object };
+    });
+  }
+
+  /**
+   * Close a session: CREATED | SETTLED | DISPUTED -> CLOSED.
+   * Stored states are kept; drop them with the store's removeSession.
+   */
+  async close(sessionId: string): Promise<SessionObject> {
+    return this.run(sessionId, async () => {
+      const session = this.get(sessionId);
+      this.assertTransition(session, SessionStatus.CLOSED);
+
+      this.transition(session, SessionStatus.CLOSED, SessionEventType.CLOSED);
+      return session.object;
+    });
+  }
+
+  // ==========================================================================
+  // RESUMPTION
+  // ==========================================================================
+
+  /**
+   * Resume a session from the store after a restart: its record and its
+   * latest stored state. The stored state chain wins over a record that
+   * lags behind it.
+   */
+  async resume(sessionId: string): Promise<SessionObject> {
+    return this.queue.run(sessionId, async () => {
+      if (this.sessions.has(sessionId)) {
+        throw new Error(`Session ${sessionId} already exists`);
+      }
+
+      const record = await this.store.loadSessionRecord(sessionId);
+      if (!record) {
+        throw new Error(`Session ${sessionId}: no stored session record`);
+      }
+
+      const session: ManagedSession = {
+        object: record.object,
+        metadata: record.metadata,
+        userPublicKey: record.userPublicKey,
+        state: await this.store.loadLatestState(sessionId),
+        settlementStartedAt: record.settlementStartedAt,
+        delegatedSpend: new Map(Object.entries(record.delegatedSpend)),
+      };
+
+      this.sessions.set(sessionId, session);
+      this.emit(session, SessionEventType.RESUMED, {
+        state: session.state ?? undefined,
+      });
+      return session.object;
+    });
+  }
+
+  /**
+   * Resume every stored session not tracked yet.
+   * Sessions never activated have no stored state and are not resumed.
+   * Returns the session ids resumed.
+   */
+  async restoreAll(): Promise<string[]> {
+    const resumed: string[] = [];
+
+    for (const sessionId of await this.store.listSessions()) {
+      if (this.sessions.has(sessionId)) {
+        continue;
+      }
+      await this.resume(sessionId);
+      resumed.push(sessionId);
+    }
+
+    return resumed;
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Verify every signature a state needs before it is stored: owner or
+   * session key, participants under the approval policy, and engine.
+   */
+  private async verifyStateSignatures(
+    session: ManagedSession,
+    state: SessionState,
+  ): Promise<{ valid: boolean; error?: string }> {
+    return verifyStateChainSignatures(
+      [state],
+      session.userPublicKey,
+      await this.engine.getEnginePublicKey(),
+      this.engine.getSignatureVerifier(),
+      session.object.participants,
+    );
+  }
+
+  /**
+   * Run a call on one session after the calls queued before it, then
+   * save the session's record.
+   */
+  private run<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+    return this.queue.run(sessionId, async () => {
+      const result = await task();
+
+      const session = this.sessions.get(sessionId);
+      if (session) {
+        await this.store.saveSessionRecord(toSessionRecord(session));
+      }
+      return result;
+    });
+  }
+
+  private get(sessionId: string): ManagedSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    return session;
+  }
+
+  private assertTransition(session: ManagedSession, to: SessionStatus): void {
+    const from = session.object.status;
+    if (!canTransition(from, to)) {
+      throw new Error(
+        `Illegal transition for session ${session.object.sessionId}: ${from} -> ${to}`,
+      );
+    }
+  }
+
+  private transition(
+    session: ManagedSession,
+    to: SessionStatus,
+    type: SessionEventType,
+    error?: string,
+  ): void {
+    this.assertTransition(session, to);
+
+    const previousStatus = session.object.status;
+    session.object = { ...session.object, status: to };
+    this.emit(session, type, {
+      previousStatus,
+      ...(error && { error }),
+    });
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toSessionRecord(session: ManagedSession): SessionRecord {
+  return {
+    object: session.object,
+    metadata: session.metadata,
+    userPublicKey: session.userPublicKey,
+    settlementStartedAt: session.settlementStartedAt,
+    delegatedSpend: Object.fromEntries(session.delegatedSpend),
+  };
+}
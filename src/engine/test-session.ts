@@ -0,0 +1,959 @@
+/**
+ * Session Lifecycle Test
+ *
+ * Exercises the session engine, manager and settlement verifier end to end:
+ * signatures, constraints, checkpoints, settlement, fraud proofs, concurrent
+ * calls and resuming sessions from a file store.
+ * Run with: npx tsx src/engine/test-session.ts
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ethers } from "ethers";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+  Action,
+  ActionType,
+  ApprovalPolicyType,
+  PayoutKind,
+  SessionMetadata,
+  SessionObject,
+  SessionState,
+  SessionStatus,
+  StakeOperation,
+} from "../core/types";
+import { addSpend, computeActionSpend } from "../core/delegation";
+import {
+  computeStateHash,
+  generateKeyPair,
+  signSettlement,
+  signState,
+  verifyStateChain,
+  verifyStateChainSignatures,
+} from "../crypto/primitives";
+import {
+  EthersWalletSigner,
+  RawKeySigner,
+  SuiKeypairSigner,
+  Verifier,
+  rawKeyVerifier,
+  signStateWith,
+} from "../crypto/signer";
+import { signDelegation } from "../crypto/typed-data";
+import {
+  AdvancedSettlementVerifier,
+  FraudType,
+} from "../amm/settlement/advanced-verifier";
+import { SettlementVerifier } from "../settlement/verifier";
+import { FileSessionStore } from "../store/file-session-store";
+import {
+  SessionEngine,
+  createDeductAction,
+  createStakeAction,
+} from "./session-engine";
+import { SessionManager } from "./session-manager";
+
+const user = generateKeyPair();
+const engineKeys = generateKeyPair();
+const engine = new SessionEngine(new RawKeySigner(engineKeys.privateKey));
+
+let failures = 0;
+
+function check(condition: boolean, label: string): void {
+  if (condition) {
+    console.log(`✅ ${label}`);
+  } else {
+    failures++;
+    console.error(`❌ ${label}`);
+  }
+}
+
+async function expectThrow(
+  fn: () => Promise<unknown>,
+  label: string,
+): Promise<void> {
+  try {
+    await fn();
+    check(false, label);
+  } catch {
+    check(true, label);
+  }
+}
+
+function metadata(
+  sessionId: string,
+  extra: Partial<SessionMetadata> = {},
+): SessionMetadata {
+  return {
+    sessionId,
+    ownerEns: "owner.eth",
+    ownerAddress: user.address,
+    startTime: Date.now() - 1000,
+    maxDuration: 3600,
+    settlementTimeout: 60,
+    allowedActions: Object.values(ActionType),
+    ...extra,
+  };
+}
+
+function signByUser<T extends SessionState>(state: T): T {
+  state.signatures.user = signState(state, user.privateKey);
+  return state;
+}
+
+function signByEngine<T extends SessionState>(state: T): T {
+  state.signatures.engine = signState(state, engineKeys.privateKey);
+  return state;
+}
+
+/**
+ * Create and activate a user-signed session on the manager.
+ */
+async function openSession(
+  manager: SessionManager,
+  meta: SessionMetadata,
+  locked: Record<string, bigint>,
+): Promise<void> {
+  const initial = await manager.createSession(meta, locked, user.publicKey);
+  await manager.activateSession(meta.sessionId, signByUser(initial));
+}
+
+/**
+ * Dry-run the action to learn the next state, then submit it with the
+ * user's signature over that state.
+ */
+async function userAction(
+  manager: SessionManager,
+  sessionId: string,
+  action: Action,
+): Promise<{ success: boolean; error?: string }> {
+  const dryRun = await engine.executeAction(
+    manager.getLatestState(sessionId)!,
+    action,
+    "",
+    manager.getMetadata(sessionId),
+  );
+  if (!dryRun.success) {
+    return dryRun;
+  }
+  return manager.executeAction(
+    sessionId,
+    action,
+    signState(dryRun.newState!, user.privateKey),
+  );
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+async function testSignatures() {
+  console.log("\n--- Signatures ---");
+
+  const manager = new SessionManager(engine);
+  const meta = metadata("sig");
+  const initial = await manager.createSession(
+    meta,
+    { USDC: 100n },
+    user.publicKey,
+  );
+
+  initial.signatures.user = "00".repeat(64);
+  await expectThrow(
+    () => manager.activateSession("sig", initial),
+    "Activation rejects a forged user signature",
+  );
+  await manager.activateSession("sig", signByUser(initial));
+
+  const action = createDeductAction(1, "USDC", 5n, "fee");
+  const forged = await manager.executeAction("sig", action, "00".repeat(64));
+  check(!forged.success, "Action with a forged user signature is rejected");
+  const unsigned = await manager.executeAction("sig", action, "");
+  check(!unsigned.success, "Action without a user signature is rejected");
+  check(
+    (await userAction(manager, "sig", action)).success,
+    "Action signed by the user is accepted",
+  );
+
+  // Threshold 1 of 2: a participant may approve without the owner
+  const bob = generateKeyPair();
+  const parts = metadata("parts", {
+    participants: {
+      participants: [user.publicKey, bob.publicKey],
+      policy: { type: ApprovalPolicyType.THRESHOLD, threshold: 1 },
+    },
+  });
+  await openSession(manager, parts, { USDC: 100n });
+
+  const next = await engine.executeAction(
+    manager.getLatestState("parts")!,
+    action,
+    "",
+    parts,
+  );
+  const bobForged = await manager.executeAction(
+    "parts",
+    action,
+    "",
+    undefined,
+    [{ signer: bob.publicKey, signature: "00".repeat(64) }],
+  );
+  check(!bobForged.success, "Forged participant signature is rejected");
+  const bobSigned = await manager.executeAction(
+    "parts",
+    action,
+    "",
+    undefined,
+    [
+      {
+        signer: bob.publicKey,
+        signature: signState(next.newState!, bob.privateKey),
+      },
+    ],
+  );
+  check(bobSigned.success, "Participant approval meets the threshold");
+}
+
+async function testDelegation() {
+  console.log("\n--- Session key delegation ---");
+
+  const sessionKey = generateKeyPair();
+  const other = generateKeyPair();
+  const meta = metadata("deleg");
+  const delegation = await signDelegation(new RawKeySigner(user.privateKey), {
+    sessionId: "deleg",
+    sessionKey: sessionKey.publicKey,
+    expiresAt: Date.now() + 60_000,
+    scope: {
+      allowedActionTypes: [ActionType.DEDUCT],
+      allowedIntentTypes: [],
+      allowedAssets: ["USDC"],
+      spendCaps: { USDC: 20n },
+    },
+  });
+
+  let state = signByUser(
+    await engine.createInitialState("deleg", { USDC: 1000n }, user.publicKey),
+  );
+  let spent: Record<string, bigint> = {};
+
+  const run = async (
+    action: Action,
+    signingKey = sessionKey.privateKey,
+    grant = delegation,
+  ) => {
+    const preview = await engine.previewBatch(
+      state,
+      [action],
+      meta,
+      grant,
+      spent,
+    );
+    if (!preview.success) {
+      return preview;
+    }
+    const signature = await signStateWith(
+      new RawKeySigner(signingKey),
+      preview.newState!,
+    );
+    const result = await engine.executeAction(
+      state,
+      action,
+      signature,
+      meta,
+      grant,
+      spent,
+      user.publicKey,
+    );
+    if (result.success) {
+      state = result.newState!;
+      spent = addSpend(spent, computeActionSpend(action));
+    }
+    return result;
+  };
+
+  check(
+    (await run(createDeductAction(1, "USDC", 10n, "fee"))).success,
+    "Session key acts within its delegation",
+  );
+  check(
+    !(await run(createDeductAction(2, "USDC", 1n, "fee"), other.privateKey))
+      .success,
+    "State signed by another key is rejected",
+  );
+
+  const foreignOwner = await signDelegation(
+    new RawKeySigner(other.privateKey),
+    delegation,
+  );
+  check(
+    !(
+      await run(
+        createDeductAction(2, "USDC", 1n, "fee"),
+        sessionKey.privateKey,
+        { ...delegation, ownerSignature: foreignOwner.ownerSignature },
+      )
+    ).success,
+    "Delegation signed by someone other than the owner is rejected",
+  );
+
+  check(
+    (await run(createDeductAction(2, "USDC", 10n, "fee"))).success,
+    "Session key spends up to its cap",
+  );
+  check(
+    !(await run(createDeductAction(3, "USDC", 1n, "fee"))).success,
+    "Session key cannot exceed its spend cap",
+  );
+}
+
+async function testMixedWallets() {
+  console.log("\n--- Mixed wallets ---");
+
+  // EVM wallet owner and Sui participant alongside the raw-key engine
+  const owner = new EthersWalletSigner(ethers.Wallet.createRandom());
+  const sui = new SuiKeypairSigner(new Ed25519Keypair());
+  const ownerId = await owner.getPublicKey();
+  const suiId = await sui.getPublicKey();
+
+  const manager = new SessionManager(engine, new SettlementVerifier());
+  const meta = metadata("mixed", {
+    ownerAddress: ownerId,
+    participants: {
+      participants: [ownerId, suiId],
+      policy: { type: ApprovalPolicyType.ALL },
+    },
+  });
+  const initial = await manager.createSession(meta, { USDC: 100n }, ownerId);
+  initial.signatures.user = await signStateWith(owner, initial);
+  initial.signatures.participants = [
+    { signer: suiId, signature: await signStateWith(sui, initial) },
+  ];
+  await manager.activateSession("mixed", initial);
+  check(
+    manager.getStatus("mixed") === SessionStatus.ACTIVE,
+    "EVM owner and Sui participant activate a raw-key engine session",
+  );
+
+  const action = createDeductAction(1, "USDC", 5n, "fee");
+  const next = (
+    await engine.executeAction(
+      manager.getLatestState("mixed")!,
+      action,
+      "",
+      meta,
+    )
+  ).newState!;
+  const approvals = [
+    { signer: suiId, signature: await signStateWith(sui, next) },
+  ];
+
+  const rawOwner = await manager.executeAction(
+    "mixed",
+    action,
+    signState(next, user.privateKey),
+    undefined,
+    approvals,
+  );
+  check(!rawOwner.success, "Raw-key signature does not pass for the EVM owner");
+  const signed = await manager.executeAction(
+    "mixed",
+    action,
+    await signStateWith(owner, next),
+    undefined,
+    approvals,
+  );
+  check(signed.success, "Each signer is verified in its own format");
+
+  const latest = [manager.getLatestState("mixed")!];
+  const chain = (verifier?: Verifier) =>
+    verifyStateChainSignatures(
+      latest,
+      ownerId,
+      engineKeys.publicKey,
+      verifier,
+      meta.participants,
+    );
+  check((await chain()).valid, "Mixed-wallet state chain verifies");
+  check(
+    !(await chain(rawKeyVerifier)).valid,
+    "A raw-key-only verifier rejects the EVM owner",
+  );
+
+  await manager.beginSettlement("mixed");
+  const settled = await manager.settle("mixed", "settle");
+  check(settled.success, "Mixed-wallet session settles");
+}
+
+// ============================================================================
+// CONSTRAINTS
+// ============================================================================
+
+async function testConstraints() {
+  console.log("\n--- Constraints ---");
+
+  const meta = metadata("limits", {
+    actionConstraints: { maxActionsPerSecond: 1 },
+  });
+  const genesis = await engine.createInitialState(
+    "limits",
+    { USDC: 100n },
+    user.publicKey,
+  );
+  const at = (timestamp: number) => ({
+    ...createDeductAction(1, "USDC", 1n, "fee"),
+    timestamp,
+  });
+  const now = Date.now();
+
+  const spread = await engine.executeBatch(
+    genesis,
+    [at(now), at(now + 1001), at(now + 2002)],
+    "",
+    meta,
+  );
+  check(
+    !spread.success,
+    "Future-dated actions cannot spread a batch past the rate limit",
+  );
+  check(
+    !(await engine.executeBatch(genesis, [at(now + 3_600_000)], "", meta))
+      .success,
+    "Action timestamp far ahead of the engine clock is rejected",
+  );
+  check(
+    !(await engine.executeBatch(genesis, [at(now - 3_600_000)], "", meta))
+      .success,
+    "Action timestamp far behind the engine clock is rejected",
+  );
+  check(
+    !(await engine.executeBatch(genesis, [at(now), at(now + 10)], "", meta))
+      .success,
+    "Rate limit rejects a second action in the same window",
+  );
+  check(
+    (await engine.executeBatch(genesis, [at(now)], "", meta)).success,
+    "Action stamped with the engine clock is accepted",
+  );
+}
+
+// ============================================================================
+// CHECKPOINTS
+// ============================================================================
+
+async function testCheckpoints() {
+  console.log("\n--- Checkpoints ---");
+
+  const manager = new SessionManager(engine, new SettlementVerifier());
+  const meta = metadata("cp", {
+    actionConstraints: {
+      maxTotalDeduction: { USDC: 25n },
+      maxActionsPerSecond: 2,
+    },
+  });
+  await openSession(manager, meta, { USDC: 100n });
+
+  await userAction(manager, "cp", createDeductAction(1, "USDC", 10n, "fee"));
+  await userAction(manager, "cp", createDeductAction(2, "USDC", 10n, "fee"));
+
+  const genesis = signByUser(await manager.prepareCheckpoint("cp"));
+  check(
+    genesis.carry?.totalDeductions.USDC === 20n,
+    "Checkpoint genesis carries the deduction total",
+  );
+
+  // A genesis that drops the carry resets the limits, even if fully signed
+  const forged = structuredClone(genesis);
+  delete forged.carry;
+  forged.stateHash = computeStateHash(
+    "cp",
+    forged.nonce,
+    forged.balances,
+    forged.previousStateHash,
+    [],
+  );
+  signByUser(signByEngine(forged));
+  check(
+    !(await manager.commitCheckpoint("cp", forged)).success,
+    "Checkpoint genesis without the carry is rejected",
+  );
+  check(
+    (await manager.commitCheckpoint("cp", genesis)).success,
+    "Checkpoint genesis with the carry is committed",
+  );
+
+  check(
+    !(await userAction(manager, "cp", createDeductAction(4, "USDC", 1n, "fee")))
+      .success,
+    "Rate limit still applies right after the checkpoint",
+  );
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  check(
+    !(
+      await userAction(manager, "cp", createDeductAction(4, "USDC", 10n, "fee"))
+    ).success,
+    "Deduction total still applies after the checkpoint",
+  );
+  check(
+    (await userAction(manager, "cp", createDeductAction(4, "USDC", 5n, "fee")))
+      .success,
+    "Deduction within the carried total is accepted",
+  );
+
+  const latest = manager.getLatestState("cp")!;
+  const checkpoint = manager.getSession("cp").checkpoint!;
+  check(
+    (await verifyStateChain([genesis, latest], undefined, checkpoint)).valid,
+    "Chain from the checkpoint genesis verifies",
+  );
+  check(
+    !(
+      await verifyStateChain(
+        [
+          genesis,
+          {
+            ...latest,
+            carry: { totalDeductions: {}, recentActionTimestamps: [] },
+          },
+        ],
+        undefined,
+        checkpoint,
+      )
+    ).valid,
+    "Chain with a rewritten carry fails",
+  );
+
+  await manager.beginSettlement("cp");
+  const settled = await manager.settle("cp", "settle");
+  check(
+    settled.success && settled.session.status === SessionStatus.SETTLED,
+    "Checkpointed session settles",
+  );
+}
+
+// ============================================================================
+// SETTLEMENT
+// ============================================================================
+
+async function testSettlement() {
+  console.log("\n--- Settlement ---");
+
+  const meta = metadata("settle");
+  let state = signByUser(
+    await engine.createInitialState("settle", { USDC: 1000n }, user.publicKey),
+  );
+  const history = [state];
+  const action = createDeductAction(1, "USDC", 10n, "fee");
+  const next = await engine.executeAction(state, action, "", meta);
+  state = (
+    await engine.executeAction(
+      state,
+      action,
+      signState(next.newState!, user.privateKey),
+      meta,
+    )
+  ).newState!;
+  history.push(state);
+
+  const sessionObject = (): SessionObject => ({
+    sessionId: "settle",
+    ownerEns: meta.ownerEns,
+    ownerAddress: user.address,
+    lockedAssets: { USDC: 1000n },
+    status: SessionStatus.ACTIVE,
+    startTime: meta.startTime,
+    settlementTime: null,
+    finalStateHash: null,
+    settlementProof: null,
+    pendingSettlement: null,
+    checkpoint: null,
+    participants: null,
+    payoutTerms: null,
+    payoutPlan: null,
+  });
+  const proof = engine.generateSettlementProof(
+    history,
+    signSettlement("settle", state.stateHash, user.privateKey),
+  );
+  const verifier = new SettlementVerifier();
+
+  const honest = await verifier.verifyAndSettle(
+    sessionObject(),
+    proof,
+    user.publicKey,
+    engineKeys.publicKey,
+  );
+  check(honest.success, "Honest settlement proof settles");
+
+  // Same hash, inflated contents: payouts must follow the verified history
+  const inflated = await verifier.verifyAndSettle(
+    sessionObject(),
+    {
+      ...proof,
+      finalState: {
+        ...proof.finalState,
+        balances: { primary: { USDC: 1000n } },
+      },
+    },
+    user.publicKey,
+    engineKeys.publicKey,
+  );
+  const refund = inflated.settledSession?.payoutPlan?.payouts.find(
+    (payout) => payout.kind === PayoutKind.OWNER_REFUND,
+  );
+  check(
+    !inflated.success || refund?.amount === 990n,
+    "Rewritten proof.finalState does not change the payouts",
+  );
+
+  const truncated = await verifier.verifyAndSettle(
+    sessionObject(),
+    { ...proof, stateHistory: [history[0]] },
+    user.publicKey,
+    engineKeys.publicKey,
+  );
+  check(!truncated.success, "Proof whose history omits the final state fails");
+}
+
+// ============================================================================
+// FRAUD PROOFS
+// ============================================================================
+
+async function testFraudProofs() {
+  console.log("\n--- Fraud proofs ---");
+
+  const meta = metadata("fraud", {
+    allowedActions: [ActionType.DEDUCT, ActionType.TRANSFER],
+  });
+  const locked = { USDC: 1000n };
+  const genesis = signByUser(
+    signByEngine(
+      await engine.createInitialState("fraud", locked, user.publicKey),
+    ),
+  );
+  const action = createDeductAction(1, "USDC", 10n, "fee");
+  const honest = signByUser(
+    (await engine.executeAction(genesis, action, "", meta)).newState!,
+  );
+
+  const forge = (
+    base: SessionState,
+    balances: SessionState["balances"],
+    actionLog = base.actionLog,
+  ) =>
+    signByEngine({
+      ...base,
+      balances,
+      actionLog,
+      stateHash: computeStateHash(
+        base.sessionId,
+        base.nonce,
+        balances,
+        base.previousStateHash,
+        actionLog,
+      ),
+      signatures: { user: "", engine: "" },
+    });
+
+  const verifier = new AdvancedSettlementVerifier();
+  const bond = 10n ** 18n;
+  const verdict = async (type: FraudType, evidence: object) => {
+    const proof = verifier.submitFraudProof(
+      "fraud",
+      "challenger",
+      type,
+      { type, ...evidence } as never,
+      bond,
+    );
+    return (await verifier.verifyFraudProof(proof.fraudId)).valid;
+  };
+
+  await expectThrow(
+    async () =>
+      verifier.submitFraudProof(
+        "fraud",
+        "challenger",
+        FraudType.DOUBLE_SPEND,
+        { type: FraudType.DOUBLE_SPEND, first: honest, second: honest },
+        bond,
+      ),
+    "Fraud proof needs a registered session context",
+  );
+  verifier.registerFraudContext("fraud", {
+    userPublicKey: user.publicKey,
+    enginePublicKey: engineKeys.publicKey,
+    lockedAssets: locked,
+    metadata: meta,
+  });
+
+  const fork = forge(honest, { primary: { USDC: 900n } });
+  check(
+    !(await verdict(FraudType.DOUBLE_SPEND, { first: honest, second: fork })),
+    "Double spend needs both states approved by the user",
+  );
+  check(
+    await verdict(FraudType.DOUBLE_SPEND, {
+      first: honest,
+      second: signByUser(structuredClone(fork)),
+    }),
+    "Two approved states at one nonce prove a double spend",
+  );
+  check(
+    !(await verdict(FraudType.DOUBLE_SPEND, { first: honest, second: honest })),
+    "The same state twice is not a double spend",
+  );
+
+  check(
+    !(await verdict(FraudType.INVALID_STATE_TRANSITION, {
+      preState: genesis,
+      actions: [action],
+      postState: honest,
+    })),
+    "Honest transition is not fraud",
+  );
+  check(
+    await verdict(FraudType.INVALID_STATE_TRANSITION, {
+      preState: genesis,
+      actions: [action],
+      postState: fork,
+    }),
+    "Transition that disagrees with replay is fraud",
+  );
+
+  check(
+    !(await verdict(FraudType.BALANCE_OVERFLOW, { state: honest })),
+    "Balances within the locked assets are not fraud",
+  );
+  check(
+    await verdict(FraudType.BALANCE_OVERFLOW, {
+      state: forge(honest, { primary: { USDC: 2000n } }),
+    }),
+    "Balances above the locked assets are fraud",
+  );
+
+  const stake = createStakeAction(1, StakeOperation.STAKE, "USDC", 1n, "v");
+  check(
+    await verdict(FraudType.UNAUTHORIZED_TRANSFER, {
+      states: [genesis, forge(honest, honest.balances, [stake])],
+    }),
+    "Action outside the allowed set is fraud",
+  );
+  check(
+    !(await verdict(FraudType.UNAUTHORIZED_TRANSFER, {
+      states: [genesis, honest],
+    })),
+    "Allowed actions are not fraud",
+  );
+
+  const replayed = forge({ ...honest, nonce: 2 }, honest.balances, [
+    action,
+    { ...action, nonce: 2 },
+  ]);
+  check(
+    !(await verdict(FraudType.INTENT_REPLAY, {
+      state: replayed,
+      firstIndex: 0,
+      secondIndex: 1,
+    })),
+    "Repeated action contents at different nonces are not a replay",
+  );
+
+  const first = verifier.submitFraudProof(
+    "fraud",
+    "challenger",
+    FraudType.DOUBLE_SPEND,
+    { type: FraudType.DOUBLE_SPEND, first: honest, second: fork },
+    bond,
+  );
+  const second = verifier.submitFraudProof(
+    "fraud",
+    "challenger",
+    FraudType.DOUBLE_SPEND,
+    { type: FraudType.DOUBLE_SPEND, first: honest, second: fork },
+    bond,
+  );
+  check(first.fraudId !== second.fraudId, "Fraud ids are unique");
+}
+
+// ============================================================================
+// CONCURRENCY
+// ============================================================================
+
+async function testConcurrency(dir: string) {
+  console.log("\n--- Concurrency ---");
+
+  const store = new FileSessionStore(dir);
+  const manager = new SessionManager(engine, undefined, store);
+  await openSession(manager, metadata("race"), { USDC: 100n });
+
+  const action = createDeductAction(1, "USDC", 5n, "fee");
+  const next = await engine.executeAction(
+    manager.getLatestState("race")!,
+    action,
+    "",
+    manager.getMetadata("race"),
+  );
+  const signature = signState(next.newState!, user.privateKey);
+  const results = await Promise.all([
+    manager.executeAction("race", action, signature),
+    manager.executeAction("race", action, signature),
+  ]);
+
+  check(
+    results.filter((result) => result.success).length === 1,
+    "Only one of two concurrent calls at a nonce succeeds",
+  );
+  check(
+    (await store.loadHistory("race")).length === 2,
+    "Store holds one state per nonce",
+  );
+
+  const latest = manager.getLatestState("race")!;
+  const appends = await Promise.allSettled([
+    new FileSessionStore(dir).appendState(latest),
+    store.appendState(latest),
+  ]);
+  check(
+    (await new FileSessionStore(dir).loadHistory("race")).length === 2 &&
+      appends.some((append) => append.status === "rejected"),
+    "Duplicate append of the same nonce is rejected",
+  );
+}
+
+// ============================================================================
+// RESUMPTION
+// ============================================================================
+
+async function testResumption(dir: string) {
+  console.log("\n--- Resumption ---");
+
+  const meta = (sessionId: string) =>
+    metadata(sessionId, {
+      actionConstraints: { maxTotalDeduction: { USDC: 25n } },
+    });
+  const manager = new SessionManager(
+    engine,
+    undefined,
+    new FileSessionStore(dir),
+  );
+  await openSession(manager, meta("a"), { USDC: 100n });
+  await openSession(manager, meta("b"), { USDC: 50n });
+
+  await userAction(manager, "a", createDeductAction(1, "USDC", 10n, "fee"));
+  await manager.commitCheckpoint(
+    "a",
+    signByUser(await manager.prepareCheckpoint("a", { USDC: 20n })),
+  );
+  await userAction(manager, "b", createDeductAction(1, "USDC", 5n, "fee"));
+  await manager.beginSettlement("b");
+
+  // Restart: a fresh manager over the same directory
+  const restarted = new SessionManager(
+    engine,
+    undefined,
+    new FileSessionStore(dir),
+  );
+  const restored = await restarted.restoreAll();
+  check(
+    restored.includes("a") && restored.includes("b"),
+    "restoreAll resumes every stored session",
+  );
+
+  const a = restarted.getSession("a");
+  check(
+    restarted.getStatus("a") === SessionStatus.ACTIVE &&
+      a.lockedAssets.USDC === 80n &&
+      a.checkpoint !== undefined,
+    "Resumed session keeps its status, locked assets and checkpoint",
+  );
+  check(
+    restarted.getStatus("b") === SessionStatus.SETTLING,
+    "Resumed session keeps its settlement in progress",
+  );
+
+  check(
+    (
+      await userAction(
+        restarted,
+        "a",
+        createDeductAction(3, "USDC", 10n, "fee"),
+      )
+    ).success,
+    "Resumed session accepts the next action",
+  );
+  check(
+    !(
+      await userAction(
+        restarted,
+        "a",
+        createDeductAction(4, "USDC", 10n, "fee"),
+      )
+    ).success,
+    "Resumed session keeps its deduction total",
+  );
+  check(
+    !(
+      await userAction(restarted, "b", createDeductAction(2, "USDC", 1n, "fee"))
+    ).success,
+    "Settling session rejects actions after resuming",
+  );
+  check(
+    (await restarted.settle("b", "settle")).success,
+    "Resumed session settles",
+  );
+
+  await expectThrow(
+    () => restarted.resume("a"),
+    "Resuming a live session fails",
+  );
+  await expectThrow(
+    () =>
+      new SessionManager(engine, undefined, new FileSessionStore(dir)).resume(
+        "missing",
+      ),
+    "Resuming an unknown session fails",
+  );
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main() {
+  console.log("Session Lifecycle Test Suite");
+
+  const dirs = [
+    mkdtempSync(join(tmpdir(), "sessionfi-")),
+    mkdtempSync(join(tmpdir(), "sessionfi-")),
+  ];
+
+  try {
+    await testSignatures();
+    await testDelegation();
+    await testMixedWallets();
+    await testConstraints();
+    await testCheckpoints();
+    await testSettlement();
+    await testFraudProofs();
+    await testConcurrency(dirs[0]);
+    await testResumption(dirs[1]);
+  } catch (error) {
+    console.error("\n❌ Test suite failed:", error);
+    process.exit(1);
+  } finally {
+    for (const dir of dirs) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  console.log("\n" + "=".repeat(60));
+  if (failures > 0) {
+    console.error(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log("All tests passed!");
+  console.log("=".repeat(60));
+}
+
+main();
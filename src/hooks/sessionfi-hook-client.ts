@@ -5,6 +5,18 @@
  */
 
 import { ethers } from "ethers";
+import { EthersWalletSigner, evmVerifier, type Signer } from "../crypto/signer";
+import {
+  hashTypedPayload,
+  hookDelegationTypedData,
+  swapIntentDomain,
+  swapIntentTypedData,
+  verifySwapIntentTyped,
+} from "../crypto/typed-data";
+import { PRIMARY_ACCOUNT, type SessionKeyDelegation } from "../core/types";
+import { computeAbiStateHash } from "../crypto/encoding";
+import { checkDelegatedIntent } from "../core/delegation";
+import { IntentType } from "../amm/types";
 
 // ============================================================================
 // CONTRACT ABI
@@ -20,11 +32,16 @@ const SESSIONFI_HOOK_ABI = [
 
   // Swap Execution
   "function executeSwapIntent((bytes32 sessionId, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 deadline, bytes signature) intent) external",
+  "function executeSwapIntentWithDelegation((bytes32 sessionId, address tokenIn, address tokenOut, uint256 amountIn, uint256 minAmountOut, uint256 deadline, bytes signature) intent, (bytes32 sessionId, address sessionKey, address[] allowedTokens, address[] capTokens, uint256[] spendCaps, uint256 expiresAt, bytes ownerSignature) delegation) external",
+  "function revokeDelegation((bytes32 sessionId, address sessionKey, address[] allowedTokens, address[] capTokens, uint256[] spendCaps, uint256 expiresAt, bytes ownerSignature) delegation) external",
 
   // View Functions
   "function getSession(bytes32 sessionId) external view returns (address owner, bytes32 stateHash, uint256 nonce, uint256 lockedAmount, uint256 availableAmount, uint256 totalVolume, uint256 createdAt, uint256 expiresAt, bool isActive)",
   "function getSessionBalance(bytes32 sessionId, address token) external view returns (uint256)",
+  "function getSessionTokens(bytes32 sessionId) external view returns (address[])",
+  "function intentLogRoots(bytes32 sessionId) external view returns (bytes32)",
   "function getUserSessions(address user) external view returns (bytes32[])",
+  "function delegatedSpend(bytes32 delegationHash, address token) external view returns (uint256)",
   "function calculateFee(uint256 totalVolume, uint256 amount) external pure returns (uint256)",
 
   // Constants
@@ -38,6 +55,7 @@ const SESSIONFI_HOOK_ABI = [
   "event SwapExecutedInSession(bytes32 indexed sessionId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)",
   "event SessionSettled(bytes32 indexed sessionId, bytes32 finalStateHash, uint256 totalVolume)",
   "event IntentExecuted(bytes32 indexed sessionId, bytes32 indexed intentHash, bool success)",
+  "event DelegationRevoked(bytes32 indexed sessionId, bytes32 indexed delegationHash)",
 ];
 
 const ERC20_ABI = [
@@ -104,14 +122,23 @@ export class SessionFiHookClient {
   private contract: ethers.Contract;
   private signer: ethers.Signer;
   private provider: ethers.Provider;
+  private intentSigner: Signer | null;
 
+  /**
+   * @param signerOrProvider - Sends transactions (or read-only provider)
+   * @param intentSigner - Signs swap intents; defaults to the transaction signer
+   */
   constructor(
     hookAddress: string,
     signerOrProvider: ethers.Signer | ethers.Provider,
+    intentSigner?: Signer,
   ) {
+    this.intentSigner = intentSigner || null;
+
     if ("getAddress" in signerOrProvider) {
       this.signer = signerOrProvider as ethers.Signer;
       this.provider = this.signer.provider!;
+      this.intentSigner ??= new EthersWalletSigner(this.signer);
       this.contract = new ethers.Contract(
         hookAddress,
         SESSIONFI_HOOK_ABI,
@@ -218,10 +245,126 @@ export class SessionFiHookClient {
     const tx = await this.contract.executeSwapIntent(intentTuple);
     const receipt = await tx.wait();
 
+    return this.toSwapResult(receipt);
+  }
+
+  /**
+   * Execute a swap intent signed by a delegated session key
+   * (no owner signature needed per swap)
+   */
+  async executeSwapIntentWithDelegation(
+    intent: SwapIntent,
+    delegation: SessionKeyDelegation,
+    sessionKeySigner: Signer,
+  ): Promise<SwapResult> {
+    console.log(
+      `[Hook] Executing delegated swap intent in session ${intent.sessionId}...`,
+    );
+
+    const domain = await this.getIntentDomain();
+    const delegationTuple = {
+      ...hookDelegationTypedData(delegation, domain).message,
+      ownerSignature: delegation.ownerSignature,
+    };
+
+    // Reject out-of-scope intents before paying for a reverting transaction
+    const delegationHash = hashTypedPayload(
+      hookDelegationTypedData(delegation, domain),
+    );
+    const spent: bigint = await this.contract.delegatedSpend(
+      delegationHash,
+      intent.tokenIn,
+    );
+
+    const scopeCheck = checkDelegatedIntent(
+      delegation,
+      intent.sessionId,
+      {
+        intentType: IntentType.EXACT_INPUT_SWAP,
+        tokens: [intent.tokenIn, intent.tokenOut],
+        spend: { [intent.tokenIn]: intent.amountIn },
+        timestamp: Date.now(),
+      },
+      { [intent.tokenIn]: spent },
+    );
+
+    if (!scopeCheck.valid) {
+      throw new Error(`Intent outside delegation scope: ${scopeCheck.error}`);
+    }
+
+    const signature =
+      intent.signature ||
+      (await sessionKeySigner.signTypedData(
+        swapIntentTypedData(intent, domain),
+      ));
+
+    const intentTuple = {
+      sessionId: intent.sessionId,
+      tokenIn: intent.tokenIn,
+      tokenOut: intent.tokenOut,
+      amountIn: intent.amountIn,
+      minAmountOut: intent.minAmountOut,
+      deadline: intent.deadline,
+      signature,
+    };
+
+    const tx = await this.contract.executeSwapIntentWithDelegation(
+      intentTuple,
+      delegationTuple,
+    );
+    const receipt = await tx.wait();
+
+    return this.toSwapResult(receipt);
+  }
+
+  /**
+   * Sign a session key delegation for this hook as the session owner.
+   * The hook only executes swaps, so the scope must allow EXACT_INPUT_SWAP.
+   */
+  async signDelegation(
+    delegation: Omit<SessionKeyDelegation, "ownerSignature">,
+  ): Promise<SessionKeyDelegation> {
+    if (!this.intentSigner) {
+      throw new Error("Signer required to sign delegations");
+    }
+
+    if (
+      !delegation.scope.allowedIntentTypes.includes(IntentType.EXACT_INPUT_SWAP)
+    ) {
+      throw new Error("Delegation scope does not allow swap intents");
+    }
+
+    return {
+      ...delegation,
+      ownerSignature: await this.intentSigner.signTypedData(
+        hookDelegationTypedData(delegation, await this.getIntentDomain()),
+      ),
+    };
+  }
+
+  /**
+   * Revoke a session key delegation (session owner only)
+   */
+  async revokeDelegation(
+    delegation: SessionKeyDelegation,
+  ): Promise<{ txHash: string }> {
+    const domain = await this.getIntentDomain();
+    const tx = await this.contract.revokeDelegation({
+      ...hookDelegationTypedData(delegation, domain).message,
+      ownerSignature: delegation.ownerSignature,
+    });
+    const receipt = await tx.wait();
+
+    console.log(`[Hook] Delegation revoked: ${receipt.hash}`);
+
+    return { txHash: receipt.hash };
+  }
+
+  private toSwapResult(receipt: ethers.ContractTransactionReceipt): SwapResult {
     // Find SwapExecutedInSession event
     const event = receipt.logs.find(
       (log: any) => log.fragment?.name === "SwapExecutedInSession",
-    );
+    ) as ethers.EventLog | undefined;
 
     const amountIn = event?.args?.amountIn?.toString() || "0";
     const amountOut = event?.args?.amountOut?.toString() || "0";
@@ -246,8 +389,17 @@ export class SessionFiHookClient {
   async settleSession(sessionId: string): Promise<{ txHash: string }> {
     console.log(`[Hook] Settling session ${sessionId}...`);
 
-    // Get current state hash
+    // Get current state hash, and check it commits to the session's balances
     const session = await this.getSession(sessionId);
+    const expected = await this.computeStateHash(sessionId);
+    if (
+      session.stateHash !== ethers.ZeroHash &&
+      session.stateHash !== expected
+    ) {
+      throw new Error(
+        `On-chain state hash ${session.stateHash} does not match balances (expected ${expected})`,
+      );
+    }
 
     const tx = await this.contract.settleSession(sessionId, session.stateHash);
     const receipt = await tx.wait();
@@ -326,6 +478,36 @@ export class SessionFiHookClient {
     return balance.toString();
   }
 
+  /**
+   * Recompute a session's state hash from its on-chain balances: the
+   * SessionFi ABI state commitment the hook hashes (computeAbiStateHash),
+   * with the intent log root as its action log root.
+   */
+  async computeStateHash(sessionId: string): Promise<string> {
+    const [session, tokens, intentLogRoot] = await Promise.all([
+      this.getSession(sessionId),
+      this.contract.getSessionTokens(sessionId) as Promise<string[]>,
+      this.contract.intentLogRoots(sessionId) as Promise<string>,
+    ]);
+
+    const balances: Record<string, bigint> = {};
+    for (const token of tokens) {
+      balances[token.toLowerCase()] = BigInt(
+        await this.getSessionBalance(sessionId, token),
+      );
+    }
+
+    return computeAbiStateHash(
+      {
+        sessionId: sessionId.toLowerCase(),
+        nonce: session.nonce,
+        balances: { [PRIMARY_ACCOUNT]: balances },
+        previousStateHash: null,
+      },
+      intentLogRoot,
+    );
+  }
+
   /**
    * Get all sessions for a user
    */
@@ -367,24 +549,37 @@ export class SessionFiHookClient {
   // ==========================================================================
 
   /**
-   * Sign a swap intent
+   * Sign a swap intent as EIP-712 typed data
+   * (domain bound to this hook and the provider's chain)
    */
   async signIntent(intent: SwapIntent): Promise<string> {
-    const intentHash = ethers.keccak256(
-      ethers.solidityPacked(
-        ["bytes32", "address", "address", "uint256", "uint256", "uint256"],
-        [
-          intent.sessionId,
-          intent.tokenIn,
-          intent.tokenOut,
-          intent.amountIn,
-          intent.minAmountOut,
-          intent.deadline,
-        ],
-      ),
+    if (!this.intentSigner) {
+      throw new Error("Signer required to sign intents");
+    }
+
+    return this.intentSigner.signTypedData(
+      swapIntentTypedData(intent, await this.getIntentDomain()),
     );
+  }
 
-    return this.signer.signMessage(ethers.getBytes(intentHash));
+  /**
+   * Verify a signed intent against the session owner
+   */
+  async verifyIntent(intent: SwapIntent, owner: string): Promise<boolean> {
+    return verifySwapIntentTyped(
+      evmVerifier,
+      intent,
+      owner,
+      await this.getIntentDomain(),
+    );
+  }
+
+  /**
+   * EIP-712 domain of this hook deployment
+   */
+  async getIntentDomain(): Promise<ethers.TypedDataDomain> {
+    const { chainId } = await this.provider.getNetwork();
+    return swapIntentDomain(chainId, await this.getAddress());
   }
 
   /**
@@ -13,7 +13,7 @@ import type {
   SessionSwapResult,
   LiFiChainId,
 } from "./types";
-import { hashStringSync } from "../crypto/browser-primitives";
+import { hashString } from "../crypto/primitives";
 
 // ============================================================================
 // SESSION SWAP TRACKING
@@ -280,7 +280,7 @@ export class LiFiSessionIntegration {
   // ==========================================================================
 
   private generateSwapId(request: SessionSwapRequest): string {
-    return hashStringSync(
+    return hashString(
       `swap:${request.sessionId}:${request.fromChainId}:${request.toChainId}:${request.fromToken}:${request.toToken}:${Date.now()}`,
     );
   }
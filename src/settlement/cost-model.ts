@@ -0,0 +1,452 @@
+/**
+ * SessionFi Settlement Cost Models
+ *
+ * Estimates what submitting a settlement (or checkpoint) costs on-chain,
+ * so callers can decide when settling or checkpointing is worth it.
+ *
+ * Models:
+ * - EvmCostModel: intrinsic + calldata (EIP-2028) + execution gas
+ * - SuiCostModel: bucketed computation + storage - storage rebate
+ *
+ * Inputs are measured from the canonical encodings (encoding.ts): ABI
+ * bytes for EVM calldata, BCS bytes for Sui transaction input.
+ * Default parameters are approximations; override them per network.
+ */
+
+import {
+  CompactSettlementProof,
+  SessionState,
+  SettlementProof,
+} from "../core/types";
+import {
+  EncodingFormat,
+  encodeAction,
+  encodeSessionState,
+  encodeSettlementProof,
+} from "../crypto/encoding";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a settlement transaction has to carry and verify.
+ */
+export interface SettlementCostInputs {
+  // Encoded proof size, and how many of those bytes are zero
+  proofBytes: number;
+  proofZeroBytes: number;
+
+  // States whose hash is recomputed
+  stateCount: number;
+
+  // Signatures verified (state signatures, delegations, settlement)
+  signatureCount: number;
+
+  // Actions hashed into the action log root
+  actionCount: number;
+
+  // Transfers out of custody: payouts at settlement (one per asset
+  // until the payout plan is known, see withPayoutPlan), withdrawn assets
+  // at a checkpoint
+  assetCount: number;
+
+  // Transaction aborts after verification: no writes or transfers
+  aborted?: boolean;
+}
+
+export interface CostComponent {
+  name: string;
+
+  // In the estimate's unit (negative for rebates)
+  amount: number;
+}
+
+export interface CostEstimate {
+  model: string;
+
+  // Unit of component amounts and total ("gas" or "MIST")
+  unit: string;
+
+  components: CostComponent[];
+  total: number;
+
+  // Fee in the chain's smallest native unit (wei / MIST)
+  fee: bigint;
+}
+
+/**
+ * CostModel prices settlement inputs on a specific chain.
+ */
+export interface CostModel {
+  readonly name: string;
+
+  // Encoding the chain receives proofs in
+  readonly encoding: EncodingFormat;
+
+  estimate(inputs: SettlementCostInputs): CostEstimate;
+}
+
+// ============================================================================
+// EVM
+// ============================================================================
+
+export interface EvmCostParameters {
+  // Base cost of any transaction
+  intrinsicGas: number;
+
+  // Calldata gas per byte (EIP-2028)
+  calldataZeroByteGas: number;
+  calldataNonZeroByteGas: number;
+
+  // ecrecover precompile plus digest and ABI overhead
+  signatureGas: number;
+
+  // Re-encoding and hashing one state commitment
+  stateHashGas: number;
+
+  // Hashing one action leaf and its share of Merkle nodes
+  actionHashGas: number;
+
+  // Session slot writes at settlement (final hash, time, status)
+  settlementStorageGas: number;
+
+  // One token transfer out of custody
+  transferGasPerAsset: number;
+
+  // Wei per gas, for the fee
+  gasPriceWei: bigint;
+}
+
+export const DEFAULT_EVM_COST_PARAMETERS: EvmCostParameters = {
+  intrinsicGas: 21_000,
+  calldataZeroByteGas: 4,
+  calldataNonZeroByteGas: 16,
+  signatureGas: 4_500,
+  stateHashGas: 3_000,
+  actionHashGas: 400,
+  settlementStorageGas: 45_000,
+  transferGasPerAsset: 35_000,
+  gasPriceWei: BigInt(20_000_000_000), // 20 gwei
+};
+
+/**
+ * EVM cost: calldata plus execution, in gas.
+ */
+export class EvmCostModel implements CostModel {
+  readonly name = "evm";
+  readonly encoding = EncodingFormat.ABI;
+
+  private params: EvmCostParameters;
+
+  constructor(params: Partial<EvmCostParameters> = {}) {
+    this.params = { ...DEFAULT_EVM_COST_PARAMETERS, ...params };
+  }
+
+  estimate(inputs: SettlementCostInputs): CostEstimate {
+    const p = this.params;
+    const nonZeroBytes = inputs.proofBytes - inputs.proofZeroBytes;
+
+    const components: CostComponent[] = [
+      { name: "intrinsic", amount: p.intrinsicGas },
+      {
+        name: "calldata",
+        amount:
+          inputs.proofZeroBytes * p.calldataZeroByteGas +
+          nonZeroBytes * p.calldataNonZeroByteGas,
+      },
+      { name: "signatures", amount: inputs.signatureCount * p.signatureGas },
+      { name: "stateHashing", amount: inputs.stateCount * p.stateHashGas },
+      { name: "actionHashing", amount: inputs.actionCount * p.actionHashGas },
+    ];
+
+    if (!inputs.aborted) {
+      components.push(
+        { name: "storage", amount: p.settlementStorageGas },
+        {
+          name: "transfers",
+          amount: inputs.assetCount * p.transferGasPerAsset,
+        },
+      );
+    }
+
+    const total = sumComponents(components);
+
+    return {
+      model: this.name,
+      unit: "gas",
+      components,
+      total,
+      fee: BigInt(total) * p.gasPriceWei,
+    };
+  }
+}
+
+// ============================================================================
+// SUI
+// ============================================================================
+
+export interface SuiCostParameters {
+  // MIST per computation unit
+  referenceGasPrice: number;
+
+  // MIST per storage unit, and storage units per byte
+  storagePrice: number;
+  storageUnitsPerByte: number;
+
+  // Computation is charged at the smallest bucket covering it
+  computationBuckets: number[];
+
+  // Computation units
+  baseComputationUnits: number;
+  unitsPerProofByte: number;
+  signatureUnits: number;
+  stateHashUnits: number;
+  actionHashUnits: number;
+  transferUnitsPerAsset: number;
+
+  // Session object size, fixed part and per locked asset
+  sessionObjectBytes: number;
+  sessionObjectBytesPerAsset: number;
+
+  // Coin object created per asset paid out
+  coinObjectBytes: number;
+
+  // Share of the old object's storage fee refunded when it is rewritten
+  storageRebateRate: number;
+}
+
+export const DEFAULT_SUI_COST_PARAMETERS: SuiCostParameters = {
+  referenceGasPrice: 750,
+  storagePrice: 76,
+  storageUnitsPerByte: 100,
+  computationBuckets: [
+    1_000, 5_000, 10_000, 20_000, 50_000, 200_000, 1_000_000, 5_000_000,
+  ],
+  baseComputationUnits: 1_000,
+  unitsPerProofByte: 0.05,
+  signatureUnits: 150,
+  stateHashUnits: 40,
+  actionHashUnits: 10,
+  transferUnitsPerAsset: 100,
+  sessionObjectBytes: 250,
+  sessionObjectBytesPerAsset: 48,
+  coinObjectBytes: 150,
+  storageRebateRate: 0.99,
+};
+
+/**
+ * Sui cost: bucketed computation plus storage, minus the rebate on the
+ * session object version being replaced, in MIST.
+ */
+export class SuiCostModel implements CostModel {
+  readonly name = "sui";
+  readonly encoding = EncodingFormat.BCS;
+
+  private params: SuiCostParameters;
+
+  constructor(params: Partial<SuiCostParameters> = {}) {
+    this.params = { ...DEFAULT_SUI_COST_PARAMETERS, ...params };
+  }
+
+  estimate(inputs: SettlementCostInputs): CostEstimate {
+    const p = this.params;
+
+    const units =
+      p.baseComputationUnits +
+      inputs.proofBytes * p.unitsPerProofByte +
+      inputs.signatureCount * p.signatureUnits +
+      inputs.stateCount * p.stateHashUnits +
+      inputs.actionCount * p.actionHashUnits +
+      (inputs.aborted ? 0 : inputs.assetCount * p.transferUnitsPerAsset);
+
+    const components: CostComponent[] = [
+      {
+        name: "computation",
+        amount: this.bucket(units) * p.referenceGasPrice,
+      },
+    ];
+
+    if (!inputs.aborted) {
+      const mistPerByte = p.storageUnitsPerByte * p.storagePrice;
+      const sessionBytes =
+        p.sessionObjectBytes + inputs.assetCount * p.sessionObjectBytesPerAsset;
+
+      components.push(
+        {
+          name: "storage",
+          amount:
+            (sessionBytes + inputs.assetCount * p.coinObjectBytes) *
+            mistPerByte,
+        },
+        {
+          name: "storageRebate",
+          amount: -Math.floor(sessionBytes * mistPerByte * p.storageRebateRate),
+        },
+      );
+    }
+
+    const total = sumComponents(components);
+
+    return {
+      model: this.name,
+      unit: "MIST",
+      components,
+      total,
+      fee: BigInt(total),
+    };
+  }
+
+  private bucket(units: number): number {
+    const whole = Math.ceil(units);
+    const bucket = this.params.computationBuckets.find((b) => b >= whole);
+    return bucket ?? whole;
+  }
+}
+
+function sumComponents(components: CostComponent[]): number {
+  return components.reduce((total, component) => total + component.amount, 0);
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/**
+ * Measure a settlement proof as submitted in the given encoding.
+ *
+ * Compact proofs are measured as their state headers, appended actions
+ * and checkpoint frontier.
+ */
+export function measureSettlementProof(
+  proof: SettlementProof | CompactSettlementProof,
+  format: EncodingFormat = EncodingFormat.BCS,
+): SettlementCostInputs {
+  const assetCount = Object.keys(proof.finalBalances).length;
+
+  if (!("transitions" in proof)) {
+    return {
+      ...measureBytes([encodeSettlementProof(proof, format)]),
+      stateCount: proof.stateHistory.length,
+      signatureCount: countSignatures(proof.stateHistory) + 1,
+      actionCount: proof.totalActions,
+      assetCount,
+    };
+  }
+
+  const states = [
+    proof.checkpoint,
+    ...proof.transitions.map((transition) => transition.state),
+  ];
+  const chunks = [
+    ...states.map((state) =>
+      encodeSessionState({ ...state, actionLog: [] }, format),
+    ),
+    ...proof.transitions.flatMap((transition) =>
+      transition.actions.map((action) => encodeAction(action, format)),
+    ),
+  ];
+
+  // Frontier peaks, action log root and settlement signature (hex),
+  // counted as non-zero bytes
+  const { proofBytes, proofZeroBytes } = measureBytes(chunks);
+  const hashBytes =
+    32 * (proof.checkpointLogFrontier.peaks.length + 1) +
+    Math.ceil(proof.userSettlementSignature.length / 2);
+
+  return {
+    proofBytes: proofBytes + hashBytes,
+    proofZeroBytes,
+    stateCount: states.length,
+    signatureCount: countSignatures(states) + 1,
+    actionCount: proof.transitions.reduce(
+      (total, transition) => total + transition.actions.length,
+      0,
+    ),
+    assetCount,
+  };
+}
+
+/**
+ * Measure a checkpoint submission: the checkpointed state and the
+ * genesis continuing from it (see SettlementVerifier.verifyAndCheckpoint).
+ */
+export function measureCheckpoint(
+  checkpointState: SessionState,
+  genesis: SessionState,
+  withdrawals: Record<string, bigint>,
+  format: EncodingFormat = EncodingFormat.BCS,
+): SettlementCostInputs {
+  return {
+    ...measureBytes([
+      encodeSessionState(checkpointState, format),
+      encodeSessionState(genesis, format),
+    ]),
+    stateCount: 2,
+    signatureCount: countSignatures([checkpointState, genesis]),
+    actionCount: checkpointState.actionLog.length,
+    assetCount: Object.values(withdrawals).filter(
+      (amount) => amount > BigInt(0),
+    ).length,
+  };
+}
+
+/**
+ * Estimate a settlement proof's cost under a model.
+ */
+export function estimateSettlementCost(
+  proof: SettlementProof | CompactSettlementProof,
+  model: CostModel,
+): CostEstimate {
+  return model.estimate(measureSettlementProof(proof, model.encoding));
+}
+
+/**
+ * Add the encoded payout plan submitted with a settlement: its bytes are
+ * carried with the proof, and each payout is one transfer.
+ */
+export function withPayoutPlan(
+  inputs: SettlementCostInputs,
+  planBytes: Uint8Array,
+  payoutCount: number,
+): SettlementCostInputs {
+  const plan = measureBytes([planBytes]);
+  return {
+    ...inputs,
+    proofBytes: inputs.proofBytes + plan.proofBytes,
+    proofZeroBytes: inputs.proofZeroBytes + plan.proofZeroBytes,
+    assetCount: payoutCount,
+  };
+}
+
+function measureBytes(
+  chunks: Uint8Array[],
+): Pick<SettlementCostInputs, "proofBytes" | "proofZeroBytes"> {
+  let proofBytes = 0;
+  let proofZeroBytes = 0;
+
+  for (const chunk of chunks) {
+    proofBytes += chunk.length;
+    for (const byte of chunk) {
+      if (byte === 0) {
+        proofZeroBytes++;
+      }
+    }
+  }
+
+  return { proofBytes, proofZeroBytes };
+}
+
+/**
+ * Dual signatures per state, plus one per distinct delegation.
+ */
+function countSignatures(
+  states: Array<Pick<SessionState, "signatures">>,
+): number {
+  const delegations = new Set(
+    states
+      .map((state) => state.signatures.delegation?.ownerSignature)
+      .filter((signature) => signature !== undefined),
+  );
+  return states.length * 2 + delegations.size;
+}
@@ -0,0 +1,262 @@
+/**
+ * SessionFi Settlement Payouts
+ *
+ * Turns a session's final state into an explicit payout plan: who
+ * receives how much of each locked asset when the session settles.
+ *
+ * Per asset:
+ * - Owner refund: owner accounts (primary, sub-accounts, positions)
+ * - Transfers: each payee account ("payee:<recipient>") to its recipient
+ * - Trade settlement: the counterparty account to the operator, which
+ *   filled the session's trades from it
+ * - Operator fee: value deducted during the session (locked - final)
+ * - Protocol fee: protocolFeeBps of the operator fee, taken out of it
+ *
+ * The plan always sums to lockedAssets, so settlement contracts (Sui or
+ * EVM) receive it encoded (encodePayoutPlan), check it (verifyPayoutPlan)
+ * and only execute transfers; nothing is left in custody. See
+ * simulateOnChainSettlement.
+ */
+
+import {
+  Payout,
+  PayoutKind,
+  PayoutPlan,
+  PayoutTerms,
+  SessionObject,
+  SessionStateHeader,
+} from "../core/types";
+import { isCounterpartyAccount, payeeRecipient } from "../core/balances";
+
+/**
+ * Basis points in one whole (protocolFeeBps = 10000 is 100%).
+ */
+export const BPS_DENOMINATOR = 10_000;
+
+// Order of payouts within an asset
+const PAYOUT_KIND_ORDER: PayoutKind[] = [
+  PayoutKind.OWNER_REFUND,
+  PayoutKind.TRANSFER,
+  PayoutKind.TRADE_SETTLEMENT,
+  PayoutKind.OPERATOR_FEE,
+  PayoutKind.PROTOCOL_FEE,
+];
+
+// ============================================================================
+// PLAN
+// ============================================================================
+
+/**
+ * Check payout terms are well-formed: an operator, and a protocol fee
+ * within 0..BPS_DENOMINATOR with a recipient if non-zero.
+ */
+export function validatePayoutTerms(terms: PayoutTerms): {
+  valid: boolean;
+  error?: string;
+} {
+  const protocolFeeBps = terms.protocolFeeBps ?? 0;
+
+  if (!terms.operator) {
+    return { valid: false, error: "Payout terms have no operator" };
+  }
+
+  if (
+    !Number.isInteger(protocolFeeBps) ||
+    protocolFeeBps < 0 ||
+    protocolFeeBps > BPS_DENOMINATOR
+  ) {
+    return {
+      valid: false,
+      error: `Protocol fee ${protocolFeeBps} bps is not within 0..${BPS_DENOMINATOR}`,
+    };
+  }
+
+  if (protocolFeeBps > 0 && !terms.protocol) {
+    return {
+      valid: false,
+      error: "Protocol fee has no recipient",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Compute the payout plan of a session settling on finalState.
+ *
+ * Throws if the final balances exceed the locked assets or the session's
+ * payout terms are invalid; the verifier checks capital conservation
+ * before computing the plan.
+ */
+export function computePayoutPlan(
+  sessionObject: Pick<
+    SessionObject,
+    "sessionId" | "ownerAddress" | "lockedAssets" | "payoutTerms"
+  >,
+  finalState: Pick<SessionStateHeader, "stateHash" | "balances">,
+): PayoutPlan {
+  const terms = sessionObject.payoutTerms;
+
+  if (terms) {
+    const termsCheck = validatePayoutTerms(terms);
+    if (!termsCheck.valid) {
+      throw new Error(`Cannot compute payout plan: ${termsCheck.error}`);
+    }
+  }
+
+  const payouts: Payout[] = [];
+  const paid: Record<string, bigint> = {};
+
+  const pay = (
+    kind: PayoutKind,
+    recipient: string,
+    asset: string,
+    amount: bigint,
+  ) => {
+    if (amount > BigInt(0)) {
+      payouts.push({ kind, recipient, asset, amount });
+      paid[asset] = (paid[asset] || BigInt(0)) + amount;
+    }
+  };
+
+  // Final balances: owner accounts are refunded, payee accounts paid out,
+  // the counterparty account settled with the operator
+  for (const account of Object.keys(finalState.balances).sort()) {
+    const recipient = payeeRecipient(account);
+    for (const asset in finalState.balances[account]) {
+      const amount = finalState.balances[account][asset];
+      if (isCounterpartyAccount(account)) {
+        pay(PayoutKind.TRADE_SETTLEMENT, terms?.operator ?? "", asset, amount);
+      } else {
+        pay(
+          recipient === null ? PayoutKind.OWNER_REFUND : PayoutKind.TRANSFER,
+          recipient ?? sessionObject.ownerAddress,
+          asset,
+          amount,
+        );
+      }
+    }
+  }
+
+  // Whatever is no longer held was deducted: operator and protocol fees
+  const assets = new Set([
+    ...Object.keys(sessionObject.lockedAssets),
+    ...Object.keys(paid),
+  ]);
+
+  for (const asset of assets) {
+    const locked = sessionObject.lockedAssets[asset] || BigInt(0);
+    const consumed = locked - (paid[asset] || BigInt(0));
+
+    if (consumed < BigInt(0)) {
+      throw new Error(
+        `Cannot compute payout plan: final ${asset} balance exceeds locked ${locked}`,
+      );
+    }
+
+    const protocolFee =
+      (consumed * BigInt(terms?.protocolFeeBps ?? 0)) / BigInt(BPS_DENOMINATOR);
+
+    // Without payout terms, "" is the settlement contract's operator
+    pay(
+      PayoutKind.OPERATOR_FEE,
+      terms?.operator ?? "",
+      asset,
+      consumed - protocolFee,
+    );
+    pay(PayoutKind.PROTOCOL_FEE, terms?.protocol ?? "", asset, protocolFee);
+  }
+
+  return {
+    sessionId: sessionObject.sessionId,
+    finalStateHash: finalState.stateHash,
+    payouts: mergePayouts(payouts).sort(comparePayouts),
+  };
+}
+
+/**
+ * Check a payout plan before executing it: positive amounts, and per
+ * asset exactly the locked amount.
+ */
+export function verifyPayoutPlan(
+  plan: PayoutPlan,
+  lockedAssets: Record<string, bigint>,
+): { valid: boolean; error?: string } {
+  for (const payout of plan.payouts) {
+    if (payout.amount <= BigInt(0)) {
+      return {
+        valid: false,
+        error: `Non-positive ${payout.asset} payout to ${payout.recipient}`,
+      };
+    }
+  }
+
+  const totals = sumPayouts(plan.payouts);
+  const assets = new Set([
+    ...Object.keys(lockedAssets),
+    ...Object.keys(totals),
+  ]);
+
+  for (const asset of assets) {
+    const locked = lockedAssets[asset] || BigInt(0);
+    const total = totals[asset] || BigInt(0);
+    if (total !== locked) {
+      return {
+        valid: false,
+        error: `Payouts of ${asset} total ${total}, locked ${locked}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Sum payouts per asset.
+ */
+export function sumPayouts(payouts: Payout[]): Record<string, bigint> {
+  const totals: Record<string, bigint> = {};
+
+  for (const { asset, amount } of payouts) {
+    totals[asset] = (totals[asset] || BigInt(0)) + amount;
+  }
+
+  return totals;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * One payout per (asset, kind, recipient): owner sub-accounts are
+ * refunded together.
+ */
+function mergePayouts(payouts: Payout[]): Payout[] {
+  const merged = new Map<string, Payout>();
+
+  for (const payout of payouts) {
+    const key = JSON.stringify([payout.asset, payout.kind, payout.recipient]);
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? { ...existing, amount: existing.amount + payout.amount }
+        : payout,
+    );
+  }
+
+  return [...merged.values()];
+}
+
+function comparePayouts(a: Payout, b: Payout): number {
+  return (
+    compareStrings(a.asset, b.asset) ||
+    PAYOUT_KIND_ORDER.indexOf(a.kind) - PAYOUT_KIND_ORDER.indexOf(b.kind) ||
+    compareStrings(a.recipient, b.recipient)
+  );
+}
+
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -14,18 +14,54 @@
  * - No reliance on off-chain engine honesty
  * - All proofs are cryptographically verified
  * - Invalid proofs are rejected, capital remains locked
+ *
+ * The verifier is isomorphic: hashing and signature checks go through an
+ * injected CryptoBackend and Verifier, so it runs unchanged in Node and
+ * the browser.
  */
 
 import {
   SessionObject,
   SessionStatus,
   SettlementProof,
+  CompactSettlementProof,
   SessionState,
+  SessionStateHeader,
+  Action,
+  ActionInclusionProof,
+  SessionMetadata,
+  SettlementParty,
+  DisputeRecord,
+  PayoutPlan,
 } from "../core/types";
+import { sumAccountBalances } from "../core/balances";
+import {
+  computeConstraintCarry,
+  sameConstraintCarry,
+  verifyActionLogConstraints,
+} from "../core/constraints";
+import { verifyDelegatedActions } from "../core/delegation";
+import { checkStateApprovals } from "../core/approval";
+import { computeFrontierRoot, verifyInclusion } from "../crypto/merkle";
 import {
+  appendedActions,
   verifyStateChain,
   verifyStateChainSignatures,
+  computeActionLogRoot,
+  verifyCompactStateChain,
+  computeStateHashWith,
 } from "../crypto/primitives";
+import { CryptoBackend, getDefaultCryptoBackend } from "../crypto/backend";
+import { Verifier, identityVerifier } from "../crypto/signer";
+import {
+  CostEstimate,
+  CostModel,
+  SuiCostModel,
+  measureSettlementProof,
+  withPayoutPlan,
+} from "./cost-model";
+import { computePayoutPlan, verifyPayoutPlan } from "./payout";
+import { decodePayoutPlan, encodePayoutPlan } from "../crypto/encoding";
 
 // ============================================================================
 // SETTLEMENT VERIFIER
@@ -41,6 +77,22 @@ import {
  * - Settlement would be atomic (all-or-nothing)
  */
 export class SettlementVerifier {
+  private backend: CryptoBackend;
+  private signatureVerifier: Verifier;
+
+  /**
+   * @param backend - Hash backend (defaults to Web Crypto when available)
+   * @param signatureVerifier - Checks user and engine state signatures
+   *   (defaults to the format of each signer's identity)
+   */
+  constructor(
+    backend: CryptoBackend = getDefaultCryptoBackend(),
+    signatureVerifier: Verifier = identityVerifier,
+  ) {
+    this.backend = backend;
+    this.signatureVerifier = signatureVerifier;
+  }
+
   /**
    * Verify and execute settlement.
    *
@@ -52,21 +104,30 @@ export class SettlementVerifier {
    * If ANY check fails, settlement is rejected.
    * Capital remains locked, user retains control.
    */
-  verifyAndSettle(
+  async verifyAndSettle(
     sessionObject: SessionObject,
-    proof: SettlementProof,
+    proof: SettlementProof | CompactSettlementProof,
     userPublicKey: string,
     enginePublicKey: string,
-  ): {
+  ): Promise<{
     success: boolean;
     error?: string;
     settledSession?: SessionObject;
-  } {
+  }> {
+    if (isCompactSettlementProof(proof)) {
+      return this.verifyAndSettleCompact(
+        sessionObject,
+        proof,
+        userPublicKey,
+        enginePublicKey,
+      );
+    }
+
     // ========================================================================
     // 1. VERIFY SESSION STATE
     // ========================================================================
 
-    if (sessionObject.status !== SessionStatus.ACTIVE) {
+    if (!isSettleable(sessionObject.status)) {
       return {
         success: false,
         error: `Session not active: ${sessionObject.status}`,
@@ -77,7 +138,11 @@ export class SettlementVerifier {
     // 2. VERIFY STATE CHAIN INTEGRITY
     // ========================================================================
 
-    const chainVerification = verifyStateChain(proof.stateHistory);
+    const chainVerification = await verifyStateChain(
+      proof.stateHistory,
+      this.backend,
+      sessionObject.checkpoint,
+    );
     if (!chainVerification.valid) {
       return {
         success: false,
@@ -89,10 +154,12 @@ export class SettlementVerifier {
     // 3. VERIFY ALL SIGNATURES
     // ========================================================================
 
-    const signatureVerification = verifyStateChainSignatures(
+    const signatureVerification = await verifyStateChainSignatures(
       proof.stateHistory,
       userPublicKey,
       enginePublicKey,
+      this.signatureVerifier,
+      sessionObject.participants,
     );
 
     if (!signatureVerification.valid) {
@@ -102,20 +169,50 @@ export class SettlementVerifier {
       };
     }
 
+    // Actions signed by session keys must be within their delegation
+    // (every action of a batch, in order)
+    const delegationCheck = verifyDelegatedActions(
+      sessionObject.sessionId,
+      proof.stateHistory.slice(1).flatMap((state, i) =>
+        appendedActions(proof.stateHistory[i], state).map((action) => ({
+          action,
+          signatures: state.signatures,
+          timestamp: state.timestamp,
+        })),
+      ),
+    );
+
+    if (!delegationCheck.valid) {
+      return {
+        success: false,
+        error: `Delegation scope violated: ${delegationCheck.error}`,
+      };
+    }
+
     // ========================================================================
     // 4. VERIFY FINAL STATE MATCHES
     // ========================================================================
 
-    const finalStateFromHistory =
-      proof.stateHistory[proof.stateHistory.length - 1];
+    // Only the verified history binds contents to hashes: proof.finalState
+    // is matched by hash, and never read from
+    const finalState = proof.stateHistory[proof.stateHistory.length - 1];
 
-    if (proof.finalState.stateHash !== finalStateFromHistory.stateHash) {
+    if (proof.finalState.stateHash !== finalState.stateHash) {
       return {
         success: false,
         error: "Final state hash mismatch",
       };
     }
 
+    // A cooperative proof may not roll back a pending unilateral settlement
+    const pending = sessionObject.pendingSettlement;
+    if (pending && finalState.nonce < pending.state.nonce) {
+      return {
+        success: false,
+        error: `Settlement proof nonce ${finalState.nonce} is older than pending nonce ${pending.state.nonce}`,
+      };
+    }
+
     // ========================================================================
     // 5. VERIFY SESSION ID BINDING
     // ========================================================================
@@ -145,27 +242,240 @@ export class SettlementVerifier {
       };
     }
 
+    // Final balances must be the final state's accounts summed per asset
+    if (
+      !this.balancesEqual(
+        proof.finalBalances,
+        sumAccountBalances(finalState.balances),
+      )
+    ) {
+      return {
+        success: false,
+        error: "Final balances do not match final state",
+      };
+    }
+
     // ========================================================================
-    // 7. VERIFY ACTION COUNT
+    // 7. VERIFY ACTION COUNT AND ACTION LOG ROOT
     // ========================================================================
 
-    if (proof.totalActions !== proof.finalState.actionLog.length) {
+    if (proof.totalActions !== finalState.actionLog.length) {
       return {
         success: false,
         error: "Action count mismatch",
       };
     }
 
+    if (proof.actionLogRoot !== computeActionLogRoot(finalState.actionLog)) {
+      return {
+        success: false,
+        error: "Action log root mismatch",
+      };
+    }
+
     // ========================================================================
     // 8. EXECUTE SETTLEMENT (ATOMIC UPDATE)
     // ========================================================================
 
+    const payouts = this.planPayouts(sessionObject, finalState);
+    if (!payouts.plan) {
+      return {
+        success: false,
+        error: payouts.error,
+      };
+    }
+
     const settledSession: SessionObject = {
       ...sessionObject,
       status: SessionStatus.SETTLED,
       settlementTime: Date.now(),
-      finalStateHash: proof.finalState.stateHash,
+      finalStateHash: finalState.stateHash,
       settlementProof: proof,
+      payoutPlan: payouts.plan,
+    };
+
+    return {
+      success: true,
+      settledSession,
+    };
+  }
+
+  /**
+   * Verify and execute settlement from a compact proof.
+   *
+   * Same checks as full-history verification, over the checkpoint and
+   * transition witnesses instead of complete states.
+   */
+  private async verifyAndSettleCompact(
+    sessionObject: SessionObject,
+    proof: CompactSettlementProof,
+    userPublicKey: string,
+    enginePublicKey: string,
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    settledSession?: SessionObject;
+  }> {
+    if (!isSettleable(sessionObject.status)) {
+      return {
+        success: false,
+        error: `Session not active: ${sessionObject.status}`,
+      };
+    }
+
+    // A proof may not start before the committed checkpoint genesis
+    const anchorCheck = this.verifyAfterCheckpoint(
+      sessionObject,
+      proof.checkpoint,
+    );
+    if (!anchorCheck.valid) {
+      return { success: false, error: anchorCheck.error };
+    }
+
+    // Chain integrity (checkpoint + appended actions)
+    const chainVerification = await verifyCompactStateChain(
+      proof.checkpoint,
+      proof.checkpointLogFrontier,
+      proof.transitions,
+      this.backend,
+    );
+
+    if (!chainVerification.valid) {
+      return {
+        success: false,
+        error: `State chain invalid: ${chainVerification.error}`,
+      };
+    }
+
+    // Signatures on every state, checkpoint included
+    const states = [
+      proof.checkpoint,
+      ...proof.transitions.map((transition) => transition.state),
+    ];
+
+    const signatureVerification = await verifyStateChainSignatures(
+      states,
+      userPublicKey,
+      enginePublicKey,
+      this.signatureVerifier,
+      sessionObject.participants,
+    );
+
+    if (!signatureVerification.valid) {
+      return {
+        success: false,
+        error: `Signature verification failed: ${signatureVerification.error}`,
+      };
+    }
+
+    // Delegation scope of transitions signed by session keys
+    // (the checkpoint's own history is attested by its signatures)
+    const delegationCheck = verifyDelegatedActions(
+      sessionObject.sessionId,
+      proof.transitions.flatMap((transition) =>
+        transition.actions.map((action) => ({
+          action,
+          signatures: transition.state.signatures,
+          timestamp: transition.state.timestamp,
+        })),
+      ),
+    );
+
+    if (!delegationCheck.valid) {
+      return {
+        success: false,
+        error: `Delegation scope violated: ${delegationCheck.error}`,
+      };
+    }
+
+    // Final state matches (its contents are read from the verified
+    // witnesses, never from proof.finalState)
+    const finalState = states[states.length - 1];
+
+    if (proof.finalState.stateHash !== finalState.stateHash) {
+      return {
+        success: false,
+        error: "Final state hash mismatch",
+      };
+    }
+
+    // A cooperative proof may not roll back a pending unilateral settlement
+    const pending = sessionObject.pendingSettlement;
+    if (pending && finalState.nonce < pending.state.nonce) {
+      return {
+        success: false,
+        error: `Settlement proof nonce ${finalState.nonce} is older than pending nonce ${pending.state.nonce}`,
+      };
+    }
+
+    // Session ID binding
+    for (const state of states) {
+      if (state.sessionId !== sessionObject.sessionId) {
+        return {
+          success: false,
+          error: "Session ID mismatch in state history",
+        };
+      }
+    }
+
+    // Capital conservation
+    const capitalCheck = this.verifyCapitalConservation(
+      proof.finalBalances,
+      sessionObject.lockedAssets,
+    );
+
+    if (!capitalCheck.valid) {
+      return {
+        success: false,
+        error: `Capital conservation violated: ${capitalCheck.error}`,
+      };
+    }
+
+    // Final balances must be the final state's accounts summed per asset
+    if (
+      !this.balancesEqual(
+        proof.finalBalances,
+        sumAccountBalances(finalState.balances),
+      )
+    ) {
+      return {
+        success: false,
+        error: "Final balances do not match final state",
+      };
+    }
+
+    // Action count and action log root
+    const finalLogFrontier = chainVerification.finalLogFrontier!;
+
+    if (proof.totalActions !== finalLogFrontier.leafCount) {
+      return {
+        success: false,
+        error: "Action count mismatch",
+      };
+    }
+
+    if (proof.actionLogRoot !== computeFrontierRoot(finalLogFrontier)) {
+      return {
+        success: false,
+        error: "Action log root mismatch",
+      };
+    }
+
+    const payouts = this.planPayouts(sessionObject, finalState);
+    if (!payouts.plan) {
+      return {
+        success: false,
+        error: payouts.error,
+      };
+    }
+
+    const settledSession: SessionObject = {
+      ...sessionObject,
+      status: SessionStatus.SETTLED,
+      settlementTime: Date.now(),
+      finalStateHash: finalState.stateHash,
+      settlementProof: proof,
+      payoutPlan: payouts.plan,
     };
 
     return {
@@ -214,6 +524,44 @@ export class SettlementVerifier {
     return { valid: true };
   }
 
+  /**
+   * Payout plan for a settling state, checked as the settlement contract
+   * checks it before executing transfers (see verifyPayoutPlan).
+   */
+  private planPayouts(
+    sessionObject: SessionObject,
+    state: SessionStateHeader,
+  ): { plan?: PayoutPlan; error?: string } {
+    let plan: PayoutPlan;
+    try {
+      plan = computePayoutPlan(sessionObject, state);
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+
+    const check = verifyPayoutPlan(plan, sessionObject.lockedAssets);
+    if (!check.valid) {
+      return { error: `Invalid payout plan: ${check.error}` };
+    }
+    return { plan };
+  }
+
+  /**
+   * Check two per-asset balance maps are equal (absent asset = 0).
+   */
+  private balancesEqual(
+    a: Record<string, bigint>,
+    b: Record<string, bigint>,
+  ): boolean {
+    const assets = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const asset of assets) {
+      if ((a[asset] || BigInt(0)) !== (b[asset] || BigInt(0))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
   /**
    * Compute settlement amounts (what user receives back).
    *
@@ -222,6 +570,9 @@ export class SettlementVerifier {
    * - Fees paid
    * - Value transferred out
    * - Protocol costs
+   *
+   * Settlement pays out the session's payoutPlan (see payout.ts), which
+   * splits these per recipient.
    */
   computeSettlementAmounts(
     finalBalances: Record<string, bigint>,
@@ -244,6 +595,55 @@ export class SettlementVerifier {
     return { returned, consumed };
   }
 
+  /**
+   * Verify that a single action was executed in a settled session.
+   *
+   * Checks the inclusion proof against the action log root committed
+   * at settlement, without needing the session's state history.
+   */
+  verifySettledAction(
+    settledSession: SessionObject,
+    action: Action,
+    inclusionProof: ActionInclusionProof,
+  ): boolean {
+    if (!settledSession.settlementProof) {
+      return false;
+    }
+
+    return verifyInclusion(
+      settledSession.settlementProof.actionLogRoot,
+      action,
+      inclusionProof,
+    );
+  }
+
+  /**
+   * Re-check session metadata constraints over a settlement proof.
+   *
+   * Replays maxDuration and ActionConstraints over the final action log
+   * and the constraint state carried over checkpoints, with the session's
+   * on-chain start time. Requires a full proof, since a
+   * compact proof does not carry the log.
+   */
+  verifySessionConstraints(
+    sessionObject: SessionObject,
+    proof: SettlementProof,
+    metadata: SessionMetadata,
+  ): { valid: boolean; error?: string } {
+    if (metadata.sessionId !== sessionObject.sessionId) {
+      return { valid: false, error: "Session ID mismatch in metadata" };
+    }
+
+    const finalState = proof.stateHistory[proof.stateHistory.length - 1];
+    const check = verifyActionLogConstraints(
+      finalState.actionLog,
+      { ...metadata, startTime: sessionObject.startTime },
+      finalState.carry,
+    );
+
+    return check.valid ? { valid: true } : { valid: false, error: check.error };
+  }
+
   /**
    * Verify settlement timeout hasn't expired.
    *
@@ -266,6 +666,167 @@ export class SettlementVerifier {
     };
   }
 
+  // ==========================================================================
+  // CHECKPOINTS
+  // ==========================================================================
+
+  /**
+   * Commit a checkpoint and optional withdrawal while the session stays
+   * ACTIVE.
+   *
+   * Verifies:
+   * - The checkpointed state is dual-signed, hashed correctly, conserves
+   *   capital and is not older than the last checkpoint
+   * - The genesis is dual-signed, links to it (nonce + 1, previousStateHash)
+   *   and has an empty action log
+   * - The genesis carries the checkpoint's constraint state (deduction
+   *   totals and recent action timestamps)
+   * - Genesis balances are the checkpoint balances minus the withdrawal
+   *
+   * The withdrawal is released and removed from lockedAssets. Later
+   * settlement proofs start at the genesis.
+   */
+  async verifyAndCheckpoint(
+    sessionObject: SessionObject,
+    checkpointState: SessionState,
+    genesis: SessionState,
+    withdrawals: Record<string, bigint>,
+    userPublicKey: string,
+    enginePublicKey: string,
+    now: number = Date.now(),
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    checkpointedSession?: SessionObject;
+  }> {
+    if (sessionObject.status !== SessionStatus.ACTIVE) {
+      return {
+        success: false,
+        error: `Session not active: ${sessionObject.status}`,
+      };
+    }
+
+    for (const [label, state] of [
+      ["checkpoint", checkpointState],
+      ["genesis", genesis],
+    ] as const) {
+      const check = await this.verifySubmittedState(
+        sessionObject,
+        state,
+        userPublicKey,
+        enginePublicKey,
+      );
+      if (!check.valid) {
+        return { success: false, error: `Invalid ${label}: ${check.error}` };
+      }
+    }
+
+    if (
+      genesis.nonce !== checkpointState.nonce + 1 ||
+      genesis.previousStateHash !== checkpointState.stateHash ||
+      genesis.actionLog.length > 0
+    ) {
+      return {
+        success: false,
+        error: "Genesis does not continue from the checkpoint",
+      };
+    }
+
+    if (
+      !sameConstraintCarry(
+        genesis.carry,
+        computeConstraintCarry(checkpointState),
+      )
+    ) {
+      return {
+        success: false,
+        error: "Genesis does not carry the checkpoint's constraint state",
+      };
+    }
+
+    // Checkpoint balances = genesis balances + withdrawals, per asset
+    const before = sumAccountBalances(checkpointState.balances);
+    const after = sumAccountBalances(genesis.balances);
+    const withdrawn: Record<string, bigint> = {};
+
+    const assets = new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+      ...Object.keys(withdrawals),
+    ]);
+
+    for (const asset of assets) {
+      const amount = withdrawals[asset] || BigInt(0);
+      if (
+        amount < BigInt(0) ||
+        (after[asset] || BigInt(0)) + amount !== (before[asset] || BigInt(0))
+      ) {
+        return {
+          success: false,
+          error: `Withdrawal of ${asset} does not match genesis balances`,
+        };
+      }
+      if (amount > BigInt(0)) {
+        withdrawn[asset] = amount;
+      }
+    }
+
+    // Release the withdrawal
+    const lockedAssets = { ...sessionObject.lockedAssets };
+    for (const [asset, amount] of Object.entries(withdrawn)) {
+      lockedAssets[asset] = (lockedAssets[asset] || BigInt(0)) - amount;
+    }
+
+    const checkpointedSession: SessionObject = {
+      ...sessionObject,
+      lockedAssets,
+      checkpoint: {
+        nonce: checkpointState.nonce,
+        stateHash: checkpointState.stateHash,
+        genesisNonce: genesis.nonce,
+        genesisStateHash: genesis.stateHash,
+        withdrawn,
+        timestamp: now,
+      },
+    };
+
+    return {
+      success: true,
+      checkpointedSession,
+    };
+  }
+
+  /**
+   * A state (or compact proof checkpoint) must not predate the session's
+   * committed checkpoint genesis.
+   */
+  private verifyAfterCheckpoint(
+    sessionObject: SessionObject,
+    state: SessionStateHeader,
+  ): { valid: boolean; error?: string } {
+    const checkpoint = sessionObject.checkpoint;
+    if (!checkpoint) {
+      return { valid: true };
+    }
+
+    if (
+      state.nonce < checkpoint.genesisNonce ||
+      (state.nonce === checkpoint.genesisNonce &&
+        state.stateHash !== checkpoint.genesisStateHash)
+    ) {
+      return {
+        valid: false,
+        error: `State ${state.nonce} predates checkpoint genesis ${checkpoint.genesisNonce}`,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  // ==========================================================================
+  // DISPUTE GAME
+  // ==========================================================================
+
   /**
    * Emergency settlement with last known valid state.
    *
@@ -274,64 +835,205 @@ export class SettlementVerifier {
    * - User disconnects
    * - Timeout expires
    *
-   * User provides last signed state, settlement proceeds.
+   * The submitted state is not settled immediately: the counterparty may
+   * hold a newer co-signed state. This opens a challenge window of
+   * settlementTimeout seconds (see challengeSettlement), after which
+   * finalizeSettlement settles on the latest submitted state.
    */
-  emergencySettle(
+  async emergencySettle(
     sessionObject: SessionObject,
     lastValidState: SessionState,
     userPublicKey: string,
     enginePublicKey: string,
-  ): {
+    settlementTimeout: number,
+    submittedBy: SettlementParty = SettlementParty.USER,
+    now: number = Date.now(),
+  ): Promise<{
     success: boolean;
     error?: string;
-    settledSession?: SessionObject;
-  } {
-    // Verify state signatures
-    if (!lastValidState.signatures.user || !lastValidState.signatures.engine) {
+    pendingSession?: SessionObject;
+  }> {
+    if (!isSettleable(sessionObject.status)) {
       return {
         success: false,
-        error: "Missing signatures on last valid state",
+        error: `Session not active: ${sessionObject.status}`,
       };
     }
 
-    // Verify session binding
-    if (lastValidState.sessionId !== sessionObject.sessionId) {
+    if (sessionObject.pendingSettlement) {
       return {
         success: false,
-        error: "Session ID mismatch",
+        error: "Settlement already pending; challenge it instead",
       };
     }
 
-    // Verify capital conservation
-    const capitalCheck = this.verifyCapitalConservation(
-      lastValidState.balances,
-      sessionObject.lockedAssets,
+    const check = await this.verifySubmittedState(
+      sessionObject,
+      lastValidState,
+      userPublicKey,
+      enginePublicKey,
     );
+    if (!check.valid) {
+      return { success: false, error: check.error };
+    }
 
-    if (!capitalCheck.valid) {
+    const pendingSession: SessionObject = {
+      ...sessionObject,
+      status: SessionStatus.SETTLING,
+      pendingSettlement: {
+        state: lastValidState,
+        submittedBy,
+        openedAt: now,
+        challengeDeadline: now + settlementTimeout * 1000,
+        disputes: [],
+      },
+    };
+
+    return {
+      success: true,
+      pendingSession,
+    };
+  }
+
+  /**
+   * Challenge a pending settlement with a newer co-signed state.
+   *
+   * Succeeds only inside the challenge window and only with a higher
+   * nonce. The pending state is replaced, recorded as a stale submission
+   * (DisputeRecord), the session becomes DISPUTED and the window restarts.
+   */
+  async challengeSettlement(
+    sessionObject: SessionObject,
+    newerState: SessionState,
+    challenger: SettlementParty,
+    userPublicKey: string,
+    enginePublicKey: string,
+    settlementTimeout: number,
+    now: number = Date.now(),
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    disputedSession?: SessionObject;
+  }> {
+    const pending = sessionObject.pendingSettlement;
+    if (!pending || !isChallengeable(sessionObject.status)) {
       return {
         success: false,
-        error: `Capital conservation violated: ${capitalCheck.error}`,
+        error: "No pending settlement to challenge",
+      };
+    }
+
+    if (now > pending.challengeDeadline) {
+      return {
+        success: false,
+        error: `Challenge window closed at ${pending.challengeDeadline}`,
+      };
+    }
+
+    if (newerState.nonce <= pending.state.nonce) {
+      return {
+        success: false,
+        error: `Challenge state nonce ${newerState.nonce} is not newer than pending nonce ${pending.state.nonce}`,
+      };
+    }
+
+    const check = await this.verifySubmittedState(
+      sessionObject,
+      newerState,
+      userPublicKey,
+      enginePublicKey,
+    );
+    if (!check.valid) {
+      return { success: false, error: check.error };
+    }
+
+    const dispute: DisputeRecord = {
+      staleSubmitter: pending.submittedBy,
+      staleNonce: pending.state.nonce,
+      staleStateHash: pending.state.stateHash,
+      challenger,
+      challengeNonce: newerState.nonce,
+      challengeStateHash: newerState.stateHash,
+      timestamp: now,
+    };
+
+    const disputedSession: SessionObject = {
+      ...sessionObject,
+      status: SessionStatus.DISPUTED,
+      pendingSettlement: {
+        state: newerState,
+        submittedBy: challenger,
+        openedAt: now,
+        challengeDeadline: now + settlementTimeout * 1000,
+        disputes: [...pending.disputes, dispute],
+      },
+    };
+
+    return {
+      success: true,
+      disputedSession,
+    };
+  }
+
+  /**
+   * Settle a pending settlement once its challenge window has passed
+   * without a successful challenge.
+   *
+   * The pending settlement (and its dispute records) stays on the
+   * settled session.
+   */
+  finalizeSettlement(
+    sessionObject: SessionObject,
+    now: number = Date.now(),
+  ): {
+    success: boolean;
+    error?: string;
+    settledSession?: SessionObject;
+  } {
+    const pending = sessionObject.pendingSettlement;
+    if (!pending || !isChallengeable(sessionObject.status)) {
+      return {
+        success: false,
+        error: "No pending settlement to finalize",
       };
     }
 
-    // Create minimal proof from last state
+    if (now <= pending.challengeDeadline) {
+      return {
+        success: false,
+        error: `Challenge window open until ${pending.challengeDeadline}`,
+      };
+    }
+
+    const { state } = pending;
+    const finalBalances = sumAccountBalances(state.balances);
+
+    // Minimal proof from the pending state
     const emergencyProof: SettlementProof = {
-      stateHistory: [lastValidState],
-      finalState: lastValidState,
-      actionLogRoot: "emergency",
-      totalActions: lastValidState.actionLog.length,
-      finalBalances: lastValidState.balances,
-      userSettlementSignature: lastValidState.signatures.user,
+      stateHistory: [state],
+      finalState: state,
+      actionLogRoot: computeActionLogRoot(state.actionLog),
+      totalActions: state.actionLog.length,
+      finalBalances,
+      userSettlementSignature: state.signatures.user,
     };
 
+    const payouts = this.planPayouts(sessionObject, state);
+    if (!payouts.plan) {
+      return {
+        success: false,
+        error: payouts.error,
+      };
+    }
+
     // Execute settlement
     const settledSession: SessionObject = {
       ...sessionObject,
       status: SessionStatus.SETTLED,
-      settlementTime: Date.now(),
-      finalStateHash: lastValidState.stateHash,
+      settlementTime: now,
+      finalStateHash: state.stateHash,
       settlementProof: emergencyProof,
+      payoutPlan: payouts.plan,
     };
 
     return {
@@ -339,6 +1041,113 @@ export class SettlementVerifier {
       settledSession,
     };
   }
+
+  /**
+   * Checks on a single state submitted to the dispute game:
+   * signatures (per the approval policy), session binding, hash and
+   * capital conservation.
+   */
+  private async verifySubmittedState(
+    sessionObject: SessionObject,
+    state: SessionState,
+    userPublicKey: string,
+    enginePublicKey: string,
+  ): Promise<{ valid: boolean; error?: string }> {
+    // Verify state signatures
+    if (!checkStateApprovals(state, sessionObject.participants).valid) {
+      return {
+        valid: false,
+        error: "Missing signatures on submitted state",
+      };
+    }
+
+    // Same checks as a state chain of one (handles delegated user signatures)
+    const signatureVerification = await verifyStateChainSignatures(
+      [state],
+      userPublicKey,
+      enginePublicKey,
+      this.signatureVerifier,
+      sessionObject.participants,
+    );
+
+    if (!signatureVerification.valid) {
+      return {
+        valid: false,
+        error: "Invalid signatures on submitted state",
+      };
+    }
+
+    // Verify session binding
+    if (state.sessionId !== sessionObject.sessionId) {
+      return {
+        valid: false,
+        error: "Session ID mismatch",
+      };
+    }
+
+    const anchorCheck = this.verifyAfterCheckpoint(sessionObject, state);
+    if (!anchorCheck.valid) {
+      return anchorCheck;
+    }
+
+    // Signatures cover the hash; the hash must cover these balances
+    const computedHash = await computeStateHashWith(
+      this.backend,
+      state.sessionId,
+      state.nonce,
+      state.balances,
+      state.previousStateHash,
+      computeActionLogRoot(state.actionLog),
+      state.carry,
+    );
+
+    if (computedHash !== state.stateHash) {
+      return {
+        valid: false,
+        error: "Submitted state hash mismatch",
+      };
+    }
+
+    // Verify capital conservation
+    const capitalCheck = this.verifyCapitalConservation(
+      sumAccountBalances(state.balances),
+      sessionObject.lockedAssets,
+    );
+
+    if (!capitalCheck.valid) {
+      return {
+        valid: false,
+        error: `Capital conservation violated: ${capitalCheck.error}`,
+      };
+    }
+
+    return { valid: true };
+  }
+}
+
+/**
+ * Whether a session in this status may be settled: ACTIVE, or SETTLING
+ * once settlement has been initiated (see engine/session-manager.ts).
+ */
+export function isSettleable(status: SessionStatus): boolean {
+  return status === SessionStatus.ACTIVE || status === SessionStatus.SETTLING;
+}
+
+/**
+ * Whether a session in this status may have its pending settlement
+ * challenged or finalized.
+ */
+function isChallengeable(status: SessionStatus): boolean {
+  return status === SessionStatus.SETTLING || status === SessionStatus.DISPUTED;
+}
+
+/**
+ * Distinguish a compact settlement proof from a full-history proof.
+ */
+export function isCompactSettlementProof(
+  proof: SettlementProof | CompactSettlementProof,
+): proof is CompactSettlementProof {
+  return "transitions" in proof;
 }
 
 // ============================================================================
@@ -354,55 +1163,54 @@ export class SettlementVerifier {
  * public entry fun settle_session(
  *     session: &mut SessionObject,
  *     proof: SettlementProof,
+ *     payout_plan: vector<u8>, // encodePayoutPlan
  *     ctx: &mut TxContext
  * ) {
  *     // Verify proof
  *     assert!(verify_state_chain(&proof.state_history), E_INVALID_CHAIN);
  *     assert!(verify_signatures(&proof, ctx), E_INVALID_SIGNATURE);
  *     assert!(verify_capital(&proof, session), E_CAPITAL_VIOLATION);
+ *     let plan = decode_payout_plan(payout_plan);
+ *     assert!(verify_payout_plan(&plan, session), E_INVALID_PAYOUT_PLAN);
  *
  *     // Update session
  *     session.status = SETTLED;
  *     session.final_state_hash = proof.final_state.hash;
  *     session.settlement_time = tx_context::epoch_timestamp_ms(ctx);
  *
- *     // Transfer balances back to user
- *     transfer_assets(session, proof.final_balances, ctx);
+ *     // Pay out refund, transfers and fees (sums to locked assets)
+ *     execute_payouts(session, plan, ctx);
  * }
  * ```
  */
-export function simulateOnChainSettlement(
+export async function simulateOnChainSettlement(
   sessionObject: SessionObject,
-  proof: SettlementProof,
+  proof: SettlementProof | CompactSettlementProof,
   userPublicKey: string,
   enginePublicKey: string,
-): {
+  verifier: SettlementVerifier = new SettlementVerifier(),
+  costModel: CostModel = new SuiCostModel(),
+): Promise<{
   success: boolean;
   error?: string;
   settledSession?: SessionObject;
   gasUsed: number;
+  cost: CostEstimate;
   eventLogs: string[];
-} {
-  const verifier = new SettlementVerifier();
+}> {
   const eventLogs: string[] = [];
 
-  // Simulate gas cost (in production, this is actual gas)
-  let gasUsed = 0;
-
-  // Base cost for transaction
-  gasUsed += 1000;
-  eventLogs.push("Settlement transaction initiated");
-
-  // Cost for state verification (scales with state history length)
-  gasUsed += proof.stateHistory.length * 100;
-  eventLogs.push(`Verifying ${proof.stateHistory.length} states in chain`);
+  // Estimate cost with the chain's model (see cost-model.ts)
+  const inputs = measureSettlementProof(proof, costModel.encoding);
 
-  // Cost for signature verification
-  gasUsed += proof.stateHistory.length * 50;
-  eventLogs.push("Verifying signatures");
+  eventLogs.push(
+    `Settlement transaction initiated (${inputs.proofBytes} byte proof)`,
+  );
+  eventLogs.push(`Verifying ${inputs.stateCount} states in chain`);
+  eventLogs.push(`Verifying ${inputs.signatureCount} signatures`);
 
   // Execute verification
-  const result = verifier.verifyAndSettle(
+  const result = await verifier.verifyAndSettle(
     sessionObject,
     proof,
     userPublicKey,
@@ -410,30 +1218,55 @@ export function simulateOnChainSettlement(
   );
 
   if (!result.success) {
+    // Aborted transactions still pay for verification
+    const cost = costModel.estimate({ ...inputs, aborted: true });
     eventLogs.push(`Settlement failed: ${result.error}`);
     return {
       success: false,
       error: result.error,
-      gasUsed,
+      gasUsed: cost.total,
+      cost,
       eventLogs,
     };
   }
 
-  // Cost for state update
-  gasUsed += 500;
-  eventLogs.push("Updating session object state");
+  // The plan is submitted encoded with the proof; the contract decodes
+  // and checks it before executing one transfer per payout
+  const planBytes = encodePayoutPlan(
+    result.settledSession!.payoutPlan!,
+    costModel.encoding,
+  );
+  const plan = decodePayoutPlan(planBytes, costModel.encoding);
+  const planCheck = verifyPayoutPlan(plan, sessionObject.lockedAssets);
+  const planInputs = withPayoutPlan(inputs, planBytes, plan.payouts.length);
+
+  if (!planCheck.valid) {
+    const cost = costModel.estimate({ ...planInputs, aborted: true });
+    eventLogs.push(`Settlement failed: ${planCheck.error}`);
+    return {
+      success: false,
+      error: `Invalid payout plan: ${planCheck.error}`,
+      gasUsed: cost.total,
+      cost,
+      eventLogs,
+    };
+  }
 
-  // Cost for asset transfer
-  const assetCount = Object.keys(proof.finalBalances).length;
-  gasUsed += assetCount * 200;
-  eventLogs.push(`Transferring ${assetCount} assets back to user`);
+  const cost = costModel.estimate(planInputs);
 
-  eventLogs.push("Settlement successful");
+  eventLogs.push("Updating session object state");
+  eventLogs.push(
+    `Executing ${plan.payouts.length} payouts (${planBytes.length} byte plan)`,
+  );
+  eventLogs.push(
+    `Settlement successful (${cost.total} ${cost.unit} on ${cost.model})`,
+  );
 
   return {
     success: true,
     settledSession: result.settledSession,
-    gasUsed,
+    gasUsed: cost.total,
+    cost,
     eventLogs,
   };
 }
@@ -0,0 +1,245 @@
+/**
+ * SessionFi File Session Store (Node)
+ *
+ * Append-only log per session under a data directory:
+ * - <id>.states: one hex-encoded BCS SessionState per line
+ * - <id>.settlement: hex-encoded BCS SettlementProof, replaced atomically
+ * - <id>.session: JSON SessionRecord, replaced atomically
+ *
+ * Crash recovery: every append is fsynced, and a torn last line (a crash
+ * mid-write) is ignored on load and truncated before the next append, so
+ * the store always reopens at the last complete signed state.
+ */
+
+import {
+  mkdir,
+  open,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  truncate,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import { SessionState, SettlementProof } from "../core/types";
+import {
+  decodeSessionState,
+  decodeSettlementProof,
+  encodeSessionState,
+  encodeSettlementProof,
+} from "../crypto/encoding";
+import {
+  KeyedQueue,
+  SessionRecord,
+  SessionStore,
+  checkAppend,
+  decodeSessionRecord,
+  encodeSessionRecord,
+} from "./session-store";
+
+const STATES_EXT = ".states";
+const SETTLEMENT_EXT = ".settlement";
+const RECORD_EXT = ".session";
+
+/**
+ * Complete lines of a state log and the byte length they cover.
+ */
+interface StateLog {
+  states: SessionState[];
+  validLength: number;
+  torn: boolean;
+}
+
+/**
+ * File-backed SessionStore for Node.
+ */
+export class FileSessionStore implements SessionStore {
+  readonly name = "file";
+
+  private directory: string;
+
+  // Latest state per session, loaded lazily from disk
+  private latest = new Map<string, SessionState | null>();
+
+  // Appends per session, one at a time
+  private appends = new KeyedQueue();
+
+  /**
+   * @param directory - Data directory (created if missing)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async appendState(state: SessionState): Promise<void> {
+    return this.appends.run(state.sessionId, () => this.writeState(state));
+  }
+
+  private async writeState(state: SessionState): Promise<void> {
+    const path = this.statesPath(state.sessionId);
+    let latest = this.latest.get(state.sessionId);
+
+    if (latest === undefined) {
+      const log = await this.readLog(state.sessionId);
+      if (log.torn) {
+        await truncate(path, log.validLength);
+      }
+      latest = log.states[log.states.length - 1] ?? null;
+    }
+
+    checkAppend(latest, state);
+
+    await mkdir(this.directory, { recursive: true });
+    const handle = await open(path, "a");
+    try {
+      await handle.write(`${bytesToHex(encodeSessionState(state))}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    this.latest.set(state.sessionId, structuredClone(state));
+  }
+
+  async loadLatestState(sessionId: string): Promise<SessionState | null> {
+    const cached = this.latest.get(sessionId);
+    if (cached !== undefined) {
+      return cached && structuredClone(cached);
+    }
+
+    const { states, torn } = await this.readLog(sessionId);
+    const latest = states[states.length - 1] ?? null;
+
+    // A torn log is only cached once appendState has repaired it
+    if (!torn) {
+      this.latest.set(sessionId, latest);
+    }
+    return latest && structuredClone(latest);
+  }
+
+  async loadHistory(
+    sessionId: string,
+    fromNonce: number = 0,
+    toNonce: number = Number.MAX_SAFE_INTEGER,
+  ): Promise<SessionState[]> {
+    const { states } = await this.readLog(sessionId);
+    return states.filter(
+      (state) => state.nonce >= fromNonce && state.nonce <= toNonce,
+    );
+  }
+
+  async listSessions(): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    return entries
+      .filter((entry) => entry.endsWith(STATES_EXT))
+      .map((entry) => decodeURIComponent(entry.slice(0, -STATES_EXT.length)));
+  }
+
+  async savePendingSettlement(
+    sessionId: string,
+    proof: SettlementProof,
+  ): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    // Write then rename, so a crash never leaves a partial proof
+    await this.replaceFile(
+      this.settlementPath(sessionId),
+      bytesToHex(encodeSettlementProof(proof)),
+    );
+  }
+
+  async loadPendingSettlement(
+    sessionId: string,
+  ): Promise<SettlementProof | null> {
+    const hex = await this.readOptional(this.settlementPath(sessionId));
+    return hex ? decodeSettlementProof(hexToBytes(hex.trim())) : null;
+  }
+
+  async saveSessionRecord(record: SessionRecord): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await this.replaceFile(
+      this.recordPath(record.object.sessionId),
+      encodeSessionRecord(record),
+    );
+  }
+
+  async loadSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+    const json = await this.readOptional(this.recordPath(sessionId));
+    return json ? decodeSessionRecord(json) : null;
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    await rm(this.statesPath(sessionId), { force: true });
+    await rm(this.settlementPath(sessionId), { force: true });
+    await rm(this.recordPath(sessionId), { force: true });
+    this.latest.delete(sessionId);
+  }
+
+  // ==========================================================================
+  // FILES
+  // ==========================================================================
+
+  private statesPath(sessionId: string): string {
+    return join(this.directory, encodeURIComponent(sessionId) + STATES_EXT);
+  }
+
+  private settlementPath(sessionId: string): string {
+    return join(this.directory, encodeURIComponent(sessionId) + SETTLEMENT_EXT);
+  }
+
+  private recordPath(sessionId: string): string {
+    return join(this.directory, encodeURIComponent(sessionId) + RECORD_EXT);
+  }
+
+  /**
+   * Replace a file's contents by writing a temporary file and renaming it
+   * over the original.
+   */
+  private async replaceFile(path: string, contents: string): Promise<void> {
+    await writeFile(`${path}.tmp`, contents);
+    await rename(`${path}.tmp`, path);
+  }
+
+  private async readOptional(path: string): Promise<string | null> {
+    try {
+      return await readFile(path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a state log. Only newline-terminated lines are complete;
+   * anything after the last newline is a torn write.
+   */
+  private async readLog(sessionId: string): Promise<StateLog> {
+    const content = await this.readOptional(this.statesPath(sessionId));
+    if (!content) {
+      return { states: [], validLength: 0, torn: false };
+    }
+
+    const end = content.lastIndexOf("\n") + 1;
+    const states = content
+      .slice(0, end)
+      .split("\n")
+      .filter((line) => line.length > 0)
+      .map((line) => decodeSessionState(hexToBytes(line)));
+
+    // Lines are ASCII hex, so character and byte offsets agree
+    return { states, validLength: end, torn: end < content.length };
+  }
+}
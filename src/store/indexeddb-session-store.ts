@@ -0,0 +1,262 @@
+/**
+ * SessionFi IndexedDB Session Store (browser)
+ *
+ * Object stores:
+ * - states: { sessionId, nonce, bytes } keyed by [sessionId, nonce]
+ * - settlements: { sessionId, bytes } keyed by sessionId
+ * - sessions: { sessionId, record } keyed by sessionId (the SessionRecord
+ *   is stored as is; IndexedDB clones bigints natively)
+ *
+ * bytes is the canonical BCS encoding. Each append validates against the
+ * latest stored state and writes in the same readwrite transaction, so
+ * concurrent tabs cannot fork a session's chain.
+ */
+
+import { SessionState, SettlementProof } from "../core/types";
+import {
+  decodeSessionState,
+  decodeSettlementProof,
+  encodeSessionState,
+  encodeSettlementProof,
+} from "../crypto/encoding";
+import { SessionRecord, SessionStore, checkAppend } from "./session-store";
+
+const DB_VERSION = 2;
+const STATES = "states";
+const SETTLEMENTS = "settlements";
+const SESSIONS = "sessions";
+const SESSION_INDEX = "sessionId";
+
+interface StoredState {
+  sessionId: string;
+  nonce: number;
+  bytes: Uint8Array;
+}
+
+interface StoredSettlement {
+  sessionId: string;
+  bytes: Uint8Array;
+}
+
+interface StoredSession {
+  sessionId: string;
+  record: SessionRecord;
+}
+
+/**
+ * Resolve an IDBRequest as a promise.
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits.
+ */
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/**
+ * IndexedDB-backed SessionStore for browsers.
+ */
+export class IndexedDbSessionStore implements SessionStore {
+  readonly name = "indexeddb";
+
+  private databaseName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param databaseName - IndexedDB database name
+   */
+  constructor(databaseName: string = "sessionfi") {
+    this.databaseName = databaseName;
+  }
+
+  async appendState(state: SessionState): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STATES, "readwrite");
+    const done = committed(tx);
+    const states = tx.objectStore(STATES);
+
+    try {
+      const cursor = await request(
+        states.openCursor(this.range(state.sessionId), "prev"),
+      );
+      const latest = cursor
+        ? decodeSessionState((cursor.value as StoredState).bytes)
+        : null;
+
+      checkAppend(latest, state);
+
+      const record: StoredState = {
+        sessionId: state.sessionId,
+        nonce: state.nonce,
+        bytes: encodeSessionState(state),
+      };
+      states.add(record);
+    } catch (error) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw error;
+    }
+
+    await done;
+  }
+
+  async loadLatestState(sessionId: string): Promise<SessionState | null> {
+    const db = await this.open();
+    const cursor = await request(
+      db
+        .transaction(STATES, "readonly")
+        .objectStore(STATES)
+        .openCursor(this.range(sessionId), "prev"),
+    );
+
+    return cursor
+      ? decodeSessionState((cursor.value as StoredState).bytes)
+      : null;
+  }
+
+  async loadHistory(
+    sessionId: string,
+    fromNonce: number = 0,
+    toNonce: number = Number.MAX_SAFE_INTEGER,
+  ): Promise<SessionState[]> {
+    const db = await this.open();
+    const records = (await request(
+      db
+        .transaction(STATES, "readonly")
+        .objectStore(STATES)
+        .getAll(this.range(sessionId, fromNonce, toNonce)),
+    )) as StoredState[];
+
+    return records.map((record) => decodeSessionState(record.bytes));
+  }
+
+  async listSessions(): Promise<string[]> {
+    const db = await this.open();
+    const keys = await request(
+      db
+        .transaction(STATES, "readonly")
+        .objectStore(STATES)
+        .index(SESSION_INDEX)
+        .getAllKeys(),
+    );
+
+    // Primary keys are [sessionId, nonce]
+    return [...new Set(keys.map((key) => (key as [string, number])[0]))];
+  }
+
+  async savePendingSettlement(
+    sessionId: string,
+    proof: SettlementProof,
+  ): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SETTLEMENTS, "readwrite");
+    const record: StoredSettlement = {
+      sessionId,
+      bytes: encodeSettlementProof(proof),
+    };
+    tx.objectStore(SETTLEMENTS).put(record);
+    await committed(tx);
+  }
+
+  async loadPendingSettlement(
+    sessionId: string,
+  ): Promise<SettlementProof | null> {
+    const db = await this.open();
+    const record = (await request(
+      db
+        .transaction(SETTLEMENTS, "readonly")
+        .objectStore(SETTLEMENTS)
+        .get(sessionId),
+    )) as StoredSettlement | undefined;
+
+    return record ? decodeSettlementProof(record.bytes) : null;
+  }
+
+  async saveSessionRecord(record: SessionRecord): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS, "readwrite");
+    const stored: StoredSession = {
+      sessionId: record.object.sessionId,
+      record,
+    };
+    tx.objectStore(SESSIONS).put(stored);
+    await committed(tx);
+  }
+
+  async loadSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+    const db = await this.open();
+    const stored = (await request(
+      db.transaction(SESSIONS, "readonly").objectStore(SESSIONS).get(sessionId),
+    )) as StoredSession | undefined;
+
+    return stored ? stored.record : null;
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([STATES, SETTLEMENTS, SESSIONS], "readwrite");
+    tx.objectStore(STATES).delete(this.range(sessionId));
+    tx.objectStore(SETTLEMENTS).delete(sessionId);
+    tx.objectStore(SESSIONS).delete(sessionId);
+    await committed(tx);
+  }
+
+  /**
+   * Close the database connection.
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      (await this.db).close();
+      this.db = null;
+    }
+  }
+
+  // ==========================================================================
+  // DATABASE
+  // ==========================================================================
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const req = globalThis.indexedDB.open(this.databaseName, DB_VERSION);
+
+      req.onupgradeneeded = (event) => {
+        const db = req.result;
+        if (event.oldVersion < 1) {
+          const states = db.createObjectStore(STATES, {
+            keyPath: ["sessionId", "nonce"],
+          });
+          states.createIndex(SESSION_INDEX, "sessionId");
+          db.createObjectStore(SETTLEMENTS, { keyPath: "sessionId" });
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(SESSIONS, { keyPath: "sessionId" });
+        }
+      };
+
+      this.db = request(req);
+    }
+    return this.db;
+  }
+
+  /**
+   * Key range over a session's states, optionally limited to a nonce range.
+   */
+  private range(
+    sessionId: string,
+    fromNonce: number = 0,
+    toNonce: number = Number.MAX_SAFE_INTEGER,
+  ): IDBKeyRange {
+    return IDBKeyRange.bound([sessionId, fromNonce], [sessionId, toNonce]);
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * SessionFi Session Store
+ *
+ * Persists the signed state chain of every session, so the engine (and the
+ * user) can always recover the last valid signed state after a restart.
+ *
+ * Implementations:
+ * - MemorySessionStore: in-process (tests, short-lived engines)
+ * - FileSessionStore: Node, append-only files (file-session-store.ts)
+ * - IndexedDbSessionStore: browser (indexeddb-session-store.ts)
+ *
+ * Every store enforces the same append rule: a state is accepted only if
+ * it is dual-signed and extends the stored chain by exactly one nonce.
+ * Durable stores serialize with the canonical BCS encoding (encoding.ts).
+ *
+ * Stores also keep a SessionRecord per session, the SessionManager's view
+ * besides the state chain, so a manager can resume its sessions.
+ */
+
+import {
+  EngineState,
+  SessionMetadata,
+  SessionObject,
+  SessionState,
+  SettlementProof,
+} from "../core/types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What SessionManager tracks about a session besides its latest state.
+ */
+export interface SessionRecord {
+  object: SessionObject;
+  metadata: SessionMetadata;
+  userPublicKey: string;
+
+  // When SETTLING started (ms), null otherwise
+  settlementStartedAt: number | null;
+
+  // Spend made under each session key delegation, keyed by hashDelegation
+  delegatedSpend: Record<string, Record<string, bigint>>;
+}
+
+/**
+ * SessionStore persists signed session states, pending settlements and
+ * session records.
+ */
+export interface SessionStore {
+  readonly name: string;
+
+  /**
+   * Append a dual-signed state to its session's chain.
+   * Throws if the state does not extend the latest stored state.
+   */
+  appendState(state: SessionState): Promise<void>;
+
+  /** Latest stored state of a session (null if none) */
+  loadLatestState(sessionId: string): Promise<SessionState | null>;
+
+  /** Stored states with fromNonce <= nonce <= toNonce, in nonce order */
+  loadHistory(
+    sessionId: string,
+    fromNonce?: number,
+    toNonce?: number,
+  ): Promise<SessionState[]>;
+
+  /** Sessions with at least one stored state */
+  listSessions(): Promise<string[]>;
+
+  /** Record a settlement proof submitted but not yet confirmed */
+  savePendingSettlement(
+    sessionId: string,
+    proof: SettlementProof,
+  ): Promise<void>;
+
+  /** Pending settlement proof of a session (null if none) */
+  loadPendingSettlement(sessionId: string): Promise<SettlementProof | null>;
+
+  /** Save a session's record, replacing the previous one */
+  saveSessionRecord(record: SessionRecord): Promise<void>;
+
+  /** Record of a session (null if none) */
+  loadSessionRecord(sessionId: string): Promise<SessionRecord | null>;
+
+  /**
+   * Drop a session's states, pending settlement and record
+   * (after settlement)
+   */
+  removeSession(sessionId: string): Promise<void>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check that a state may be appended after the latest stored state.
+ * Shared by every SessionStore implementation.
+ */
+export function checkAppend(
+  latest: SessionState | null,
+  state: SessionState,
+): void {
+  // Approval policy is checked by SessionManager and the verifier
+  if (
+    !state.signatures.engine ||
+    (!state.signatures.user && !state.signatures.participants?.length)
+  ) {
+    throw new Error(
+      `Cannot store state ${state.nonce} of session ${state.sessionId}: missing signatures`,
+    );
+  }
+
+  if (latest === null) {
+    if (state.nonce !== 0 || state.previousStateHash !== null) {
+      throw new Error(
+        `Cannot store state ${state.nonce} of session ${state.sessionId}: first stored state must be genesis`,
+      );
+    }
+    return;
+  }
+
+  if (state.nonce !== latest.nonce + 1) {
+    throw new Error(
+      `Cannot store state ${state.nonce} of session ${state.sessionId}: expected nonce ${latest.nonce + 1}`,
+    );
+  }
+
+  if (state.previousStateHash !== latest.stateHash) {
+    throw new Error(
+      `Cannot store state ${state.nonce} of session ${state.sessionId}: previousStateHash does not match stored state`,
+    );
+  }
+}
+
+/**
+ * Session record -> JSON, with bigints as {"$bigint": "<decimal>"}.
+ * For stores that cannot hold bigints natively (e.g. files).
+ */
+export function encodeSessionRecord(record: SessionRecord): string {
+  return JSON.stringify(record, (_key, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value,
+  );
+}
+
+/**
+ * JSON -> session record (inverse of encodeSessionRecord).
+ */
+export function decodeSessionRecord(json: string): SessionRecord {
+  return JSON.parse(json, (_key, value) =>
+    value !== null && typeof value === "object" && "$bigint" in value
+      ? BigInt(value.$bigint)
+      : value,
+  );
+}
+
+/**
+ * Runs async tasks one at a time per key, in call order.
+ * Used to serialize reads and writes of a single session.
+ */
+export class KeyedQueue {
+  private tails = new Map<string, Promise<unknown>>();
+
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const result = previous.then(task);
+    const tail = result.catch(() => undefined);
+
+    this.tails.set(key, tail);
+    void tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+}
+
+/**
+ * Rebuild the engine's view of sessions from a store after a restart:
+ * the latest signed state of every session and any pending settlements.
+ */
+export async function restoreEngineState(
+  store: SessionStore,
+): Promise<EngineState> {
+  const activeSessions = new Map<string, SessionState>();
+  const pendingSettlements = new Map<string, SettlementProof>();
+
+  for (const sessionId of await store.listSessions()) {
+    const latest = await store.loadLatestState(sessionId);
+    if (latest) {
+      activeSessions.set(sessionId, latest);
+    }
+
+    const pending = await store.loadPendingSettlement(sessionId);
+    if (pending) {
+      pendingSettlements.set(sessionId, pending);
+    }
+  }
+
+  return { activeSessions, pendingSettlements };
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/**
+ * In-memory SessionStore. Contents are lost with the process.
+ * States are cloned on the way in and out, like a durable store.
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly name = "memory";
+
+  private states = new Map<string, SessionState[]>();
+  private settlements = new Map<string, SettlementProof>();
+  private records = new Map<string, SessionRecord>();
+
+  async appendState(state: SessionState): Promise<void> {
+    const chain = this.states.get(state.sessionId) || [];
+    checkAppend(chain[chain.length - 1] ?? null, state);
+
+    chain.push(structuredClone(state));
+    this.states.set(state.sessionId, chain);
+  }
+
+  async loadLatestState(sessionId: string): Promise<SessionState | null> {
+    const chain = this.states.get(sessionId);
+    return chain && chain.length > 0
+      ? structuredClone(chain[chain.length - 1])
+      : null;
+  }
+
+  async loadHistory(
+    sessionId: string,
+    fromNonce: number = 0,
+    toNonce: number = Number.MAX_SAFE_INTEGER,
+  ): Promise<SessionState[]> {
+    return (this.states.get(sessionId) || [])
+      .filter((state) => state.nonce >= fromNonce && state.nonce <= toNonce)
+      .map((state) => structuredClone(state));
+  }
+
+  async listSessions(): Promise<string[]> {
+    return [...this.states.keys()];
+  }
+
+  async savePendingSettlement(
+    sessionId: string,
+    proof: SettlementProof,
+  ): Promise<void> {
+    this.settlements.set(sessionId, structuredClone(proof));
+  }
+
+  async loadPendingSettlement(
+    sessionId: string,
+  ): Promise<SettlementProof | null> {
+    const proof = this.settlements.get(sessionId);
+    return proof ? structuredClone(proof) : null;
+  }
+
+  async saveSessionRecord(record: SessionRecord): Promise<void> {
+    this.records.set(record.object.sessionId, structuredClone(record));
+  }
+
+  async loadSessionRecord(sessionId: string): Promise<SessionRecord | null> {
+    const record = this.records.get(sessionId);
+    return record ? structuredClone(record) : null;
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    this.states.delete(sessionId);
+    this.settlements.delete(sessionId);
+    this.records.delete(sessionId);
+  }
+}
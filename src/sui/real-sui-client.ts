@@ -7,7 +7,8 @@
 import { getJsonRpcFullnodeUrl, SuiJsonRpcClient } from "@mysten/sui/jsonRpc";
 import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { Transaction } from "@mysten/sui/transactions";
-import { fromHex, toHex } from "@mysten/bcs";
+import { fromBase64, fromHex, toHex } from "@mysten/bcs";
+import { SuiKeypairSigner } from "../crypto/signer";
 
 // Browser-safe base64 decoder with Node fallback
 const decodePrivateKey = (key: string): Uint8Array => {
@@ -498,15 +499,22 @@ export class RealSuiSettlementClient {
   }
 
   /**
-   * Sign message with keypair
+   * Get a Signer backed by the client keypair (for session engines)
    */
-  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+  getSigner(): SuiKeypairSigner {
     if (!this.keypair) {
       throw new Error("Private key required for signing");
     }
 
-    const signature = await this.keypair.signPersonalMessage(message);
-    return signature.signature;
+    return new SuiKeypairSigner(this.keypair);
+  }
+
+  /**
+   * Sign message with keypair
+   */
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    const signature = await this.getSigner().signBytes(message);
+    return fromBase64(signature);
   }
 }
 
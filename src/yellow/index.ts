@@ -2,7 +2,7 @@
  * Yellow Network Module
  *
  * This module provides real Yellow Network / Nitrolite state channel integration.
- * It replaces the simulated browser-session-engine with actual blockchain interactions.
+ * It replaces the simulated session engine with actual blockchain interactions.
  *
  * @example
  * ```typescript
@@ -5,6 +5,11 @@
 
 import { ethers } from "ethers";
 import dotenv from "dotenv";
+import {
+  channelStateDomain,
+  channelStateTypedData,
+  hashTypedPayload,
+} from "../crypto/typed-data";
 
 dotenv.config();
 
@@ -201,8 +206,12 @@ async function demoOpenChannel() {
   }
 }
 
+// Sepolia chain ID (EIP-712 domain of the deployed custodian)
+const SEPOLIA_CHAIN_ID = 11155111;
+
 /**
  * Generate state hash for off-chain signatures
+ * (EIP-712 digest the custodian recovers signers from)
  */
 function generateStateHash(
   channelId: string,
@@ -211,23 +220,42 @@ function generateStateHash(
   nonce: bigint,
   isFinal: boolean = false,
 ): string {
-  return ethers.keccak256(
-    ethers.solidityPacked(
-      ["bytes32", "uint256", "uint256", "uint256", "bool"],
-      [channelId, userBalance, counterpartyBalance, nonce, isFinal],
+  return hashTypedPayload(
+    channelStateTypedData(
+      {
+        channelId,
+        userBalance,
+        counterpartyBalance,
+        nonce: Number(nonce),
+        isFinal,
+      },
+      channelStateDomain(SEPOLIA_CHAIN_ID, CUSTODIAN_ADDRESS),
     ),
   );
 }
 
 /**
- * Sign a state hash
+ * Sign a channel state as EIP-712 typed data
  */
 async function signState(
   wallet: ethers.Wallet,
-  stateHash: string,
+  channelId: string,
+  userBalance: bigint,
+  counterpartyBalance: bigint,
+  nonce: bigint,
+  isFinal: boolean = false,
 ): Promise<string> {
-  const messageHash = ethers.hashMessage(ethers.getBytes(stateHash));
-  return wallet.signMessage(ethers.getBytes(stateHash));
+  const payload = channelStateTypedData(
+    {
+      channelId,
+      userBalance,
+      counterpartyBalance,
+      nonce: Number(nonce),
+      isFinal,
+    },
+    channelStateDomain(SEPOLIA_CHAIN_ID, CUSTODIAN_ADDRESS),
+  );
+  return wallet.signTypedData(payload.domain, payload.types, payload.message);
 }
 
 // Run main test
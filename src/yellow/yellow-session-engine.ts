@@ -2,7 +2,7 @@
  * Yellow Network Session Engine
  *
  * REAL implementation using ethers.js and viem for state channel operations.
- * This replaces the simulated browser-session-engine.ts with actual
+ * This replaces the simulated engine/session-engine.ts with actual
  * blockchain interactions.
  *
  * Yellow Network uses Nitrolite protocol for state channels:
@@ -37,6 +37,13 @@ import type {
   ChannelBalances,
 } from "./types";
 import { ChannelError, ChannelException } from "./types";
+import { ViemAccountSigner, evmVerifier, type Signer } from "../crypto/signer";
+import {
+  channelStateDomain,
+  channelStateTypedData,
+  hashTypedPayload,
+  verifyChannelStateTyped,
+} from "../crypto/typed-data";
 
 // ============================================================================
 // CONSTANTS
@@ -101,10 +108,19 @@ export class YellowSessionEngine {
   private _ethersSigner: ethers.Wallet;
   private config: NitroliteConfig;
   private account: ReturnType<typeof privateKeyToAccount>;
+  private stateSigner: Signer;
   private channels: Map<string, Channel> = new Map();
   private states: Map<string, SignedState[]> = new Map();
 
-  constructor(config: NitroliteConfig, privateKey: `0x${string}`) {
+  /**
+   * @param privateKey - Key of the account that sends channel transactions
+   * @param stateSigner - Signs channel states; defaults to that account
+   */
+  constructor(
+    config: NitroliteConfig,
+    privateKey: `0x${string}`,
+    stateSigner?: Signer,
+  ) {
     this.config = config;
     const chainConfig = CHAIN_CONFIGS[config.chainId];
     if (!chainConfig) {
@@ -112,6 +128,7 @@ export class YellowSessionEngine {
     }
 
     this.account = privateKeyToAccount(privateKey);
+    this.stateSigner = stateSigner || new ViemAccountSigner(this.account);
     this.publicClient = createPublicClient({
       chain: chainConfig.chain,
       transport: http(config.rpcUrl || chainConfig.rpcUrl),
@@ -228,10 +245,39 @@ export class YellowSessionEngine {
   }
 
   async signState(state: ChannelState): Promise<SignedState> {
-    const signature = await this.signMessage(state.stateHash);
+    const signature = await this.stateSigner.signTypedData(
+      channelStateTypedData(state, this.getStateDomain()),
+    );
     return { ...state, userSignature: signature, counterpartySignature: "" };
   }
 
+  /**
+   * EIP-712 domain of the configured custodian.
+   */
+  getStateDomain(): ethers.TypedDataDomain {
+    return channelStateDomain(
+      this.config.chainId,
+      this.config.custodianAddress,
+    );
+  }
+
+  /**
+   * Verify a party's typed-data signature over a channel state.
+   */
+  async verifyStateSignature(
+    state: ChannelState,
+    signature: string,
+    signer: string,
+  ): Promise<boolean> {
+    return verifyChannelStateTyped(
+      evmVerifier,
+      state,
+      signature,
+      signer,
+      this.getStateDomain(),
+    );
+  }
+
   async waitForCounterpartySignature(
     state: SignedState,
     timeoutMs = 30000,
@@ -451,10 +497,7 @@ export class YellowSessionEngine {
     });
   }
 
-  private async signMessage(message: string): Promise<string> {
-    return this.walletClient.signMessage({ message });
-  }
-
+  // State hash is the EIP-712 digest the custodian recovers signers from
   private computeStateHash(
     channelId: string,
     nonce: number,
@@ -462,10 +505,10 @@ export class YellowSessionEngine {
     counterpartyBalance: bigint,
     isFinal: boolean,
   ): string {
-    return ethers.keccak256(
-      ethers.AbiCoder.defaultAbiCoder().encode(
-        ["bytes32", "uint256", "uint256", "uint256", "bool"],
-        [channelId, nonce, userBalance, counterpartyBalance, isFinal],
+    return hashTypedPayload(
+      channelStateTypedData(
+        { channelId, nonce, userBalance, counterpartyBalance, isFinal },
+        this.getStateDomain(),
       ),
     );
   }